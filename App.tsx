@@ -2,8 +2,11 @@ import React, { useState, useEffect } from "react";
 import LeaveManagerApp from "./LeaveManagerApp";
 import TaskManagerApp from "./TaskManagerApp";
 import GoogleLogin from "./components/GoogleLogin";
+import OutboxIndicator from "./components/OutboxIndicator";
 import { AuthenticatedUser } from "./types";
 import { seedData } from "./services/storageService";
+import { startOutboxSync } from "./services/outboxService";
+import { clearRoleCache, sendMutation } from "./services/sheetService";
 
 enum Module {
   LEAVE_MANAGER = "LEAVE_MANAGER",
@@ -18,6 +21,8 @@ const App: React.FC = () => {
     seedData(); // Populate some fake data if empty
   }, []);
 
+  useEffect(() => startOutboxSync(sendMutation), []);
+
   useEffect(() => {
     // Restore authenticated user from localStorage on refresh
     const raw = localStorage.getItem("swiftleave_auth_user");
@@ -45,6 +50,8 @@ const App: React.FC = () => {
 
     // Clear all localStorage data
     localStorage.clear();
+    // Sheet ranges cached in IndexedDB outlive localStorage.clear()
+    void clearRoleCache();
 
     // Alternative: Clear specific keys if you want to preserve some data
     // localStorage.removeItem("swiftleave_last_email");
@@ -130,6 +137,8 @@ const App: React.FC = () => {
           </div>
         </nav>
 
+        <OutboxIndicator />
+
         {/* Footer */}
         <div className="p-4 border-t border-slate-700">
           <p className="text-xs text-slate-400 text-center">
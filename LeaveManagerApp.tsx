@@ -1,7 +1,9 @@
 import React, { useState, useEffect } from "react";
 import LeaveForm from "./components/LeaveForm";
 import LeaveHistory from "./components/LeaveHistory";
+import CoverageRequests from "./components/CoverageRequests";
 import ManagerDashboard from "./components/ManagerDashboard";
+import TeamCalendar from "./components/TeamCalendar";
 import { seedData } from "./services/storageService";
 import { fetchEmployeeDirectory, fetchUserRole } from "./services/sheetService";
 import { AuthenticatedUser, EmployeeRecord, UserProfile } from "./types";
@@ -9,12 +11,14 @@ import { AuthenticatedUser, EmployeeRecord, UserProfile } from "./types";
 enum View {
   EMPLOYEE = "EMPLOYEE",
   MANAGER = "MANAGER",
+  CALENDAR = "CALENDAR",
 }
 
 enum EmployeeScreen {
   ACTIONS = "ACTIONS",
   APPLY = "APPLY",
   HISTORY = "HISTORY",
+  COVERAGE = "COVERAGE",
 }
 
 interface LeaveManagerAppProps {
@@ -70,7 +74,7 @@ const LeaveManagerApp: React.FC<LeaveManagerAppProps> = ({ user }) => {
         `Signed in as ${result.name ?? result.email} (${result.role})`
       );
       localStorage.setItem("swiftleave_last_email", email);
-      if (!nextIsManager && currentView === View.MANAGER)
+      if (!nextIsManager && currentView !== View.EMPLOYEE)
         setCurrentView(View.EMPLOYEE);
     } else {
       const fallback: UserProfile = { email: email, role: "employee" };
@@ -124,8 +128,11 @@ const LeaveManagerApp: React.FC<LeaveManagerAppProps> = ({ user }) => {
                   ? "New Leave Request"
                   : employeeScreen === EmployeeScreen.HISTORY
                   ? "Leave History"
+                  : employeeScreen === EmployeeScreen.COVERAGE
+                  ? "Alternate Coverage"
                   : "Apply Leave")}
               {currentView === View.MANAGER && "Manage Leave"}
+              {currentView === View.CALENDAR && "Team Calendar"}
             </h2>
             <p className="text-gray-500 mt-1">
               {currentView === View.EMPLOYEE &&
@@ -133,9 +140,13 @@ const LeaveManagerApp: React.FC<LeaveManagerAppProps> = ({ user }) => {
                   ? "Fill in the form to submit your leave request."
                   : employeeScreen === EmployeeScreen.HISTORY
                   ? "Review your submitted requests from the Logs sheet."
+                  : employeeScreen === EmployeeScreen.COVERAGE
+                  ? "Accept or decline covering for a colleague on leave."
                   : "Choose an action to get started.")}
               {currentView === View.MANAGER &&
                 "Approve or reject requests and track the live sheet."}
+              {currentView === View.CALENDAR &&
+                "See who is out on which day, approved and pending."}
             </p>
           </div>
         </header>
@@ -183,6 +194,23 @@ const LeaveManagerApp: React.FC<LeaveManagerAppProps> = ({ user }) => {
                 </p>
               </button>
 
+              <button
+                type="button"
+                onClick={() => {
+                  if (!user.email) return;
+                  setCurrentView(View.EMPLOYEE);
+                  setEmployeeScreen(EmployeeScreen.COVERAGE);
+                }}
+                className="text-left rounded-xl border p-5 shadow-sm transition hover:shadow-md border-slate-200 bg-white hover:border-slate-700"
+              >
+                <h3 className="text-lg font-semibold mb-1">
+                  Alternate coverage requests
+                </h3>
+                <p className="text-sm text-slate-600">
+                  Answer colleagues who named you as their alternate staff.
+                </p>
+              </button>
+
               {isManager && (
                 <button
                   type="button"
@@ -199,6 +227,22 @@ const LeaveManagerApp: React.FC<LeaveManagerAppProps> = ({ user }) => {
                   </p>
                 </button>
               )}
+
+              {isManager && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setEmployeeScreen(EmployeeScreen.ACTIONS);
+                    setCurrentView(View.CALENDAR);
+                  }}
+                  className="text-left rounded-xl border p-5 shadow-sm transition hover:shadow-md border-slate-200 bg-white hover:border-slate-700"
+                >
+                  <h3 className="text-lg font-semibold mb-1">Team Calendar</h3>
+                  <p className="text-sm text-slate-600">
+                    See approved and pending leave by month or week.
+                  </p>
+                </button>
+              )}
             </section>
           )}
 
@@ -229,8 +273,28 @@ const LeaveManagerApp: React.FC<LeaveManagerAppProps> = ({ user }) => {
                   user.email && (
                     <LeaveHistory employeeEmail={user.email} />
                   )}
+
+                {employeeScreen === EmployeeScreen.COVERAGE &&
+                  user.email && (
+                    <CoverageRequests employeeEmail={user.email} />
+                  )}
               </div>
             )}
+          {currentView === View.CALENDAR && isManager && (
+            <div className="space-y-6">
+              <button
+                type="button"
+                onClick={() => {
+                  setCurrentView(View.EMPLOYEE);
+                  setEmployeeScreen(EmployeeScreen.ACTIONS);
+                }}
+                className="inline-flex items-center text-sm text-slate-600 hover:text-slate-900"
+              >
+                <span className="mr-1">←</span> Back to actions
+              </button>
+              <TeamCalendar />
+            </div>
+          )}
           {currentView === View.MANAGER &&
             (isManager ? (
               <div className="space-y-6">
@@ -244,7 +308,10 @@ const LeaveManagerApp: React.FC<LeaveManagerAppProps> = ({ user }) => {
                 >
                   <span className="mr-1">←</span> Back to actions
                 </button>
-                <ManagerDashboard focusRequestId={deepLinkRid || undefined} />
+                <ManagerDashboard
+                  focusRequestId={deepLinkRid || undefined}
+                  viewer={userProfile || undefined}
+                />
               </div>
             ) : (
               <div className="max-w-xl mx-auto bg-yellow-50 border border-yellow-200 text-yellow-800 p-6 rounded-lg shadow-sm">
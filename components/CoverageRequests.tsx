@@ -0,0 +1,183 @@
+import React, { useEffect, useState } from "react";
+import {
+  fetchLogRecords,
+  respondToCoverage,
+  subscribeDataRefresh,
+  LogSheetRecord,
+} from "../services/sheetService";
+import { formatDateRange } from "../services/dateUtils";
+import { coverageLabel, coverageRequestsFor } from "../services/coverage";
+import { statusLabel } from "../services/leaveStatus";
+
+const coverageBadgeClass = (status: string) =>
+  status === "ACCEPTED"
+    ? "bg-green-100 text-green-800"
+    : status === "DECLINED"
+    ? "bg-red-100 text-red-800"
+    : "bg-yellow-100 text-yellow-800";
+
+// Requests where the viewer was nominated as alternate; unanswered ones come first.
+const sortForReply = (rows: LogSheetRecord[]) =>
+  [...rows].sort(
+    (a, b) =>
+      Number(b.coverageStatus === "PENDING") - Number(a.coverageStatus === "PENDING")
+  );
+
+// Lets a nominated alternate accept or decline covering a colleague's leave.
+const CoverageRequests: React.FC<{ employeeEmail: string }> = ({
+  employeeEmail,
+}) => {
+  const [rows, setRows] = useState<LogSheetRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshSeq, setRefreshSeq] = useState(0);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const load = async () =>
+    sortForReply(coverageRequestsFor(await fetchLogRecords(), employeeEmail));
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    load()
+      .then((data) => {
+        if (!cancelled) setRows(data);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [employeeEmail, refreshSeq]);
+
+  useEffect(
+    () =>
+      subscribeDataRefresh("logs", () => {
+        load().then(setRows);
+      }),
+    [employeeEmail]
+  );
+
+  const handleRespond = async (
+    record: LogSheetRecord,
+    response: "ACCEPTED" | "DECLINED"
+  ) => {
+    let note = "";
+    if (response === "DECLINED") {
+      const answer = window.prompt(
+        `Let ${record.employeeName || record.employeeEmail} know why you cannot cover (optional):`
+      );
+      if (answer === null) return;
+      note = answer.trim();
+    }
+    setBusyId(record.requestId);
+    try {
+      const result = await respondToCoverage({
+        requestId: record.requestId,
+        responderEmail: employeeEmail,
+        response,
+        note,
+      });
+      if (!result.ok) {
+        alert(`Could not record your answer: ${result.message || result.code}`);
+        return;
+      }
+      if (result.queued) alert(result.message);
+      setRefreshSeq((s) => s + 1);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-gray-100 overflow-hidden">
+      <div className="px-6 py-5 border-b border-gray-100 flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-bold text-slate-900">
+            Alternate coverage requests
+          </h3>
+          <p className="text-sm text-slate-500">
+            Colleagues who named you to cover their work while they are away.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => setRefreshSeq((v) => v + 1)}
+          disabled={isLoading}
+          className="text-sm text-slate-700 hover:text-slate-900 underline disabled:opacity-50"
+        >
+          Refresh
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="p-10 text-center text-slate-500">Loading requests…</div>
+      ) : rows.length === 0 ? (
+        <div className="p-10 text-center text-slate-500">
+          Nobody has asked you to cover for them.
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {rows.map((r) => (
+            <li
+              key={r.requestId}
+              className="px-6 py-4 flex flex-col md:flex-row md:items-center md:justify-between gap-3"
+            >
+              <div className="text-sm">
+                <p className="font-semibold text-slate-900">
+                  {r.employeeName || r.employeeEmail}
+                  <span className="ml-2 text-xs font-normal text-gray-500">
+                    {r.leaveType || r.permissionType || "Leave"} ·{" "}
+                    {statusLabel(r.status)}
+                  </span>
+                </p>
+                <p className="text-gray-700">
+                  {formatDateRange(r.startDate, r.endDate)}
+                </p>
+                {r.reason && (
+                  <p className="text-xs text-gray-500 mt-1">{r.reason}</p>
+                )}
+                {r.coverageNote && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Your note: {r.coverageNote}
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center gap-3">
+                <span
+                  className={`px-2 py-0.5 rounded-full text-xs font-medium ${coverageBadgeClass(
+                    r.coverageStatus
+                  )}`}
+                >
+                  {coverageLabel(r.coverageStatus)}
+                </span>
+                {r.coverageStatus !== "ACCEPTED" && (
+                  <button
+                    type="button"
+                    onClick={() => handleRespond(r, "ACCEPTED")}
+                    disabled={busyId === r.requestId}
+                    className="px-3 py-1.5 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 rounded-md disabled:opacity-50"
+                  >
+                    Accept
+                  </button>
+                )}
+                {r.coverageStatus !== "DECLINED" && (
+                  <button
+                    type="button"
+                    onClick={() => handleRespond(r, "DECLINED")}
+                    disabled={busyId === r.requestId}
+                    className="px-3 py-1.5 text-sm font-medium text-red-700 border border-red-200 hover:bg-red-50 rounded-md disabled:opacity-50"
+                  >
+                    Decline
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CoverageRequests;
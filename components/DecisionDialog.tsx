@@ -0,0 +1,300 @@
+import React, { useState } from "react";
+import { CommentTemplateRecord, DecisionParams, LogSheetRecord } from "../types";
+import { deleteCommentTemplate, saveCommentTemplate } from "../services/sheetService";
+import { formatDateRange } from "../services/dateUtils";
+import { isFinalStep } from "../services/approvalChain";
+import { coverageLabel } from "../services/coverage";
+import { missingCommentMessage } from "../services/leaveStatus";
+import { MAX_TEMPLATE_LABEL, templatesFor, validateTemplate } from "../services/commentTemplates";
+
+type DecisionStatus = DecisionParams["status"];
+
+export type DecisionInput = { comment: string; alternateNote: string };
+
+const copyFor = (status: DecisionStatus, cancellation: boolean) => {
+  if (cancellation) {
+    return status === "APPROVED"
+      ? { title: "Approve cancellation", action: "Approve cancellation", prompt: "Note to the employee (optional)" }
+      : { title: "Keep the approved leave", action: "Keep leave", prompt: "Note to the employee (optional)" };
+  }
+  if (status === "APPROVED") {
+    return { title: "Approve leave request", action: "Approve & Email", prompt: "Message to the employee (optional)" };
+  }
+  if (status === "NEEDS_INFO") {
+    return { title: "Ask for more information", action: "Send back", prompt: "What should the employee add?" };
+  }
+  return { title: "Reject leave request", action: "Reject", prompt: "Reason for rejection" };
+};
+
+// Collects the comment for one decision, with the request in view and the manager's saved templates at hand.
+const DecisionDialog: React.FC<{
+  request: LogSheetRecord;
+  status: DecisionStatus;
+  cancellation?: boolean;
+  viewerEmail?: string;
+  templates: CommentTemplateRecord[];
+  onTemplatesChanged: () => void;
+  onSubmit: (input: DecisionInput) => Promise<string | null>; // resolves to an error message when not saved
+  onClose: () => void;
+}> = ({
+  request,
+  status,
+  cancellation = false,
+  viewerEmail = "",
+  templates,
+  onTemplatesChanged,
+  onSubmit,
+  onClose,
+}) => {
+  const [comment, setComment] = useState("");
+  const [noteAlternate, setNoteAlternate] = useState(false);
+  const [alternateNote, setAlternateNote] = useState("");
+  const [templateLabel, setTemplateLabel] = useState<string | null>(null);
+  const [templateForAll, setTemplateForAll] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isSending, setIsSending] = useState(false);
+
+  const copy = copyFor(status, cancellation);
+  const commentRequired = !cancellation && !!missingCommentMessage(status, "");
+  const offersAlternateNote =
+    status === "APPROVED" && !cancellation && !!request.alternateStaff && isFinalStep(request);
+  const available = templatesFor(templates, viewerEmail, status);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const missing = cancellation ? null : missingCommentMessage(status, comment);
+    if (missing) {
+      setError(missing);
+      return;
+    }
+    if (noteAlternate && !alternateNote.trim()) {
+      setError(`Write the note for ${request.alternateStaff}, or untick it.`);
+      return;
+    }
+    setIsSending(true);
+    setError(null);
+    const failure = await onSubmit({
+      comment: comment.trim(),
+      alternateNote: noteAlternate ? alternateNote.trim() : "",
+    });
+    setIsSending(false);
+    if (failure) setError(failure);
+  };
+
+  const handleSaveTemplate = async () => {
+    const params = {
+      ownerEmail: viewerEmail,
+      label: templateLabel || "",
+      decision: templateForAll ? ("" as const) : status,
+      text: comment,
+    };
+    // The webhook runs the same checks; this gives immediate feedback.
+    const invalid = validateTemplate(params, templates);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+    const result = await saveCommentTemplate(params);
+    if (!result.ok) {
+      setError(result.message || "The template was not saved.");
+      return;
+    }
+    setError(null);
+    setTemplateLabel(null);
+    onTemplatesChanged();
+  };
+
+  const handleDeleteTemplate = async (template: CommentTemplateRecord) => {
+    if (!window.confirm(`Delete the template "${template.label}"?`)) return;
+    const result = await deleteCommentTemplate(template.templateId, viewerEmail);
+    if (!result.ok) {
+      setError(result.message || "The template was not deleted.");
+      return;
+    }
+    onTemplatesChanged();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-xl shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto"
+      >
+        <div className="px-6 py-4 border-b border-gray-100">
+          <h3 className="text-lg font-bold text-slate-900">{copy.title}</h3>
+          <p className="text-xs text-gray-500">Request ID: {request.requestId}</p>
+        </div>
+
+        <dl className="px-6 py-4 grid grid-cols-3 gap-x-3 gap-y-1 text-sm border-b border-gray-100">
+          <dt className="text-gray-500">Employee</dt>
+          <dd className="col-span-2 font-medium">{request.employeeName || request.employeeEmail}</dd>
+          <dt className="text-gray-500">Dates</dt>
+          <dd className="col-span-2">{formatDateRange(request.startDate, request.endDate)}</dd>
+          <dt className="text-gray-500">Type</dt>
+          <dd className="col-span-2">
+            {[request.permissionType, request.leaveType].filter(Boolean).join(" · ") || "-"}
+          </dd>
+          <dt className="text-gray-500">Alternate</dt>
+          <dd className="col-span-2">
+            {request.alternateStaff || "-"}
+            {request.coverageStatus && (
+              <span className="ml-1 text-xs text-gray-500">
+                ({coverageLabel(request.coverageStatus)})
+              </span>
+            )}
+          </dd>
+          <dt className="text-gray-500">Reason</dt>
+          <dd className="col-span-2">{request.reason || "-"}</dd>
+          {cancellation && (
+            <>
+              <dt className="text-gray-500">Cancellation</dt>
+              <dd className="col-span-2">{request.cancellationReason || "-"}</dd>
+            </>
+          )}
+        </dl>
+
+        <div className="px-6 py-4 space-y-4 text-sm">
+          {available.length > 0 && (
+            <div>
+              <p className="text-xs text-gray-500 mb-1">Templates</p>
+              <div className="flex flex-wrap gap-2">
+                {available.map((t) => (
+                  <span
+                    key={t.templateId}
+                    className="inline-flex items-center rounded-full border border-slate-200 bg-slate-50"
+                  >
+                    <button
+                      type="button"
+                      onClick={() => setComment(t.text)}
+                      title={t.text}
+                      className="pl-3 pr-1 py-1 text-slate-700 hover:text-slate-900"
+                    >
+                      {t.label}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDeleteTemplate(t)}
+                      aria-label={`Delete template ${t.label}`}
+                      className="pr-2 pl-1 text-gray-400 hover:text-red-600"
+                    >
+                      ×
+                    </button>
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <label className="block">
+            <span className="block text-xs text-gray-500 mb-1">
+              {copy.prompt}
+              {commentRequired && <span className="text-red-600"> *</span>}
+            </span>
+            <textarea
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              rows={3}
+              autoFocus
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+            />
+          </label>
+
+          {viewerEmail && comment.trim() && (
+            <div className="text-xs">
+              {templateLabel === null ? (
+                <button
+                  type="button"
+                  onClick={() => setTemplateLabel("")}
+                  className="text-slate-600 hover:text-slate-900 underline"
+                >
+                  Save as template
+                </button>
+              ) : (
+                <div className="flex flex-wrap items-center gap-2">
+                  <input
+                    type="text"
+                    value={templateLabel}
+                    maxLength={MAX_TEMPLATE_LABEL}
+                    onChange={(e) => setTemplateLabel(e.target.value)}
+                    placeholder="Template name"
+                    className="px-2 py-1 border border-gray-300 rounded-md"
+                  />
+                  <label className="flex items-center gap-1 text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={templateForAll}
+                      onChange={(e) => setTemplateForAll(e.target.checked)}
+                    />
+                    Offer for every decision
+                  </label>
+                  <button
+                    type="button"
+                    onClick={handleSaveTemplate}
+                    className="px-2 py-1 font-medium text-white bg-slate-700 hover:bg-slate-800 rounded-md"
+                  >
+                    Save
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setTemplateLabel(null)}
+                    className="text-gray-500 hover:text-gray-700 underline"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {offersAlternateNote && (
+            <div className="rounded-lg border border-emerald-100 bg-emerald-50 p-3">
+              <label className="flex items-center gap-2 text-emerald-900">
+                <input
+                  type="checkbox"
+                  checked={noteAlternate}
+                  onChange={(e) => setNoteAlternate(e.target.checked)}
+                />
+                Also send a note to {request.alternateStaff}
+              </label>
+              {noteAlternate && (
+                <textarea
+                  value={alternateNote}
+                  onChange={(e) => setAlternateNote(e.target.value)}
+                  rows={2}
+                  placeholder="Handover details for the alternate staff"
+                  className="mt-2 w-full px-3 py-2 border border-emerald-200 rounded-lg bg-white"
+                />
+              )}
+            </div>
+          )}
+
+          {error && <p className="text-red-600">{error}</p>}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-100 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isSending}
+            className="px-4 py-2 text-sm text-slate-700 hover:text-slate-900"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isSending}
+            className={`px-4 py-2 text-sm font-medium rounded-md disabled:opacity-50 ${
+              status === "REJECTED" && !cancellation
+                ? "text-white bg-red-600 hover:bg-red-700"
+                : "text-white bg-slate-900 hover:bg-slate-800"
+            }`}
+          >
+            {isSending ? "Sending..." : copy.action}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default DecisionDialog;
@@ -0,0 +1,370 @@
+import React, { useMemo, useState } from "react";
+import { EmployeeRecord, LeaveStatus, LogSheetRecord } from "../types";
+import * as XLSX from "xlsx";
+import { LOG_SCHEMA, schemaHeaders } from "../services/sheetSchema";
+import { formatDateRange } from "../services/dateUtils";
+import { requestDays } from "../services/leaveBalance";
+import { formatWorkingDays, HolidayCalendar } from "../services/workingDays";
+import { describeApprover, serializeApprovalSteps } from "../services/approvalChain";
+import { coverageLabel } from "../services/coverage";
+import { statusLabel } from "../services/leaveStatus";
+import {
+  distinctValues,
+  EMPTY_HISTORY_FILTERS,
+  filterHistory,
+  HistoryFilters,
+  HistorySortKey,
+  isFiltered,
+  pageOf,
+  sortHistory,
+  SortDirection,
+} from "../services/historyFilters";
+
+// Statuses a request can have once it no longer waits on a decision.
+const HISTORY_STATUSES = [
+  LeaveStatus.APPROVED,
+  LeaveStatus.REJECTED,
+  LeaveStatus.NEEDS_INFO,
+  LeaveStatus.WITHDRAWN,
+  LeaveStatus.CANCELLED,
+];
+
+const COLUMNS: { key: HistorySortKey; label: string }[] = [
+  { key: "employeeName", label: "Employee" },
+  { key: "startDate", label: "Dates" },
+  { key: "leaveType", label: "Type" },
+  { key: "status", label: "Status" },
+  { key: "timestamp", label: "Submitted" },
+];
+
+const statusBadgeClass = (status: string) => {
+  const s = (status || "").toUpperCase();
+  if (s === "APPROVED") return "bg-green-100 text-green-800";
+  if (s === "NEEDS_INFO") return "bg-blue-100 text-blue-800";
+  if (["CANCELLED", "WITHDRAWN", "DELETED"].includes(s)) return "bg-gray-100 text-gray-600";
+  return "bg-red-100 text-red-800";
+};
+
+// Cell text for the export; the approval chain goes out as the same JSON the Logs sheet stores.
+const exportValue = (r: LogSheetRecord, key: string) =>
+  key === "approvalSteps"
+    ? serializeApprovalSteps(r.approvalSteps)
+    : String((r as Record<string, unknown>)[key] ?? "");
+
+// Every Logs column of one request, in sheet order, for the expanded row.
+const RecordDetails: React.FC<{ record: LogSheetRecord; directory: EmployeeRecord[] }> = ({
+  record,
+  directory,
+}) => (
+  <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1 text-xs">
+    {LOG_SCHEMA.columns.map((col) => {
+      let value: React.ReactNode = exportValue(record, col.key);
+      if (col.key === "timestamp" && record.timestamp) {
+        value = new Date(record.timestamp).toLocaleString();
+      } else if (col.key === "coverageStatus") {
+        value = coverageLabel(record.coverageStatus);
+      } else if (col.key === "decidedBy" || col.key === "onBehalfOf") {
+        const email = record[col.key];
+        value = email ? describeApprover(email, directory) : "";
+      } else if (col.key === "approvalSteps") {
+        value = record.approvalSteps.length ? (
+          <ol className="list-decimal list-inside">
+            {record.approvalSteps.map((step, i) => (
+              <li key={i}>
+                {describeApprover(step.approver, directory)}: {step.status.toLowerCase()}
+                {step.decidedBy && step.decidedBy !== step.approver &&
+                  ` by ${describeApprover(step.decidedBy, directory)}`}
+                {step.decidedAt && ` on ${new Date(step.decidedAt).toLocaleDateString()}`}
+                {step.comment && ` (“${step.comment}”)`}
+              </li>
+            ))}
+          </ol>
+        ) : (
+          ""
+        );
+      }
+      return (
+        <div key={col.key} className="flex gap-2 py-0.5">
+          <dt className="w-40 shrink-0 text-gray-500">{col.header}</dt>
+          <dd className="text-gray-800 break-words min-w-0">{value || "—"}</dd>
+        </div>
+      );
+    })}
+  </dl>
+);
+
+// Decided, withdrawn and cancelled requests, searchable and filterable, with an export of what the filters select.
+const DecisionHistory: React.FC<{
+  records: LogSheetRecord[];
+  directory: EmployeeRecord[];
+  holidays: HolidayCalendar;
+  revisionCount: Map<string, number>;
+  onViewChanges: (requestId: string) => void;
+}> = ({ records, directory, holidays, revisionCount, onViewChanges }) => {
+  const [filters, setFilters] = useState<HistoryFilters>(EMPTY_HISTORY_FILTERS);
+  const [sortKey, setSortKey] = useState<HistorySortKey>("timestamp");
+  const [direction, setDirection] = useState<SortDirection>("desc");
+  const [page, setPage] = useState(1);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const leaveTypes = useMemo(() => distinctValues(records, "leaveType"), [records]);
+  const permissionTypes = useMemo(() => distinctValues(records, "permissionType"), [records]);
+  const matching: LogSheetRecord[] = useMemo(
+    () => sortHistory(filterHistory(records, filters), sortKey, direction),
+    [records, filters, sortKey, direction]
+  );
+  const current = pageOf(matching, page);
+
+  const updateFilter = (key: keyof HistoryFilters, value: string) => {
+    setFilters((f) => ({ ...f, [key]: value }));
+    setPage(1);
+  };
+
+  const handleSort = (key: HistorySortKey) => {
+    if (key === sortKey) {
+      setDirection((d) => (d === "asc" ? "desc" : "asc"));
+    } else {
+      setSortKey(key);
+      setDirection(key === "timestamp" || key === "startDate" ? "desc" : "asc");
+    }
+    setPage(1);
+  };
+
+  const handleDownload = () => {
+    // Export exactly the rows the filters select, in the current order, with every Logs column.
+    const header = schemaHeaders(LOG_SCHEMA);
+    const rows = matching.map((r) => LOG_SCHEMA.columns.map((col) => exportValue(r, col.key)));
+
+    const ws = XLSX.utils.aoa_to_sheet([header, ...rows]);
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, "Logs");
+
+    const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, "-");
+    XLSX.writeFile(wb, `leave-logs-${isFiltered(filters) ? "filtered-" : ""}${stamp}.xlsx`);
+  };
+
+  const inputClass = "px-2 py-1 text-sm border border-slate-300 rounded-lg bg-white";
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <h2 className="text-xl font-bold text-gray-800">Recent History</h2>
+        <button
+          type="button"
+          onClick={handleDownload}
+          disabled={matching.length === 0}
+          className="text-sm text-slate-700 hover:text-slate-900 underline disabled:opacity-50"
+          title="Download the filtered history as Excel"
+        >
+          Download Logs ({matching.length})
+        </button>
+      </div>
+
+      <div className="bg-white rounded-lg shadow mb-3 p-3 flex flex-wrap items-center gap-2">
+        <input
+          type="search"
+          value={filters.search}
+          onChange={(e) => updateFilter("search", e.target.value)}
+          placeholder="Search employee or request ID"
+          className={`${inputClass} flex-1 min-w-[12rem]`}
+        />
+        <select
+          value={filters.status}
+          onChange={(e) => updateFilter("status", e.target.value)}
+          className={inputClass}
+        >
+          <option value="">Any status</option>
+          {HISTORY_STATUSES.map((s) => (
+            <option key={s} value={s}>
+              {statusLabel(s)}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filters.leaveType}
+          onChange={(e) => updateFilter("leaveType", e.target.value)}
+          className={inputClass}
+        >
+          <option value="">Any leave type</option>
+          {leaveTypes.map((t) => (
+            <option key={t} value={t}>
+              {t}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filters.permissionType}
+          onChange={(e) => updateFilter("permissionType", e.target.value)}
+          className={inputClass}
+        >
+          <option value="">Any permission type</option>
+          {permissionTypes.map((t) => (
+            <option key={t} value={t}>
+              {t}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-1 text-xs text-gray-500">
+          From
+          <input
+            type="date"
+            value={filters.from}
+            onChange={(e) => updateFilter("from", e.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex items-center gap-1 text-xs text-gray-500">
+          To
+          <input
+            type="date"
+            value={filters.to}
+            onChange={(e) => updateFilter("to", e.target.value)}
+            className={inputClass}
+          />
+        </label>
+        {isFiltered(filters) && (
+          <button
+            type="button"
+            onClick={() => {
+              setFilters(EMPTY_HISTORY_FILTERS);
+              setPage(1);
+            }}
+            className="text-xs text-slate-600 hover:text-slate-900 underline"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <table className="w-full text-sm text-left">
+          <thead className="bg-gray-50 text-gray-500">
+            <tr>
+              {COLUMNS.map((col) => (
+                <th key={col.key} className="px-4 py-3 font-medium">
+                  <button
+                    type="button"
+                    onClick={() => handleSort(col.key)}
+                    className="hover:text-gray-800"
+                  >
+                    {col.label}
+                    {sortKey === col.key && (direction === "asc" ? " ▲" : " ▼")}
+                  </button>
+                </th>
+              ))}
+              <th className="px-4 py-3 font-medium">Manager Note</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {current.rows.map((req) => {
+              const isOpen = expanded === req.requestId;
+              return (
+                <React.Fragment key={`${req.requestId}-${req.timestamp}`}>
+                  <tr
+                    onClick={() => setExpanded(isOpen ? null : req.requestId)}
+                    className="cursor-pointer hover:bg-gray-50"
+                    aria-expanded={isOpen}
+                  >
+                    <td className="px-4 py-3 font-medium text-gray-900">
+                      <span className="mr-1 text-gray-400">{isOpen ? "▾" : "▸"}</span>
+                      {req.employeeName || req.employeeEmail}
+                    </td>
+                    <td className="px-4 py-3 text-gray-500">
+                      {formatDateRange(req.startDate, req.endDate)}
+                      {req.startDate && (
+                        <span className="block text-xs text-gray-400">
+                          {formatWorkingDays(requestDays(req, holidays))}
+                        </span>
+                      )}
+                      {revisionCount.has(req.requestId) && (
+                        <button
+                          type="button"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onViewChanges(req.requestId);
+                          }}
+                          className="block text-xs text-slate-600 hover:text-slate-900 underline"
+                        >
+                          View changes
+                        </button>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-gray-500">
+                      {[req.permissionType, req.leaveType].filter(Boolean).join(" · ") || "-"}
+                    </td>
+                    <td className="px-4 py-3">
+                      <span
+                        className={`px-2 py-1 rounded-full text-xs font-semibold ${statusBadgeClass(
+                          req.status
+                        )}`}
+                      >
+                        {req.status}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-gray-500 whitespace-nowrap">
+                      {req.timestamp ? new Date(req.timestamp).toLocaleDateString() : "-"}
+                    </td>
+                    <td className="px-4 py-3 text-gray-500 truncate max-w-xs">
+                      {req.managerComment || "-"}
+                      {req.onBehalfOf && (
+                        <span className="block text-xs text-gray-400">
+                          {describeApprover(req.decidedBy, directory)} for{" "}
+                          {describeApprover(req.onBehalfOf, directory)}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                  {isOpen && (
+                    <tr className="bg-gray-50">
+                      <td colSpan={COLUMNS.length + 1} className="px-6 py-4">
+                        <RecordDetails record={req} directory={directory} />
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              );
+            })}
+            {matching.length === 0 && (
+              <tr>
+                <td colSpan={COLUMNS.length + 1} className="px-6 py-4 text-center text-gray-400">
+                  {records.length === 0 ? "No history yet." : "No requests match these filters."}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+
+        {matching.length > 0 && (
+          <div className="px-4 py-3 border-t border-gray-100 flex items-center justify-between text-xs text-gray-500">
+            <span>
+              Showing {current.first + 1}–{current.first + current.rows.length} of {matching.length}
+            </span>
+            <div className="flex items-center gap-3">
+              <button
+                type="button"
+                onClick={() => setPage(current.page - 1)}
+                disabled={current.page <= 1}
+                className="text-slate-700 hover:text-slate-900 underline disabled:opacity-50 disabled:no-underline"
+              >
+                Previous
+              </button>
+              <span>
+                Page {current.page} of {current.pageCount}
+              </span>
+              <button
+                type="button"
+                onClick={() => setPage(current.page + 1)}
+                disabled={current.page >= current.pageCount}
+                className="text-slate-700 hover:text-slate-900 underline disabled:opacity-50 disabled:no-underline"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DecisionHistory;
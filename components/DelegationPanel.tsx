@@ -0,0 +1,180 @@
+import React, { useState } from "react";
+import { DelegationRecord, EmployeeRecord, UserProfile } from "../types";
+import { revokeDelegation, saveDelegation } from "../services/sheetService";
+import { formatDateRange, todayIso } from "../services/dateUtils";
+import { isDelegationActive, validateDelegation } from "../services/delegation";
+
+const delegationState = (d: DelegationRecord) => {
+  if (d.status === "REVOKED") return "Revoked";
+  if (isDelegationActive(d)) return "Active now";
+  return d.startDate > todayIso() ? "Scheduled" : "Ended";
+};
+
+// Lets a manager hand their approvals to another manager or admin while they are away.
+const DelegationPanel: React.FC<{
+  viewer: UserProfile;
+  directory: EmployeeRecord[];
+  delegations: DelegationRecord[];
+  onChanged: () => void;
+}> = ({ viewer, directory, delegations, onChanged }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [delegateEmail, setDelegateEmail] = useState("");
+  const [startDate, setStartDate] = useState(todayIso());
+  const [endDate, setEndDate] = useState(todayIso());
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const email = viewer.email.trim().toLowerCase();
+  const candidates = directory.filter(
+    (emp) =>
+      emp.email !== email && (emp.role === "manager" || emp.role === "admin")
+  );
+  const nameOf = (address: string) =>
+    directory.find((emp) => emp.email === address)?.name || address;
+  const mine = delegations.filter(
+    (d) => d.delegatorEmail === email && delegationState(d) !== "Ended"
+  );
+  const toMe = delegations.filter(
+    (d) => d.delegateEmail === email && isDelegationActive(d)
+  );
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const params = { delegatorEmail: email, delegateEmail, startDate, endDate, requestedBy: email };
+    // The webhook runs the same checks; this gives immediate feedback.
+    const invalid = validateDelegation(params, directory, delegations);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    const result = await saveDelegation(params);
+    setIsSaving(false);
+    if (!result.ok) {
+      setError(result.message || "The delegation was not saved.");
+      return;
+    }
+    if (result.queued) alert(result.message);
+    setDelegateEmail("");
+    onChanged();
+  };
+
+  const handleRevoke = async (d: DelegationRecord) => {
+    if (!window.confirm(`Stop delegating approvals to ${nameOf(d.delegateEmail)}?`))
+      return;
+    const result = await revokeDelegation(d.delegationId, email);
+    if (!result.ok) {
+      alert(`Could not revoke the delegation: ${result.message || result.code}`);
+      return;
+    }
+    onChanged();
+  };
+
+  return (
+    <div className="mb-6 rounded-lg border border-slate-200 bg-white p-4 text-sm">
+      <div className="flex items-center justify-between gap-3">
+        <div className="text-gray-700">
+          {toMe.length > 0 ? (
+            <span>
+              Approving on behalf of{" "}
+              {toMe
+                .map((d) => `${nameOf(d.delegatorEmail)} (until ${d.endDate})`)
+                .join(", ")}
+            </span>
+          ) : mine.some((d) => isDelegationActive(d)) ? (
+            <span>Your approvals are currently delegated.</span>
+          ) : (
+            <span className="text-gray-500">Going away? Delegate your approvals.</span>
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={() => setIsOpen((v) => !v)}
+          className="text-slate-700 hover:text-slate-900 underline"
+        >
+          {isOpen ? "Close" : "Delegate approvals"}
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4">
+          <form onSubmit={handleSave} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+            <label className="block md:col-span-2">
+              <span className="block text-xs text-gray-500 mb-1">Delegate to</span>
+              <select
+                value={delegateEmail}
+                onChange={(e) => setDelegateEmail(e.target.value)}
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg bg-white"
+              >
+                <option value="">Select a manager or admin</option>
+                {candidates.map((emp) => (
+                  <option key={emp.email} value={emp.email}>
+                    {emp.name || emp.email} ({emp.role})
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className="block text-xs text-gray-500 mb-1">From</span>
+              <input
+                type="date"
+                value={startDate}
+                min={todayIso()}
+                onChange={(e) => setStartDate(e.target.value)}
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              />
+            </label>
+            <label className="block">
+              <span className="block text-xs text-gray-500 mb-1">Until</span>
+              <input
+                type="date"
+                value={endDate}
+                min={startDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              />
+            </label>
+            <div className="md:col-span-4 flex items-center justify-between gap-3">
+              <span className="text-red-600">{error}</span>
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="px-4 py-2 font-medium text-white bg-slate-900 hover:bg-slate-800 rounded-md disabled:opacity-50"
+              >
+                {isSaving ? "Saving..." : "Delegate"}
+              </button>
+            </div>
+          </form>
+
+          {mine.length > 0 && (
+            <ul className="divide-y divide-gray-100 border-t border-gray-100">
+              {mine.map((d) => (
+                <li key={d.delegationId} className="flex items-center justify-between py-2">
+                  <span>
+                    {nameOf(d.delegateEmail)} · {formatDateRange(d.startDate, d.endDate)}{" "}
+                    <span className="text-xs text-gray-500">({delegationState(d)})</span>
+                  </span>
+                  {d.status === "ACTIVE" && (
+                    <button
+                      type="button"
+                      onClick={() => handleRevoke(d)}
+                      className="text-xs text-red-600 hover:text-red-800 underline"
+                    >
+                      Revoke
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DelegationPanel;
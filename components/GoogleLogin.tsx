@@ -1,5 +1,6 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { AuthenticatedUser } from '../types';
+import { getBackendKind } from '../services/dataBackend';
 
 declare global {
   interface Window {
@@ -66,9 +67,17 @@ const GoogleLogin: React.FC<{
   const buttonRef = useRef<HTMLDivElement | null>(null);
   const [error, setError] = useState<string>('');
   const [ready, setReady] = useState(false);
+  const [localEmail, setLocalEmail] = useState('');
   const clientId = process.env.GOOGLE_CLIENT_ID;
+  // Local backend or the dev Sheets stand-in: no Google project involved.
+  const isLocal = getBackendKind() === 'local' || process.env.SHEETS_STANDIN === 'true';
 
   useEffect(() => {
+    if (isLocal) {
+      // Local backend: no Google project involved, sign in with any directory email.
+      setReady(true);
+      return;
+    }
     if (!clientId) {
       setError('Missing GOOGLE_CLIENT_ID in environment.');
       return;
@@ -104,7 +113,14 @@ const GoogleLogin: React.FC<{
         setReady(true);
       })
       .catch(() => setError('Failed to load Google login.'));
-  }, [clientId, onLogin]);
+  }, [clientId, onLogin, isLocal]);
+
+  const handleLocalLogin = (e: React.FormEvent) => {
+    e.preventDefault();
+    const email = localEmail.trim().toLowerCase();
+    if (!email) return;
+    onLogin({ email, name: email.split('@')[0] });
+  };
 
   return (
     <div className="min-h-screen flex items-center justify-center bg-slate-50">
@@ -113,9 +129,28 @@ const GoogleLogin: React.FC<{
         <p className="text-sm text-slate-600 mb-6">
           Use your Google account to continue.
         </p>
-        <div className="flex justify-center mb-3">
-          <div ref={buttonRef}></div>
-        </div>
+        {isLocal ? (
+          <form onSubmit={handleLocalLogin} className="space-y-3 mb-3">
+            <input
+              type="email"
+              required
+              placeholder="admin@example.com"
+              value={localEmail}
+              onChange={(e) => setLocalEmail(e.target.value)}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+            />
+            <button
+              type="submit"
+              className="w-full bg-slate-900 hover:bg-slate-800 text-white font-medium py-2 rounded-lg transition-colors"
+            >
+              Continue (local data)
+            </button>
+          </form>
+        ) : (
+          <div className="flex justify-center mb-3">
+            <div ref={buttonRef}></div>
+          </div>
+        )}
         {!ready && !error && (
           <p className="text-xs text-slate-500 text-center">Loading Google...</p>
         )}
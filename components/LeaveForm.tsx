@@ -1,11 +1,35 @@
 import React, { useEffect, useState } from 'react';
 import { LeaveRequest, LeaveStatus } from '../types';
 import { saveRequest } from '../services/storageService';
-import { appendLogEntry, updateLogEntry, fetchLookupOptions, fetchEmployeeDirectory, LogSheetRecord } from '../services/sheetService';
-import { EmployeeRecord } from '../types';
+import {
+  appendLogEntry,
+  updateLogEntry,
+  fetchLookupOptions,
+  fetchEmployeeDirectory,
+  fetchEmployeeLogHistory,
+  fetchHolidays,
+  fetchLeaveBalances,
+  fetchLeavePolicies,
+  fetchLogRecords,
+  LogSheetRecord,
+} from '../services/sheetService';
+import { EmployeeRecord, LeaveBalance, LeavePolicyRecord } from '../types';
+import { findBalance, requestDays } from '../services/leaveBalance';
+import { findOverlappingRequest, overlapMessage } from '../services/leaveRules';
+import { alternateUnavailableMessage, findAlternateConflict } from '../services/coverage';
+import { addDays, formatDateRange } from '../services/dateUtils';
+import { PolicyViolation, earliestStart, effectivePolicy, permissionOnlyTypes, policyViolations } from '../services/leavePolicy';
+import { HolidayCalendar, formatWorkingDays, holidaysBetween, toHolidayCalendar } from '../services/workingDays';
+import {
+  formatHours,
+  getPermissionSettings,
+  monthlyPermissionUsage,
+  permissionHours,
+  quotaFor,
+} from '../services/permissionHours';
 
-const PERMISSION_ONLY_LEAVE_TYPES = ['FN Permission', 'AN Permission', 'In Between Permission'];
 const normalize = (v: string) => v.trim().toLowerCase();
+const PERMISSION_SETTINGS = getPermissionSettings();
 
 const LeaveForm: React.FC<{
   onSuccess: () => void;
@@ -21,16 +45,24 @@ const LeaveForm: React.FC<{
     leaveType: initialData?.leaveType || '',
     requestedInTime: initialData?.requestedInTime || '',
     requestedOutTime: initialData?.requestedOutTime || '',
-    startDate: initialData?.dates?.split(' - ')[0] || '',
-    endDate: initialData?.dates?.split(' - ')[1] || '',
+    startDate: initialData?.startDate || '',
+    endDate: initialData?.endDate || '',
     alternateStaff: initialData?.alternateStaff || '',
     reason: initialData?.reason || '',
+    attachmentUrl: initialData?.attachmentUrl || '',
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [permissionTypeOptions, setPermissionTypeOptions] = useState<string[]>([]);
   const [leaveTypeOptions, setLeaveTypeOptions] = useState<string[]>([]);
   const [employees, setEmployees] = useState<EmployeeRecord[]>([]);
+  const [directory, setDirectory] = useState<EmployeeRecord[]>([]);
+  const [history, setHistory] = useState<LogSheetRecord[]>([]);
+  const [teamRecords, setTeamRecords] = useState<LogSheetRecord[]>([]);
   const [lookupError, setLookupError] = useState<string | null>(null);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [balances, setBalances] = useState<LeaveBalance[]>([]);
+  const [holidays, setHolidays] = useState<HolidayCalendar>(new Map());
+  const [policies, setPolicies] = useState<LeavePolicyRecord[]>([]);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     setFormData({ ...formData, [e.target.name]: e.target.value });
@@ -54,13 +86,20 @@ const LeaveForm: React.FC<{
   useEffect(() => {
     const loadData = async () => {
       try {
-        const [{ permissionTypes, leaveTypes }, employeeList] = await Promise.all([
+        const [{ permissionTypes, leaveTypes }, employeeList, holidayList, logRecords, policyRecords] = await Promise.all([
           fetchLookupOptions(),
           fetchEmployeeDirectory(),
+          fetchHolidays(),
+          fetchLogRecords(),
+          fetchLeavePolicies(),
         ]);
 
         setPermissionTypeOptions(permissionTypes);
         setLeaveTypeOptions(leaveTypes);
+        setHolidays(toHolidayCalendar(holidayList));
+        setDirectory(employeeList);
+        setTeamRecords(logRecords);
+        setPolicies(policyRecords);
 
         const currentUserEmail = (initialEmployee?.email || initialData?.employeeEmail || '').toLowerCase();
         setEmployees(employeeList.filter(e => e.role === 'employee' && e.email !== currentUserEmail)); // Filter for employees only and exclude self
@@ -73,6 +112,25 @@ const LeaveForm: React.FC<{
     loadData();
   }, []);
 
+  useEffect(() => {
+    const email = formData.email.trim().toLowerCase();
+    if (!email) {
+      setBalances([]);
+      setHistory([]);
+      return;
+    }
+    let cancelled = false;
+    fetchLeaveBalances(email, { excludeRequestId: initialData?.requestId }).then((next) => {
+      if (!cancelled) setBalances(next);
+    });
+    fetchEmployeeLogHistory(email).then((rows) => {
+      if (!cancelled) setHistory(rows);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [formData.email, initialData?.requestId]);
+
   const isPermission = normalize(formData.permissionType) === 'permission';
   const normalizedLeaveType = normalize(formData.leaveType);
   const showInTimeField =
@@ -84,12 +142,57 @@ const LeaveForm: React.FC<{
     (normalizedLeaveType === normalize('AN Permission') ||
       normalizedLeaveType === normalize('In Between Permission'));
 
+  const balance = isPermission ? undefined : findBalance(balances, formData.leaveType);
+  const daysRequested = requestDays(formData, holidays);
+  const skippedHolidays = holidaysBetween(formData.startDate, formData.endDate || formData.startDate, holidays);
+  const availableAfter = balance ? balance.remaining - balance.pending - daysRequested : 0;
+
+  const hoursRequested = isPermission ? permissionHours(formData, holidays, PERMISSION_SETTINGS) : 0;
+  const permissionMonth = formData.startDate.slice(0, 7);
+  const permissionUsage = monthlyPermissionUsage(history, formData.email, permissionMonth, {
+    excludeRequestId: initialData?.requestId,
+    holidays,
+  });
+  const permissionQuota = quotaFor(
+    directory.find((emp) => emp.email === normalize(formData.email)),
+    PERMISSION_SETTINGS
+  );
+  const quotaLeftAfter = permissionQuota - permissionUsage.approved - permissionUsage.pending - hoursRequested;
+  const exceedsPermissionQuota = hoursRequested > 0 && quotaLeftAfter < 0;
+  const permissionQuotaMessage = `This permission (${formatHours(hoursRequested)}) exceeds your monthly quota of ${formatHours(
+    permissionQuota
+  )} by ${formatHours(-quotaLeftAfter)}.`;
+
+  // Colleagues on overlapping pending or approved leave cannot cover; the webhook refuses them too.
+  const requestedRange = { startDate: formData.startDate, endDate: formData.endDate || formData.startDate };
+  const alternateConflict = (emp: EmployeeRecord) => findAlternateConflict(teamRecords, emp.email, requestedRange);
+  const selectedAlternate = employees.find((emp) => emp.name === formData.alternateStaff);
+  const selectedAlternateConflict = selectedAlternate && alternateConflict(selectedAlternate);
+
+  // Policies sheet rules; the webhook refuses a request that breaks any of them with POLICY_VIOLATION.
+  const permissionOnlyLeaveTypes = permissionOnlyTypes(policies);
+  const policy = effectivePolicy(policies, formData.leaveType);
+  const policyErrors = formData.leaveType
+    ? policyViolations(policies, { ...formData, previousStartDate: initialData?.startDate })
+    : [];
+  const errorsFor = (field: PolicyViolation['field']) =>
+    policyErrors
+      .filter((v) => v.field === field)
+      .map((v) => (
+        <p key={v.rule} className="mt-1 text-sm text-red-600">
+          {v.message}
+        </p>
+      ));
+  // An edit may keep a start date that was accepted when the request was submitted.
+  const earliest = earliestStart(policy);
+  const startMin = initialData?.startDate && initialData.startDate < earliest ? initialData.startDate : earliest;
+
   const filteredLeaveTypeOptions = (() => {
-    const normalizedPermissionOnly = new Set(PERMISSION_ONLY_LEAVE_TYPES.map((t) => normalize(t)));
+    const normalizedPermissionOnly = new Set(permissionOnlyLeaveTypes.map((t) => normalize(t)));
 
     if (isPermission) {
       const fromSheet = leaveTypeOptions.filter((t) => normalizedPermissionOnly.has(normalize(t)));
-      return fromSheet.length ? fromSheet : PERMISSION_ONLY_LEAVE_TYPES;
+      return fromSheet.length ? fromSheet : permissionOnlyLeaveTypes;
     }
 
     return leaveTypeOptions.filter((t) => !normalizedPermissionOnly.has(normalize(t)));
@@ -97,7 +200,7 @@ const LeaveForm: React.FC<{
 
   useEffect(() => {
     // When switching away from "permission", clear requested times and disallow permission-only leave types.
-    const normalizedPermissionOnly = new Set(PERMISSION_ONLY_LEAVE_TYPES.map((t) => normalize(t)));
+    const normalizedPermissionOnly = new Set(permissionOnlyLeaveTypes.map((t) => normalize(t)));
     setFormData((prev) => {
       const next = { ...prev };
       if (normalize(prev.permissionType) !== 'permission') {
@@ -138,6 +241,7 @@ const LeaveForm: React.FC<{
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsSubmitting(true);
+    setSubmitError(null);
 
     const newRequest: LeaveRequest = {
       id: initialData?.requestId || Math.random().toString(36).substr(2, 9),
@@ -157,49 +261,63 @@ const LeaveForm: React.FC<{
       timestamp: Date.now(),
     };
 
+    const logEntry = {
+      type: 'request' as const,
+      status: LeaveStatus.PENDING,
+      employeeName: newRequest.employeeName,
+      employeeEmail: newRequest.employeeEmail,
+      employeeId: newRequest.employeeId,
+      permissionType: newRequest.permissionType,
+      leaveType: newRequest.leaveType,
+      requestedInTime: newRequest.requestedInTime,
+      requestedOutTime: newRequest.requestedOutTime,
+      startDate: newRequest.startDate,
+      endDate: newRequest.endDate,
+      alternateStaff: newRequest.alternateStaff,
+      alternateEmail: selectedAlternate?.email || '',
+      reason: newRequest.reason,
+      attachmentUrl: formData.attachmentUrl.trim(),
+      timestamp: newRequest.timestamp,
+    };
+
     try {
-      saveRequest(newRequest);
-      if (initialData) {
-        await updateLogEntry({
-          requestId: newRequest.id,
-          type: 'request',
-          status: LeaveStatus.PENDING,
-          employeeName: newRequest.employeeName,
-          employeeEmail: newRequest.employeeEmail,
-          employeeId: newRequest.employeeId,
-          permissionType: newRequest.permissionType,
-          leaveType: newRequest.leaveType,
-          requestedInTime: newRequest.requestedInTime,
-          requestedOutTime: newRequest.requestedOutTime,
-          startDate: newRequest.startDate,
-          endDate: newRequest.endDate,
-          alternateStaff: newRequest.alternateStaff,
-          reason: newRequest.reason,
-          timestamp: newRequest.timestamp,
-        });
-      } else {
-        await appendLogEntry({
-          type: 'request',
-          status: LeaveStatus.PENDING,
-          employeeName: newRequest.employeeName,
-          employeeEmail: newRequest.employeeEmail,
-          employeeId: newRequest.employeeId,
-          permissionType: newRequest.permissionType,
-          leaveType: newRequest.leaveType,
-          requestedInTime: newRequest.requestedInTime,
-          requestedOutTime: newRequest.requestedOutTime,
-          startDate: newRequest.startDate,
-          endDate: newRequest.endDate,
-          alternateStaff: newRequest.alternateStaff,
-          reason: newRequest.reason,
-          timestamp: newRequest.timestamp,
-        });
+      if (policyErrors.length) {
+        setSubmitError(policyErrors.map((v) => v.message).join(' '));
+        return;
       }
-    } catch(err) {
-      console.error(err);
-      alert("Failed to submit request to Google Sheets.");
-    } finally {
-      setIsSubmitting(false);
+
+      if (exceedsPermissionQuota && PERMISSION_SETTINGS.enforcement === 'block') {
+        setSubmitError(permissionQuotaMessage);
+        return;
+      }
+
+      if (selectedAlternate && selectedAlternateConflict) {
+        setSubmitError(alternateUnavailableMessage(selectedAlternate.name, selectedAlternateConflict));
+        return;
+      }
+
+      // The webhook rejects overlaps too; checking here gives immediate feedback.
+      const conflict = findOverlappingRequest(await fetchEmployeeLogHistory(logEntry.employeeEmail), {
+        requestId: initialData?.requestId,
+        employeeEmail: logEntry.employeeEmail,
+        startDate: logEntry.startDate,
+        endDate: logEntry.endDate,
+      });
+      if (conflict) {
+        setSubmitError(overlapMessage(conflict));
+        return;
+      }
+
+      const result = initialData
+        ? await updateLogEntry({ ...logEntry, requestId: newRequest.id })
+        : await appendLogEntry(logEntry);
+
+      if (!result.ok) {
+        setSubmitError(result.message || 'The server did not accept the request.');
+        return;
+      }
+
+      saveRequest({ ...newRequest, id: result.requestId || newRequest.id });
       setFormData({
         name: '',
         email: '',
@@ -210,10 +328,23 @@ const LeaveForm: React.FC<{
         requestedOutTime: '',
         startDate: '',
         endDate: '',
+        alternateStaff: '',
         reason: '',
+        attachmentUrl: '',
       });
-      alert(initialData ? "Request Updated!" : "Request Submitted!");
+      alert(
+        result.queued
+          ? result.message || 'Saved offline.'
+          : initialData
+          ? 'Request Updated!'
+          : `Request Submitted!${result.requestId ? ` Reference: ${result.requestId}` : ''}`
+      );
       onSuccess();
+    } catch (err) {
+      console.error(err);
+      setSubmitError('Failed to submit request to Google Sheets.');
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
@@ -303,6 +434,7 @@ const LeaveForm: React.FC<{
                 </option>
               ))}
             </select>
+            {errorsFor('leaveType')}
           </div>
         </div>
 
@@ -388,11 +520,12 @@ const LeaveForm: React.FC<{
               type="date"
               name="startDate"
               required
-              min={new Date().toLocaleDateString('en-CA')}
+              min={startMin}
               className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent outline-none transition"
               value={formData.startDate}
               onChange={handleInputChange}
             />
+            {errorsFor('startDate')}
           </div>
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">End Date</label>
@@ -400,14 +533,79 @@ const LeaveForm: React.FC<{
               type="date"
               name="endDate"
               required
-              min={formData.startDate || new Date().toLocaleDateString('en-CA')}
+              min={formData.startDate || startMin}
+              max={
+                formData.startDate && policy.maxConsecutiveDays !== null
+                  ? addDays(formData.startDate, policy.maxConsecutiveDays - 1)
+                  : undefined
+              }
               className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent outline-none transition"
               value={formData.endDate}
               onChange={handleInputChange}
             />
+            {errorsFor('endDate')}
           </div>
         </div>
 
+        {formData.startDate && formData.endDate && (
+          <p className="-mt-3 text-sm text-gray-600">
+            {formatWorkingDays(daysRequested)}
+            {skippedHolidays.length > 0 &&
+              ` (excludes ${skippedHolidays.map((h) => h.name || h.date).join(', ')})`}
+          </p>
+        )}
+
+        {balance && (
+          <div
+            className={`rounded-lg border px-4 py-3 text-sm ${
+              availableAfter < 0
+                ? 'border-amber-200 bg-amber-50 text-amber-800'
+                : 'border-emerald-100 bg-emerald-50 text-emerald-800'
+            }`}
+          >
+            <p className="font-semibold">
+              {balance.leaveType}: {balance.remaining} day{balance.remaining === 1 ? '' : 's'} remaining
+              {balance.pending > 0 && ` (${balance.pending} pending approval)`}
+            </p>
+            <p className="text-xs mt-1 opacity-80">
+              Opening {balance.opening} + accrued {balance.accrued} − used {balance.used}
+            </p>
+            {daysRequested > 0 && (
+              <p className="mt-1">
+                {availableAfter < 0
+                  ? `This request (${formatWorkingDays(daysRequested)}) exceeds the available balance by ${-availableAfter}.`
+                  : `After this request (${formatWorkingDays(daysRequested)}): ${availableAfter} left.`}
+              </p>
+            )}
+          </div>
+        )}
+
+        {isPermission && permissionMonth && hoursRequested > 0 && (
+          <div
+            className={`rounded-lg border px-4 py-3 text-sm ${
+              exceedsPermissionQuota
+                ? PERMISSION_SETTINGS.enforcement === 'block'
+                  ? 'border-red-200 bg-red-50 text-red-700'
+                  : 'border-amber-200 bg-amber-50 text-amber-800'
+                : 'border-emerald-100 bg-emerald-50 text-emerald-800'
+            }`}
+          >
+            <p className="font-semibold">
+              Permission: {formatHours(hoursRequested)}
+            </p>
+            <p className="text-xs mt-1 opacity-80">
+              This month: {formatHours(permissionUsage.approved)} approved
+              {permissionUsage.pending > 0 && `, ${formatHours(permissionUsage.pending)} pending`} of{' '}
+              {formatHours(permissionQuota)}
+            </p>
+            <p className="mt-1">
+              {exceedsPermissionQuota
+                ? permissionQuotaMessage
+                : `After this request: ${formatHours(quotaLeftAfter)} left this month.`}
+            </p>
+          </div>
+        )}
+
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-1">Alternate Staff</label>
           <select
@@ -418,12 +616,21 @@ const LeaveForm: React.FC<{
             onChange={handleSelectChange}
           >
             <option value="">Select Alternate Staff</option>
-            {employees.map((emp) => (
-              <option key={emp.employeeId} value={emp.name}>
-                {emp.name}
-              </option>
-            ))}
+            {employees.map((emp) => {
+              const conflict = alternateConflict(emp);
+              return (
+                <option key={emp.employeeId} value={emp.name} disabled={!!conflict}>
+                  {emp.name}
+                  {conflict && ` (on leave ${formatDateRange(conflict.startDate, conflict.endDate)})`}
+                </option>
+              );
+            })}
           </select>
+          {selectedAlternate && selectedAlternateConflict && (
+            <p className="mt-1 text-sm text-red-600">
+              {alternateUnavailableMessage(selectedAlternate.name, selectedAlternateConflict)}
+            </p>
+          )}
         </div>
 
         <div>
@@ -439,6 +646,28 @@ const LeaveForm: React.FC<{
           />
         </div>
 
+        {(policy.requiresAttachment || formData.attachmentUrl) && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Supporting Document</label>
+            <input
+              type="url"
+              name="attachmentUrl"
+              required={policy.requiresAttachment}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent outline-none transition"
+              placeholder="Link to the document, e.g. a medical certificate in Drive"
+              value={formData.attachmentUrl}
+              onChange={handleInputChange}
+            />
+            {errorsFor('attachmentUrl')}
+          </div>
+        )}
+
+        {submitError && (
+          <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+            {submitError}
+          </div>
+        )}
+
         <button
           type="submit"
           disabled={isSubmitting}
@@ -1,30 +1,100 @@
 import React, { useEffect, useMemo, useState } from "react";
 import {
   fetchEmployeeLogHistory,
+  fetchHolidays,
+  fetchRevisions,
   deleteLogEntry,
+  requestCancellation,
+  subscribeDataRefresh,
   LogSheetRecord,
 } from "../services/sheetService";
 import LeaveForm from "./LeaveForm";
+import RevisionHistory from "./RevisionHistory";
+import SchemaIssuesBanner from "./SchemaIssuesBanner";
+import { getSchemaIssues } from "../services/sheetSchema";
+import {
+  countWorkingDays,
+  formatWorkingDays,
+  HolidayCalendar,
+  toHolidayCalendar,
+} from "../services/workingDays";
+import { currentStepIndex } from "../services/approvalChain";
+import { cancellationBlocker } from "../services/leaveRules";
+import { canTransition } from "../services/leaveStatus";
+import { revisionCounts } from "../services/revisions";
+import { coverageLabel } from "../services/coverage";
+
+const statusBadgeClass = (status: string) => {
+  switch (status.toUpperCase()) {
+    case "APPROVED":
+      return "bg-green-100 text-green-800";
+    case "REJECTED":
+      return "bg-red-100 text-red-800";
+    case "NEEDS_INFO":
+      return "bg-blue-100 text-blue-800";
+    case "CANCEL_REQUESTED":
+      return "bg-orange-100 text-orange-800";
+    case "CANCELLED":
+    case "WITHDRAWN":
+      return "bg-gray-100 text-gray-600";
+    default:
+      return "bg-yellow-100 text-yellow-800";
+  }
+};
 
 const LeaveHistory: React.FC<{ employeeEmail: string }> = ({
   employeeEmail,
 }) => {
   const [rows, setRows] = useState<LogSheetRecord[]>([]);
+  const [holidays, setHolidays] = useState<HolidayCalendar>(new Map());
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [refreshSeq, setRefreshSeq] = useState(0);
   const [editingRecord, setEditingRecord] = useState<LogSheetRecord | null>(null);
+  const [revisionCount, setRevisionCount] = useState<Map<string, number>>(new Map());
+  const [changesFor, setChangesFor] = useState<string | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
 
+  // Withdrawing only applies to undecided requests; approved leave is cancelled instead.
   const handleDelete = async (requestId: string) => {
-    if (!confirm("Are you sure you want to delete this leave request?")) return;
+    if (!confirm("Withdraw this leave request?")) return;
+    setIsDeleting(true);
+    try {
+      const result = await deleteLogEntry(requestId, employeeEmail);
+      if (!result.ok) {
+        alert(`Failed to withdraw the request: ${result.message || result.code}`);
+        return;
+      }
+      if (result.queued) alert(result.message);
+      setRefreshSeq(s => s + 1);
+    } catch (e) {
+      console.error(e);
+      alert("Failed to withdraw the request.");
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  // Approved leave goes back to the approver; it stays approved until they accept the cancellation.
+  const handleRequestCancellation = async (requestId: string) => {
+    const reason = window.prompt("Why do you need to cancel this approved leave?");
+    if (reason === null) return;
+    if (!reason.trim()) {
+      alert("Give a reason so your approver can decide.");
+      return;
+    }
     setIsDeleting(true);
     try {
-      await deleteLogEntry(requestId);
+      const result = await requestCancellation(requestId, reason.trim(), employeeEmail);
+      if (!result.ok) {
+        alert(`Failed to request the cancellation: ${result.message || result.code}`);
+        return;
+      }
+      alert(result.queued ? result.message : "Cancellation requested. Your approver has been notified.");
       setRefreshSeq(s => s + 1);
     } catch (e) {
       console.error(e);
-      alert("Failed to delete the request.");
+      alert("Failed to request the cancellation.");
     } finally {
       setIsDeleting(false);
     }
@@ -36,8 +106,16 @@ const LeaveHistory: React.FC<{ employeeEmail: string }> = ({
       setIsLoading(true);
       setError(null);
       try {
-        const data = await fetchEmployeeLogHistory(employeeEmail);
-        if (!cancelled) setRows(data);
+        const [data, holidayList, revisions] = await Promise.all([
+          fetchEmployeeLogHistory(employeeEmail),
+          fetchHolidays(),
+          fetchRevisions(),
+        ]);
+        if (!cancelled) {
+          setRows(data);
+          setHolidays(toHolidayCalendar(holidayList));
+          setRevisionCount(revisionCounts(revisions));
+        }
       } catch (e) {
         console.error(e);
         if (!cancelled)
@@ -52,6 +130,22 @@ const LeaveHistory: React.FC<{ employeeEmail: string }> = ({
     };
   }, [employeeEmail, refreshSeq]);
 
+  // Cached rows render first; reload quietly when the background refresh finds changes.
+  useEffect(
+    () =>
+      subscribeDataRefresh("logs", () => {
+        fetchEmployeeLogHistory(employeeEmail).then(setRows);
+      }),
+    [employeeEmail]
+  );
+  useEffect(
+    () =>
+      subscribeDataRefresh("revisions", () => {
+        fetchRevisions().then((revisions) => setRevisionCount(revisionCounts(revisions)));
+      }),
+    []
+  );
+
   const columns = useMemo(
     () => [
       { key: "timestamp", label: "Timestamp" },
@@ -60,7 +154,9 @@ const LeaveHistory: React.FC<{ employeeEmail: string }> = ({
       { key: "leaveType", label: "Leave Type" },
       { key: "requestedInTime", label: "InTime" },
       { key: "requestedOutTime", label: "OutTime" },
-      { key: "dates", label: "Dates" },
+      { key: "startDate", label: "Start Date" },
+      { key: "endDate", label: "End Date" },
+      { key: "duration", label: "Duration" },
       { key: "alternateStaff", label: "Alternate Staff" },
       { key: "reason", label: "Reason" },
       { key: "managerComment", label: "Manager Comment" },
@@ -96,6 +192,12 @@ const LeaveHistory: React.FC<{ employeeEmail: string }> = ({
         </div>
       )}
 
+      {!isLoading && getSchemaIssues("Logs").length > 0 && (
+        <div className="px-6 pt-4">
+          <SchemaIssuesBanner sheet="Logs" />
+        </div>
+      )}
+
       {isLoading ? (
         <div className="p-10 text-center text-slate-500">Loading history…</div>
       ) : rows.length === 0 ? (
@@ -128,16 +230,25 @@ const LeaveHistory: React.FC<{ employeeEmail: string }> = ({
                   </td>
                   <td className="px-4 py-2 whitespace-nowrap">
                     <span
-                      className={`px-2 py-0.5 rounded-full text-xs font-medium ${
-                        r.status?.toUpperCase() === "APPROVED"
-                          ? "bg-green-100 text-green-800"
-                          : r.status?.toUpperCase() === "REJECTED"
-                          ? "bg-red-100 text-red-800"
-                          : "bg-yellow-100 text-yellow-800"
-                      }`}
+                      className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusBadgeClass(
+                        r.status || ""
+                      )}`}
+                      title={
+                        r.cancellationReason
+                          ? `Cancellation reason: ${r.cancellationReason}`
+                          : undefined
+                      }
                     >
                       {r.status || "-"}
                     </span>
+                    {r.status === "PENDING" &&
+                      r.approvalSteps.length > 1 &&
+                      currentStepIndex(r.approvalSteps) !== -1 && (
+                        <span className="ml-1 text-xs text-gray-500">
+                          step {currentStepIndex(r.approvalSteps) + 1} of{" "}
+                          {r.approvalSteps.length}
+                        </span>
+                      )}
                   </td>
                   <td className="px-4 py-2 whitespace-nowrap">
                     {r.permissionType || "-"}
@@ -152,10 +263,28 @@ const LeaveHistory: React.FC<{ employeeEmail: string }> = ({
                     {r.requestedOutTime || "-"}
                   </td>
                   <td className="px-4 py-2 whitespace-nowrap">
-                    {r.dates || "-"}
+                    {r.startDate || "-"}
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap">
+                    {r.endDate || "-"}
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap">
+                    {r.startDate
+                      ? formatWorkingDays(
+                          countWorkingDays(r.startDate, r.endDate, holidays)
+                        )
+                      : "-"}
                   </td>
                   <td className="px-4 py-2 whitespace-nowrap">
                     {r.alternateStaff || "-"}
+                    {r.coverageStatus && (
+                      <span
+                        className="ml-1 text-xs text-gray-500"
+                        title={r.coverageNote || undefined}
+                      >
+                        ({coverageLabel(r.coverageStatus)})
+                      </span>
+                    )}
                   </td>
                   <td className="px-4 py-2 min-w-[260px]">
                     <span title={r.reason || ""}>{r.reason || "-"}</span>
@@ -167,22 +296,39 @@ const LeaveHistory: React.FC<{ employeeEmail: string }> = ({
                     {r.managerAction || "-"}
                   </td>
                   <td className="px-4 py-2 whitespace-nowrap space-x-2">
-                    {(r.status?.toUpperCase() === "PENDING" || !r.status) && (
-                      <>
-                        <button
-                          onClick={() => setEditingRecord(r)}
-                          className="text-emerald-600 hover:text-emerald-800 text-xs font-semibold mr-2"
-                        >
-                          Edit
-                        </button>
-                        <button
-                          onClick={() => handleDelete(r.requestId)}
-                          disabled={isDeleting}
-                          className="text-red-600 hover:text-red-800 text-xs font-semibold disabled:opacity-50"
-                        >
-                          Delete
-                        </button>
-                      </>
+                    {canTransition(r.status, "edit") && (
+                      <button
+                        onClick={() => setEditingRecord(r)}
+                        className="text-emerald-600 hover:text-emerald-800 text-xs font-semibold mr-2"
+                      >
+                        {r.status === "NEEDS_INFO" ? "Add info" : "Edit"}
+                      </button>
+                    )}
+                    {canTransition(r.status, "withdraw") && (
+                      <button
+                        onClick={() => handleDelete(r.requestId)}
+                        disabled={isDeleting}
+                        className="text-red-600 hover:text-red-800 text-xs font-semibold disabled:opacity-50"
+                      >
+                        Withdraw
+                      </button>
+                    )}
+                    {!cancellationBlocker(r) && (
+                      <button
+                        onClick={() => handleRequestCancellation(r.requestId)}
+                        disabled={isDeleting}
+                        className="text-orange-600 hover:text-orange-800 text-xs font-semibold disabled:opacity-50"
+                      >
+                        Request cancellation
+                      </button>
+                    )}
+                    {revisionCount.has(r.requestId) && (
+                      <button
+                        onClick={() => setChangesFor(r.requestId)}
+                        className="text-slate-600 hover:text-slate-900 text-xs font-semibold"
+                      >
+                        Changes ({revisionCount.get(r.requestId)})
+                      </button>
                     )}
                   </td>
                 </tr>
@@ -191,6 +337,9 @@ const LeaveHistory: React.FC<{ employeeEmail: string }> = ({
           </table>
         </div>
       )}
+      {changesFor && (
+        <RevisionHistory requestId={changesFor} onClose={() => setChangesFor(null)} />
+      )}
       {editingRecord && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
           <div className="bg-white rounded-xl shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
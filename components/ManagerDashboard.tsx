@@ -1,20 +1,108 @@
 import React, { useEffect, useMemo, useState } from "react";
-import { LeaveStatus } from "../types";
 import {
+  CommentTemplateRecord,
+  DecisionParams,
+  DelegationRecord,
+  EmployeeRecord,
+  EntitlementRecord,
+  LeaveStatus,
+  UserProfile,
+  WriteResult,
+} from "../types";
+import {
+  fetchCommentTemplates,
+  fetchDelegations,
+  fetchEmployeeDirectory,
+  fetchEntitlements,
+  fetchHolidays,
   fetchLogRecords,
+  fetchRevisions,
   LogSheetRecord,
   submitDecisionToLogs,
+  submitDecisions,
+  subscribeDataRefresh,
 } from "../services/sheetService";
-import * as XLSX from "xlsx";
+import SchemaIssuesBanner from "./SchemaIssuesBanner";
+import DelegationPanel from "./DelegationPanel";
+import RevisionHistory from "./RevisionHistory";
+import DecisionHistory from "./DecisionHistory";
+import DecisionDialog, { DecisionInput } from "./DecisionDialog";
+import { coverageLabel } from "../services/coverage";
+import { formatDateRange, todayIso } from "../services/dateUtils";
+import {
+  computeLeaveBalances,
+  findBalance,
+  requestDays,
+} from "../services/leaveBalance";
+import {
+  formatWorkingDays,
+  HolidayCalendar,
+  toHolidayCalendar,
+} from "../services/workingDays";
+import {
+  formatHours,
+  monthlyPermissionUsage,
+  permissionHours,
+  quotaFor,
+} from "../services/permissionHours";
+import {
+  directReportEmails,
+  hasReportingLines,
+} from "../services/reportingLines";
+import {
+  approverAddresses,
+  awaitingApprovers,
+  cancellationApprovers,
+  currentStep,
+  describeApprover,
+  isAwaiting,
+} from "../services/approvalChain";
+import { decisionAuthority, delegatorsFor } from "../services/delegation";
+import { revisionCounts } from "../services/revisions";
+import { missingCommentMessage } from "../services/leaveStatus";
+import { isAttachmentLink } from "../services/leavePolicy";
+import {
+  formatWaiting,
+  getSlaSettings,
+  slaStatus,
+  startsInLabel,
+} from "../services/sla";
+
+type Scope = "team" | "all";
+type Queue = "awaiting" | "delegated" | "pending";
 
-const ManagerDashboard: React.FC<{ focusRequestId?: string }> = ({
-  focusRequestId,
-}) => {
+// New requests and cancellations of approved leave both wait on a decision.
+const AWAITING_DECISION = ["PENDING", "CANCEL_REQUESTED"];
+const isCancellation = (r: LogSheetRecord) =>
+  (r.status || "").toUpperCase() === "CANCEL_REQUESTED";
+const slaSettings = getSlaSettings();
+
+const ManagerDashboard: React.FC<{
+  focusRequestId?: string;
+  viewer?: UserProfile;
+}> = ({ focusRequestId, viewer }) => {
   const [records, setRecords] = useState<LogSheetRecord[]>([]);
+  const [entitlements, setEntitlements] = useState<EntitlementRecord[]>([]);
+  const [holidays, setHolidays] = useState<HolidayCalendar>(new Map());
+  const [directory, setDirectory] = useState<EmployeeRecord[]>([]);
+  const [delegations, setDelegations] = useState<DelegationRecord[]>([]);
+  const [revisionCount, setRevisionCount] = useState<Map<string, number>>(new Map());
+  const [changesFor, setChangesFor] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [processingId, setProcessingId] = useState<string | null>(null);
   const [refreshSeq, setRefreshSeq] = useState(0);
+  const [scope, setScope] = useState<Scope>("team");
+  const [queue, setQueue] = useState<Queue>(viewer ? "awaiting" : "pending");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [bulkComment, setBulkComment] = useState("");
+  const [bulkResults, setBulkResults] = useState<WriteResult[] | null>(null);
+  const [templates, setTemplates] = useState<CommentTemplateRecord[]>([]);
+  const [deciding, setDeciding] = useState<{
+    request: LogSheetRecord;
+    status: DecisionParams["status"];
+    cancellation: boolean;
+  } | null>(null);
 
   useEffect(() => {
     let cancelled = false;
@@ -22,8 +110,23 @@ const ManagerDashboard: React.FC<{ focusRequestId?: string }> = ({
       setIsLoading(true);
       setError(null);
       try {
-        const rows = await fetchLogRecords();
-        if (!cancelled) setRecords(rows);
+        const [rows, ledger, holidayList, employees, delegationList, revisions] =
+          await Promise.all([
+            fetchLogRecords(),
+            fetchEntitlements(),
+            fetchHolidays(),
+            fetchEmployeeDirectory(),
+            fetchDelegations(),
+            fetchRevisions(),
+          ]);
+        if (!cancelled) {
+          setRecords(rows);
+          setEntitlements(ledger);
+          setHolidays(toHolidayCalendar(holidayList));
+          setDirectory(employees);
+          setDelegations(delegationList);
+          setRevisionCount(revisionCounts(revisions));
+        }
       } catch (e) {
         console.error(e);
         if (!cancelled)
@@ -38,89 +141,265 @@ const ManagerDashboard: React.FC<{ focusRequestId?: string }> = ({
     };
   }, [refreshSeq]);
 
+  // Cached rows render first; reload quietly when the background refresh finds changes.
+  useEffect(
+    () =>
+      subscribeDataRefresh("logs", () => {
+        fetchLogRecords().then(setRecords);
+      }),
+    []
+  );
+  useEffect(
+    () =>
+      subscribeDataRefresh("delegations", () => {
+        fetchDelegations().then(setDelegations);
+      }),
+    []
+  );
+  const viewerEmail = viewer?.email || "";
+  useEffect(() => {
+    if (viewerEmail) fetchCommentTemplates(viewerEmail).then(setTemplates);
+    return subscribeDataRefresh("templates", () => {
+      if (viewerEmail) fetchCommentTemplates(viewerEmail).then(setTemplates);
+    });
+  }, [viewerEmail]);
+  useEffect(
+    () =>
+      subscribeDataRefresh("revisions", () => {
+        fetchRevisions().then((revisions) => setRevisionCount(revisionCounts(revisions)));
+      }),
+    []
+  );
+
+  // Managers see their direct reports; admins can widen the view to everyone. Without a
+  // REPORTING_MANAGER column in the directory there are no teams, so everyone sees everything.
+  const isAdmin = viewer?.role === "admin";
+  const scoped = !!viewer && hasReportingLines(directory);
+  const scopedRecords = useMemo(() => {
+    if (!viewer || !scoped || (isAdmin && scope === "all")) return records;
+    const team = directReportEmails(directory, viewer.email);
+    return records.filter((r) => team.has(r.employeeEmail));
+  }, [records, directory, viewer, scoped, isAdmin, scope]);
+
   const pendingRequests = useMemo(
     () =>
-      records.filter(
+      scopedRecords.filter(
         (r) =>
-          (r.status || "").toUpperCase() === "PENDING" &&
+          AWAITING_DECISION.includes((r.status || "").toUpperCase()) &&
           (r.type || "").toLowerCase() === "request"
       ),
-    [records]
+    [scopedRecords]
   );
-  const historyRequests = useMemo(
-    () => records.filter((r) => (r.status || "").toUpperCase() !== "PENDING"),
-    [records]
+  // Requests whose current approval step names the viewer, whoever the employee reports to.
+  const awaitingRequests = useMemo(
+    () =>
+      viewer
+        ? records.filter(
+            (r) =>
+              (r.type || "").toLowerCase() === "request" &&
+              isAwaiting(r, viewer, directory)
+          )
+        : [],
+    [records, directory, viewer]
+  );
+  // Requests waiting on someone who has delegated their approvals to the viewer.
+  const delegators = useMemo(
+    () => (viewer ? delegatorsFor(delegations, viewer.email) : new Set<string>()),
+    [delegations, viewer]
+  );
+  const delegatorOf = (req: LogSheetRecord) =>
+    awaitingApprovers(req, directory).find((a) => delegators.has(a));
+  const delegatedRequests = useMemo(
+    () =>
+      viewer && delegators.size
+        ? records.filter(
+            (r) =>
+              (r.type || "").toLowerCase() === "request" &&
+              !isAwaiting(r, viewer, directory) &&
+              awaitingApprovers(r, directory).some((a) => delegators.has(a))
+          )
+        : [],
+    [records, directory, viewer, delegators]
   );
+  const visibleRequests =
+    queue === "awaiting"
+      ? awaitingRequests
+      : queue === "delegated"
+      ? delegatedRequests
+      : pendingRequests;
 
-  const handleAction = async (requestId: string, status: LeaveStatus) => {
-    setProcessingId(requestId);
-    const comment = prompt(
-      status === LeaveStatus.APPROVED
-        ? "Optional approval message:"
-        : "Reason for rejection:"
-    );
-    if (comment === null) {
-      setProcessingId(null);
-      return;
+  const canDecide = (req: LogSheetRecord) => {
+    if (viewer && isCancellation(req)) {
+      return decisionAuthority(
+        cancellationApprovers(req, directory),
+        viewer,
+        req.employeeEmail,
+        delegations
+      ).allowed;
     }
+    const step = currentStep(req);
+    if (!viewer) return true;
+    if (!step) return viewer.email.trim().toLowerCase() !== req.employeeEmail.trim().toLowerCase();
+    return decisionAuthority(
+      approverAddresses(step.approver, directory),
+      viewer,
+      req.employeeEmail,
+      delegations
+    ).allowed;
+  };
 
-    await submitDecisionToLogs({
-      requestId,
-      status: status === LeaveStatus.APPROVED ? "APPROVED" : "REJECTED",
-      managerComment: comment || "",
+  // Cancellations need a look at the reason, so only new requests can be decided in bulk.
+  const isSelectable = (req: LogSheetRecord) => !isCancellation(req) && canDecide(req);
+  const selectableRequests = visibleRequests.filter(isSelectable);
+  const selectedRequests = selectableRequests.filter((r) => selected.has(r.requestId));
+  const toggleSelected = (requestId: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(requestId)) next.add(requestId);
+      return next;
     });
+  const toggleAll = () =>
+    setSelected(
+      selectedRequests.length === selectableRequests.length
+        ? new Set()
+        : new Set(selectableRequests.map((r) => r.requestId))
+    );
 
+  // Balance for the request's leave type, not counting the request itself.
+  const balanceFor = (req: LogSheetRecord) => {
+    const balance = findBalance(
+      computeLeaveBalances(entitlements, records, req.employeeEmail, {
+        excludeRequestId: req.requestId,
+        holidays,
+      }),
+      req.leaveType
+    );
+    if (!balance) return null;
+    const days = requestDays(req, holidays);
+    return { ...balance, days, after: balance.remaining - balance.pending - days };
+  };
+
+  // Month-to-date permission hours against the employee's quota, plus this request's hours if it is a permission.
+  const permissionUsageFor = (req: LogSheetRecord) => {
+    const month = todayIso().slice(0, 7);
+    const usage = monthlyPermissionUsage(records, req.employeeEmail, month, {
+      excludeRequestId: req.requestId,
+      holidays,
+    });
+    const quota = quotaFor(
+      directory.find((emp) => emp.email === req.employeeEmail)
+    );
+    const hours = permissionHours(req, holidays);
+    return {
+      ...usage,
+      quota,
+      hours,
+      over:
+        hours > 0 &&
+        req.startDate.startsWith(month) &&
+        usage.approved + usage.pending + hours > quota,
+    };
+  };
+
+  const historyRequests = useMemo(
+    () =>
+      scopedRecords.filter(
+        (r) => !AWAITING_DECISION.includes((r.status || "").toUpperCase())
+      ),
+    [scopedRecords]
+  );
+
+  // For a cancellation, APPROVED accepts it (the leave becomes CANCELLED) and REJECTED keeps the leave.
+  const handleAction = (
+    request: LogSheetRecord,
+    status: LeaveStatus,
+    cancellation = false
+  ) =>
+    setDeciding({
+      request,
+      status:
+        status === LeaveStatus.APPROVED
+          ? "APPROVED"
+          : status === LeaveStatus.NEEDS_INFO
+          ? "NEEDS_INFO"
+          : "REJECTED",
+      cancellation,
+    });
+
+  // Called by the decision dialog; a returned message keeps the dialog open with the error shown.
+  const handleDecision = async ({ comment, alternateNote }: DecisionInput) => {
+    if (!deciding) return null;
+    const { request, status } = deciding;
+    setProcessingId(request.requestId);
+    let result: WriteResult;
+    try {
+      result = await submitDecisionToLogs({
+        requestId: request.requestId,
+        status,
+        managerComment: comment,
+        approverEmail: viewer?.email,
+        alternateNote,
+      });
+    } catch (err) {
+      console.error(err);
+      return "Decision was not saved. Try again.";
+    } finally {
+      setProcessingId(null);
+    }
+    if (!result.ok) {
+      return `Decision was not saved: ${result.message || result.code}`;
+    }
+    if (result.queued) alert(result.message);
+    setDeciding(null);
     // Refresh list from sheet
     setRefreshSeq((v) => v + 1);
-    setProcessingId(null);
+    return null;
   };
 
-  const handleDownloadLogs = () => {
-    // Export whatever is currently loaded from the Logs sheet.
-    const header = [
-      "Timestamp",
-      "Request ID",
-      "Type",
-      "Status",
-      "Employee Name",
-      "Employee Email",
-      "Employee ID",
-      "Dates",
-      "Reason",
-      "Manager Comment",
-      "Manager Action",
-      "Permission Type",
-      "Leave Type",
-      "Requested InTime",
-      "Requested OutTime",
-    ];
-
-    const rows = records.map((r) => [
-      r.timestamp || "",
-      r.requestId || "",
-      r.type || "",
-      r.status || "",
-      r.employeeName || "",
-      r.employeeEmail || "",
-      r.employeeId || "",
-      r.dates || "",
-      r.reason || "",
-      r.managerComment || "",
-      r.managerAction || "",
-      r.permissionType || "",
-      r.leaveType || "",
-      r.requestedInTime || "",
-      r.requestedOutTime || "",
-    ]);
-
-    const ws = XLSX.utils.aoa_to_sheet([header, ...rows]);
-    const wb = XLSX.utils.book_new();
-    XLSX.utils.book_append_sheet(wb, ws, "Logs");
-
-    const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, "-");
-    XLSX.writeFile(wb, `leave-logs-${stamp}.xlsx`);
+  // One webhook call for the whole selection; each request still gets its own result.
+  const handleBulkAction = async (status: "APPROVED" | "REJECTED") => {
+    const requestIds = selectedRequests.map((r) => r.requestId);
+    if (!requestIds.length) return;
+    const missingComment = missingCommentMessage(status, bulkComment);
+    if (missingComment) {
+      alert(missingComment);
+      return;
+    }
+    const verb = status === "APPROVED" ? "Approve" : "Deny";
+    if (!window.confirm(`${verb} ${requestIds.length} selected request(s)?`)) return;
+    setProcessingId("bulk");
+    setBulkResults(null);
+    try {
+      const result = await submitDecisions({
+        requestIds,
+        status,
+        managerComment: bulkComment.trim(),
+        approverEmail: viewer?.email,
+      });
+      if (result.queued) {
+        alert(result.message);
+      } else if (result.results) {
+        setBulkResults(result.results);
+      } else if (!result.ok) {
+        alert(`Decisions were not saved: ${result.message || result.code}`);
+      }
+      if (result.ok && !result.results?.some((r) => !r.ok)) setBulkComment("");
+      // Keep only the requests that were refused selected, so they can be retried or decided one by one.
+      setSelected(
+        new Set((result.results || []).filter((r) => !r.ok && r.requestId).map((r) => r.requestId!))
+      );
+      setRefreshSeq((v) => v + 1);
+    } catch (err) {
+      console.error(err);
+      alert("Decisions were not saved. Try again.");
+    } finally {
+      setProcessingId(null);
+    }
   };
 
+  const employeeNameFor = (requestId?: string) =>
+    records.find((r) => r.requestId === requestId)?.employeeName || "";
+
   return (
     <div className="max-w-4xl mx-auto">
       <div className="mb-8">
@@ -129,15 +408,16 @@ const ManagerDashboard: React.FC<{ focusRequestId?: string }> = ({
             Pending Approvals
           </h2>
           <div className="flex items-center gap-4">
-            <button
-              type="button"
-              onClick={handleDownloadLogs}
-              disabled={isLoading || records.length === 0}
-              className="text-sm text-slate-700 hover:text-slate-900 underline disabled:opacity-50"
-              title="Download Logs as Excel"
-            >
-              Download Logs
-            </button>
+            {scoped && isAdmin && (
+              <select
+                value={scope}
+                onChange={(e) => setScope(e.target.value as Scope)}
+                className="px-2 py-1 text-sm border border-slate-300 rounded-lg bg-white"
+              >
+                <option value="team">My direct reports</option>
+                <option value="all">Everyone</option>
+              </select>
+            )}
             <button
               type="button"
               onClick={() => setRefreshSeq((v) => v + 1)}
@@ -149,166 +429,456 @@ const ManagerDashboard: React.FC<{ focusRequestId?: string }> = ({
           </div>
         </div>
 
+        {viewer && (
+          <DelegationPanel
+            viewer={viewer}
+            directory={directory}
+            delegations={delegations}
+            onChanged={() => fetchDelegations().then(setDelegations)}
+          />
+        )}
+
+        {viewer && (
+          <div className="mb-4 inline-flex rounded-lg border border-slate-300 overflow-hidden text-sm">
+            {(
+              [
+                ["awaiting", `Awaiting you (${awaitingRequests.length})`],
+                ...(delegators.size
+                  ? [["delegated", `Delegated to you (${delegatedRequests.length})`]]
+                  : []),
+                ["pending", `All pending (${pendingRequests.length})`],
+              ] as [Queue, string][]
+            ).map(([value, label]) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setQueue(value)}
+                className={`px-3 py-1.5 ${
+                  queue === value
+                    ? "bg-slate-900 text-white"
+                    : "bg-white text-slate-700 hover:bg-slate-100"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {scoped && scope === "team" && queue === "pending" && (
+          <p className="-mt-2 mb-4 text-sm text-gray-500">
+            Showing requests from your direct reports.
+          </p>
+        )}
+
         {error && (
           <div className="mb-4 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
             {error}
           </div>
         )}
 
+        {!isLoading && <SchemaIssuesBanner sheet="Logs" />}
+
         {isLoading ? (
           <div className="bg-white p-8 rounded-lg shadow-sm text-center text-gray-500">
             Loading pending approvals…
           </div>
-        ) : pendingRequests.length === 0 ? (
+        ) : visibleRequests.length === 0 ? (
           <div className="bg-white p-8 rounded-lg shadow-sm text-center text-gray-500">
-            No pending leave requests. Good job!
+            {queue === "awaiting"
+              ? "Nothing is awaiting your decision."
+              : queue === "delegated"
+              ? "Nothing is waiting on the approvers you stand in for."
+              : "No pending leave requests. Good job!"}
           </div>
         ) : (
           <div className="space-y-4">
-            {pendingRequests.map((req) => (
-              <div
-                key={req.requestId}
-                className={`bg-white p-6 rounded-lg shadow-md border-l-4 ${
-                  focusRequestId && req.requestId === focusRequestId
-                    ? "border-emerald-500 ring-2 ring-emerald-200"
-                    : "border-yellow-400"
-                }`}
-              >
-                <div className="flex justify-between items-start mb-4">
-                  <div>
-                    <h3 className="text-lg font-bold text-gray-900">
-                      {req.employeeName}{" "}
-                      <span className="text-sm font-normal text-gray-500">
-                        ({req.employeeId})
-                      </span>
-                    </h3>
-                    <p className="text-sm text-gray-500">{req.dates}</p>
-                    <p className="text-xs text-gray-400 mt-1">
-                      Request ID: {req.requestId}
-                    </p>
-                  </div>
-                  <span className="bg-yellow-100 text-yellow-800 text-xs px-2 py-1 rounded font-semibold">
-                    PENDING
-                  </span>
+            {selectableRequests.length > 0 && (
+              <div className="bg-white p-4 rounded-lg shadow-sm border border-slate-200 flex flex-col md:flex-row md:items-center gap-3 text-sm">
+                <label className="flex items-center gap-2 whitespace-nowrap">
+                  <input
+                    type="checkbox"
+                    checked={selectedRequests.length === selectableRequests.length}
+                    onChange={toggleAll}
+                  />
+                  {selectedRequests.length
+                    ? `${selectedRequests.length} selected`
+                    : `Select all (${selectableRequests.length})`}
+                </label>
+                <input
+                  type="text"
+                  value={bulkComment}
+                  onChange={(e) => setBulkComment(e.target.value)}
+                  placeholder="Comment sent with every selected decision"
+                  className="flex-1 px-3 py-1.5 border border-gray-300 rounded-md"
+                />
+                <div className="flex gap-2 justify-end">
+                  <button
+                    type="button"
+                    onClick={() => handleBulkAction("REJECTED")}
+                    disabled={!!processingId || selectedRequests.length === 0}
+                    className="px-3 py-1.5 font-medium text-red-600 bg-red-50 hover:bg-red-100 rounded-md disabled:opacity-50"
+                  >
+                    Deny selected
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleBulkAction("APPROVED")}
+                    disabled={!!processingId || selectedRequests.length === 0}
+                    className="px-3 py-1.5 font-medium text-white bg-slate-900 hover:bg-slate-800 rounded-md disabled:opacity-50"
+                  >
+                    {processingId === "bulk" ? "Sending..." : "Approve selected"}
+                  </button>
                 </div>
+              </div>
+            )}
 
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4 text-sm text-gray-700">
-                  <div className="bg-gray-50 p-3 rounded-md border border-gray-100">
-                    <p className="text-xs text-gray-400 uppercase mb-1">
-                      Permission Type
-                    </p>
-                    <p className="font-medium">{req.permissionType || "-"}</p>
-                  </div>
-                  <div className="bg-gray-50 p-3 rounded-md border border-gray-100">
-                    <p className="text-xs text-gray-400 uppercase mb-1">
-                      Leave Type
-                    </p>
-                    <p className="font-medium">{req.leaveType || "-"}</p>
-                  </div>
-                  <div className="bg-gray-50 p-3 rounded-md border border-gray-100">
-                    <p className="text-xs text-gray-400 uppercase mb-1">
-                      Requested InTime
-                    </p>
-                    <p className="font-medium">{req.requestedInTime || "-"}</p>
+            {bulkResults && (
+              <div className="bg-white p-4 rounded-lg shadow-sm border border-slate-200 text-sm">
+                <div className="flex items-center justify-between mb-2">
+                  <p className="font-semibold text-slate-800">
+                    {bulkResults.filter((r) => r.ok).length} of {bulkResults.length} decisions
+                    recorded
+                  </p>
+                  <button
+                    type="button"
+                    onClick={() => setBulkResults(null)}
+                    className="text-xs text-slate-600 hover:text-slate-900 underline"
+                  >
+                    Dismiss
+                  </button>
+                </div>
+                <ul className="space-y-1">
+                  {bulkResults.map((r, i) => (
+                    <li
+                      key={`${r.requestId || "result"}-${i}`}
+                      className={r.ok ? "text-emerald-700" : "text-red-700"}
+                    >
+                      {r.ok ? "✓" : "✗"} {employeeNameFor(r.requestId)} {r.requestId}
+                      {!r.ok && `: ${r.message || r.code}`}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {visibleRequests.map((req) => {
+              const balance = balanceFor(req);
+              const permission = permissionUsageFor(req);
+              const sla = slaStatus(req, slaSettings);
+              return (
+                <div
+                  key={req.requestId}
+                  className={`bg-white p-6 rounded-lg shadow-md border-l-4 ${
+                    focusRequestId && req.requestId === focusRequestId
+                      ? "border-emerald-500 ring-2 ring-emerald-200"
+                      : isCancellation(req)
+                      ? "border-orange-400"
+                      : "border-yellow-400"
+                  }`}
+                >
+                  <div className="flex justify-between items-start mb-4">
+                    <div>
+                      <h3 className="text-lg font-bold text-gray-900">
+                        {isSelectable(req) && (
+                          <input
+                            type="checkbox"
+                            checked={selected.has(req.requestId)}
+                            onChange={() => toggleSelected(req.requestId)}
+                            className="mr-2 align-middle"
+                            aria-label={`Select request from ${req.employeeName}`}
+                          />
+                        )}
+                        {req.employeeName}{" "}
+                        <span className="text-sm font-normal text-gray-500">
+                          ({req.employeeId})
+                        </span>
+                      </h3>
+                      <p className="text-sm text-gray-500">
+                        {formatDateRange(req.startDate, req.endDate)}
+                        {req.startDate &&
+                          ` · ${formatWorkingDays(requestDays(req, holidays))}`}
+                      </p>
+                      <p className="text-xs text-gray-400 mt-1">
+                        Request ID: {req.requestId}
+                        {revisionCount.has(req.requestId) && (
+                          <button
+                            type="button"
+                            onClick={() => setChangesFor(req.requestId)}
+                            className="ml-2 text-amber-700 hover:text-amber-900 underline"
+                          >
+                            Edited {revisionCount.get(req.requestId)}×, view changes
+                          </button>
+                        )}
+                      </p>
+                    </div>
+                    <div className="flex flex-col items-end gap-1">
+                      {isCancellation(req) ? (
+                        <span className="bg-orange-100 text-orange-800 text-xs px-2 py-1 rounded font-semibold">
+                          CANCELLATION REQUESTED
+                        </span>
+                      ) : (
+                        <span className="bg-yellow-100 text-yellow-800 text-xs px-2 py-1 rounded font-semibold">
+                          PENDING
+                        </span>
+                      )}
+                      {sla.stage === "overdue" && (
+                        <span className="bg-red-600 text-white text-xs px-2 py-1 rounded font-semibold">
+                          OVERDUE
+                        </span>
+                      )}
+                      <span
+                        className={`text-xs ${
+                          sla.stage === "on_time"
+                            ? "text-gray-400"
+                            : sla.stage === "reminder"
+                            ? "text-amber-700"
+                            : "text-red-700 font-semibold"
+                        }`}
+                        title={
+                          req.escalatedAt
+                            ? `Escalated ${new Date(req.escalatedAt).toLocaleString()}`
+                            : req.remindedAt
+                            ? `Reminder sent ${new Date(req.remindedAt).toLocaleString()}`
+                            : undefined
+                        }
+                      >
+                        Waiting {formatWaiting(sla.hoursWaiting)}
+                        {req.escalatedAt ? " · escalated" : req.remindedAt ? " · reminded" : ""}
+                      </span>
+                      {sla.startsSoon && (
+                        <span className="bg-amber-100 text-amber-800 text-xs px-2 py-1 rounded font-semibold">
+                          {startsInLabel(req.startDate)}
+                        </span>
+                      )}
+                    </div>
                   </div>
-                  <div className="bg-gray-50 p-3 rounded-md border border-gray-100">
-                    <p className="text-xs text-gray-400 uppercase mb-1">
-                      Requested OutTime
-                    </p>
-                    <p className="font-medium">{req.requestedOutTime || "-"}</p>
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4 text-sm text-gray-700">
+                    <div className="bg-gray-50 p-3 rounded-md border border-gray-100">
+                      <p className="text-xs text-gray-400 uppercase mb-1">
+                        Permission Type
+                      </p>
+                      <p className="font-medium">{req.permissionType || "-"}</p>
+                      <p
+                        className={`text-xs mt-1 ${
+                          permission.over ? "text-red-600 font-semibold" : "text-gray-500"
+                        }`}
+                      >
+                        Permission this month: {formatHours(permission.approved)} approved
+                        {permission.pending > 0 &&
+                          `, ${formatHours(permission.pending)} pending`}{" "}
+                        of {formatHours(permission.quota)}
+                        {permission.hours > 0 &&
+                          ` · this request ${formatHours(permission.hours)}`}
+                      </p>
+                    </div>
+                    <div className="bg-gray-50 p-3 rounded-md border border-gray-100">
+                      <p className="text-xs text-gray-400 uppercase mb-1">
+                        Leave Type
+                      </p>
+                      <p className="font-medium">{req.leaveType || "-"}</p>
+                      {balance && (
+                        <p
+                          className={`text-xs mt-1 ${
+                            balance.after < 0 ? "text-red-600 font-semibold" : "text-gray-500"
+                          }`}
+                          title={`Opening ${balance.opening} + accrued ${balance.accrued} − used ${balance.used}`}
+                        >
+                          Balance: {balance.remaining} left
+                          {balance.pending > 0 && `, ${balance.pending} pending elsewhere`}
+                          {" · "}this request {formatWorkingDays(balance.days)}
+                          {balance.after < 0 && ` (short by ${-balance.after})`}
+                        </p>
+                      )}
+                    </div>
+                    <div className="bg-gray-50 p-3 rounded-md border border-gray-100">
+                      <p className="text-xs text-gray-400 uppercase mb-1">
+                        Requested InTime
+                      </p>
+                      <p className="font-medium">{req.requestedInTime || "-"}</p>
+                    </div>
+                    <div className="bg-gray-50 p-3 rounded-md border border-gray-100">
+                      <p className="text-xs text-gray-400 uppercase mb-1">
+                        Requested OutTime
+                      </p>
+                      <p className="font-medium">{req.requestedOutTime || "-"}</p>
+                    </div>
+                    <div className="bg-gray-50 p-3 rounded-md border border-gray-100 md:col-span-2">
+                      <p className="text-xs text-gray-400 uppercase mb-1">
+                        Alternate Staff
+                      </p>
+                      <p className="font-medium">
+                        {req.alternateStaff || "-"}
+                        {req.coverageStatus && (
+                          <span
+                            className={`ml-2 px-2 py-0.5 rounded-full text-xs font-medium ${
+                              req.coverageStatus === "ACCEPTED"
+                                ? "bg-green-100 text-green-800"
+                                : req.coverageStatus === "DECLINED"
+                                ? "bg-red-100 text-red-800"
+                                : "bg-yellow-100 text-yellow-800"
+                            }`}
+                          >
+                            Coverage: {coverageLabel(req.coverageStatus)}
+                          </span>
+                        )}
+                      </p>
+                      {req.coverageNote && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          “{req.coverageNote}”
+                        </p>
+                      )}
+                    </div>
                   </div>
-                  <div className="bg-gray-50 p-3 rounded-md border border-gray-100 md:col-span-2">
-                    <p className="text-xs text-gray-400 uppercase mb-1">
-                      Alternate Staff
+
+                  <div className="bg-gray-50 p-4 rounded-md mb-4 text-sm text-gray-700 border border-gray-100">
+                    <p className="font-semibold text-xs text-gray-400 uppercase mb-1">
+                      Reason
                     </p>
-                    <p className="font-medium">{req.alternateStaff || "-"}</p>
+                    {req.reason || "-"}
+                    {isAttachmentLink(req.attachmentUrl) && (
+                      <a
+                        href={req.attachmentUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="block mt-2 text-xs font-medium text-slate-700 underline hover:text-slate-900"
+                      >
+                        View supporting document
+                      </a>
+                    )}
                   </div>
-                </div>
 
-                <div className="bg-gray-50 p-4 rounded-md mb-4 text-sm text-gray-700 border border-gray-100">
-                  <p className="font-semibold text-xs text-gray-400 uppercase mb-1">
-                    Reason
-                  </p>
-                  {req.reason || "-"}
-                </div>
+                  {isCancellation(req) && (
+                    <div className="bg-orange-50 p-4 rounded-md mb-4 text-sm text-orange-900 border border-orange-100">
+                      <p className="font-semibold text-xs text-orange-500 uppercase mb-1">
+                        Cancellation reason
+                      </p>
+                      {req.cancellationReason || "-"}
+                      <p className="text-xs text-orange-700 mt-2">
+                        This leave was approved
+                        {req.decidedBy && ` by ${describeApprover(req.decidedBy, directory)}`}.
+                        Approving the cancellation returns the days to the employee's balance.
+                      </p>
+                    </div>
+                  )}
 
-                <div className="flex gap-3 justify-end">
-                  <button
-                    onClick={() =>
-                      handleAction(req.requestId, LeaveStatus.REJECTED)
-                    }
-                    disabled={!!processingId}
-                    className="px-4 py-2 text-sm font-medium text-red-600 bg-red-50 hover:bg-red-100 rounded-md transition disabled:opacity-50"
-                  >
-                    {processingId === req.requestId ? "..." : "Deny"}
-                  </button>
-                  <button
-                    onClick={() =>
-                      handleAction(req.requestId, LeaveStatus.APPROVED)
-                    }
-                    disabled={!!processingId}
-                    className="px-4 py-2 text-sm font-medium text-white bg-slate-900 hover:bg-slate-800 rounded-md shadow transition disabled:opacity-50"
-                  >
-                    {processingId === req.requestId
-                      ? "Sending..."
-                      : "Approve & Email"}
-                  </button>
+                  {req.approvalSteps.length > 1 && !isCancellation(req) && (
+                    <ol className="mb-4 flex flex-wrap gap-2 text-xs">
+                      {req.approvalSteps.map((step, i) => (
+                        <li
+                          key={i}
+                          className={`rounded-full px-2 py-1 border ${
+                            step.status === "APPROVED"
+                              ? "bg-emerald-50 border-emerald-200 text-emerald-800"
+                              : step.status === "PENDING"
+                              ? "bg-yellow-50 border-yellow-300 text-yellow-800 font-semibold"
+                              : "bg-white border-gray-200 text-gray-500"
+                          }`}
+                          title={
+                            step.decidedBy
+                              ? `${step.status.toLowerCase()} by ${step.decidedBy}${
+                                  step.onBehalfOf ? ` for ${step.onBehalfOf}` : ""
+                                }${step.comment ? `: ${step.comment}` : ""}`
+                              : undefined
+                          }
+                        >
+                          {i + 1}. {describeApprover(step.approver, directory)} ·{" "}
+                          {step.status === "PENDING" ? "awaiting" : step.status.toLowerCase()}
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+
+                  <div className="flex gap-3 justify-end">
+                    {queue === "delegated" && delegatorOf(req) && (
+                      <span className="self-center text-xs text-gray-500">
+                        On behalf of{" "}
+                        {describeApprover(delegatorOf(req)!, directory)}
+                      </span>
+                    )}
+                    {!canDecide(req) && (
+                      <span className="self-center text-xs text-gray-500">
+                        Awaiting another approver
+                      </span>
+                    )}
+                    {!isCancellation(req) && (
+                      <button
+                        onClick={() =>
+                          handleAction(req, LeaveStatus.NEEDS_INFO)
+                        }
+                        disabled={!!processingId || !canDecide(req)}
+                        className="px-4 py-2 text-sm font-medium text-blue-700 bg-blue-50 hover:bg-blue-100 rounded-md transition disabled:opacity-50"
+                      >
+                        Ask for info
+                      </button>
+                    )}
+                    <button
+                      onClick={() =>
+                        handleAction(
+                          req,
+                          LeaveStatus.REJECTED,
+                          isCancellation(req)
+                        )
+                      }
+                      disabled={!!processingId || !canDecide(req)}
+                      className="px-4 py-2 text-sm font-medium text-red-600 bg-red-50 hover:bg-red-100 rounded-md transition disabled:opacity-50"
+                    >
+                      {processingId === req.requestId
+                        ? "..."
+                        : isCancellation(req)
+                        ? "Keep leave"
+                        : "Deny"}
+                    </button>
+                    <button
+                      onClick={() =>
+                        handleAction(
+                          req,
+                          LeaveStatus.APPROVED,
+                          isCancellation(req)
+                        )
+                      }
+                      disabled={!!processingId || !canDecide(req)}
+                      className="px-4 py-2 text-sm font-medium text-white bg-slate-900 hover:bg-slate-800 rounded-md shadow transition disabled:opacity-50"
+                    >
+                      {processingId === req.requestId
+                        ? "Sending..."
+                        : isCancellation(req)
+                        ? "Approve cancellation"
+                        : "Approve & Email"}
+                    </button>
+                  </div>
                 </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
         )}
       </div>
 
-      <div className="opacity-75">
-        <h2 className="text-xl font-bold text-gray-800 mb-4">Recent History</h2>
-        <div className="bg-white rounded-lg shadow overflow-hidden">
-          <table className="w-full text-sm text-left">
-            <thead className="bg-gray-50 text-gray-500">
-              <tr>
-                <th className="px-6 py-3 font-medium">Employee</th>
-                <th className="px-6 py-3 font-medium">Dates</th>
-                <th className="px-6 py-3 font-medium">Status</th>
-                <th className="px-6 py-3 font-medium">Manager Note</th>
-              </tr>
-            </thead>
-            <tbody className="divide-y divide-gray-100">
-              {historyRequests.map((req) => (
-                <tr key={`${req.requestId}-${req.timestamp}`}>
-                  <td className="px-6 py-3 font-medium text-gray-900">
-                    {req.employeeName}
-                  </td>
-                  <td className="px-6 py-3 text-gray-500">{req.dates}</td>
-                  <td className="px-6 py-3">
-                    <span
-                      className={`px-2 py-1 rounded-full text-xs font-semibold ${
-                        (req.status || "").toUpperCase() === "APPROVED"
-                          ? "bg-green-100 text-green-800"
-                          : "bg-red-100 text-red-800"
-                      }`}
-                    >
-                      {req.status}
-                    </span>
-                  </td>
-                  <td className="px-6 py-3 text-gray-500 truncate max-w-xs">
-                    {req.managerComment || "-"}
-                  </td>
-                </tr>
-              ))}
-              {historyRequests.length === 0 && (
-                <tr>
-                  <td
-                    colSpan={4}
-                    className="px-6 py-4 text-center text-gray-400"
-                  >
-                    No history yet.
-                  </td>
-                </tr>
-              )}
-            </tbody>
-          </table>
-        </div>
-      </div>
+      <DecisionHistory
+        records={historyRequests}
+        directory={directory}
+        holidays={holidays}
+        revisionCount={revisionCount}
+        onViewChanges={setChangesFor}
+      />
+
+      {changesFor && (
+        <RevisionHistory requestId={changesFor} onClose={() => setChangesFor(null)} />
+      )}
+
+      {deciding && (
+        <DecisionDialog
+          request={deciding.request}
+          status={deciding.status}
+          cancellation={deciding.cancellation}
+          viewerEmail={viewerEmail}
+          templates={templates}
+          onTemplatesChanged={() => fetchCommentTemplates(viewerEmail).then(setTemplates)}
+          onSubmit={handleDecision}
+          onClose={() => setDeciding(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,65 @@
+import React, { useEffect, useState } from "react";
+import {
+  OutboxStatus,
+  discardFailedOutboxItems,
+  retryOutboxNow,
+  subscribeOutbox,
+} from "../services/outboxService";
+
+const OutboxIndicator: React.FC = () => {
+  const [status, setStatus] = useState<OutboxStatus>({
+    pending: 0,
+    failed: 0,
+    rejected: [],
+    isFlushing: false,
+  });
+
+  useEffect(() => subscribeOutbox(setStatus), []);
+
+  if (status.pending === 0 && status.failed === 0) return null;
+
+  return (
+    <div className="mx-4 mb-4 rounded-lg bg-slate-800 px-3 py-2 text-xs text-slate-200">
+      {status.pending > 0 && (
+        <div className="flex items-center justify-between gap-2">
+          <span>
+            {status.pending} {status.pending === 1 ? "item" : "items"} waiting
+            to sync
+          </span>
+          <button
+            type="button"
+            onClick={() => retryOutboxNow()}
+            disabled={status.isFlushing}
+            className="underline text-emerald-300 hover:text-emerald-200 disabled:opacity-50"
+          >
+            {status.isFlushing ? "Syncing…" : "Retry"}
+          </button>
+        </div>
+      )}
+      {status.failed > 0 && (
+        <div className="mt-1 flex items-center justify-between gap-2 text-red-300">
+          <span>{status.failed} rejected by the server</span>
+          <button
+            type="button"
+            onClick={() => discardFailedOutboxItems()}
+            className="underline hover:text-red-200"
+          >
+            Discard
+          </button>
+        </div>
+      )}
+      {status.rejected.length > 0 && (
+        <ul className="mt-1 space-y-0.5 text-red-200">
+          {status.rejected.map((item, i) => (
+            <li key={i}>
+              {item.requestId || item.kind.replace(/_/g, " ")}
+              {item.error && `: ${item.error}`}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default OutboxIndicator;
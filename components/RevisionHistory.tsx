@@ -0,0 +1,86 @@
+import React, { useEffect, useState } from "react";
+import { fetchRevisions } from "../services/sheetService";
+import { Revision, fieldLabel, revisionsFor } from "../services/revisions";
+
+// Field-level diff of every edit made to one request, oldest first.
+const RevisionHistory: React.FC<{ requestId: string; onClose: () => void }> = ({
+  requestId,
+  onClose,
+}) => {
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    fetchRevisions(requestId)
+      .then((rows) => {
+        if (!cancelled) setRevisions(revisionsFor(rows, requestId));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [requestId]);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-bold text-slate-900">Changes</h3>
+            <p className="text-xs text-gray-500">Request ID: {requestId}</p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-sm text-slate-700 hover:text-slate-900 underline"
+          >
+            Close
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="p-8 text-center text-slate-500">Loading changes…</div>
+        ) : revisions.length === 0 ? (
+          <div className="p-8 text-center text-slate-500">
+            This request has not been edited since it was submitted.
+          </div>
+        ) : (
+          <ol className="divide-y divide-gray-100">
+            {revisions.map((rev) => (
+              <li key={rev.revision} className="px-6 py-4">
+                <p className="text-sm font-semibold text-slate-800">
+                  Revision {rev.revision}
+                  <span className="ml-2 text-xs font-normal text-gray-500">
+                    {rev.timestamp ? new Date(rev.timestamp).toLocaleString() : "-"}
+                    {rev.editedBy && ` · ${rev.editedBy}`}
+                  </span>
+                </p>
+                <table className="mt-2 w-full text-sm">
+                  <tbody>
+                    {rev.changes.map((change) => (
+                      <tr key={change.field} className="align-top">
+                        <td className="py-1 pr-3 text-xs text-gray-500 whitespace-nowrap">
+                          {fieldLabel(change.field)}
+                        </td>
+                        <td className="py-1 pr-3 text-red-700 line-through decoration-red-300">
+                          {change.before || "—"}
+                        </td>
+                        <td className="py-1 text-emerald-700">{change.after || "—"}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RevisionHistory;
@@ -0,0 +1,37 @@
+import React from "react";
+import { getSchemaIssues } from "../services/sheetSchema";
+
+// Explains layout drift detected while reading a sheet (missing, extra or reordered columns).
+// Render it after the sheet's data has loaded so the latest parse is reflected.
+const SchemaIssuesBanner: React.FC<{ sheet: string }> = ({ sheet }) => {
+  const issues = getSchemaIssues(sheet);
+  if (issues.length === 0) return null;
+
+  const hasError = issues.some((i) => i.severity === "error");
+  const hasWarning = issues.some((i) => i.severity === "warning");
+
+  return (
+    <div
+      className={`mb-4 rounded-lg border px-4 py-3 text-sm ${
+        hasError
+          ? "border-red-200 bg-red-50 text-red-700"
+          : hasWarning
+          ? "border-yellow-200 bg-yellow-50 text-yellow-800"
+          : "border-slate-200 bg-slate-50 text-slate-600"
+      }`}
+    >
+      <p className="font-semibold mb-1">
+        {hasError
+          ? `The ${sheet} sheet cannot be read:`
+          : `Notes about the ${sheet} sheet layout:`}
+      </p>
+      <ul className="list-disc pl-5 space-y-0.5">
+        {issues.map((issue) => (
+          <li key={issue.message}>{issue.message}</li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SchemaIssuesBanner;
@@ -71,10 +71,10 @@ const TaskForm: React.FC<TaskFormProps> = ({ user, onSuccess }) => {
       timestamp: Date.now(),
     };
 
-    const success = await submitTask(entry);
+    const result = await submitTask(entry);
 
-    if (success) {
-      alert("Task submitted successfully!");
+    if (result.ok) {
+      alert(result.queued ? result.message || "Task saved offline." : "Task submitted successfully!");
       // Reset form
       setCompany("");
       setPlatform("");
@@ -84,7 +84,7 @@ const TaskForm: React.FC<TaskFormProps> = ({ user, onSuccess }) => {
       setClaimedQuantity("0");
       onSuccess();
     } else {
-      alert("Failed to submit task. Please try again.");
+      alert(`Failed to submit task: ${result.message || "please try again."}`);
     }
 
     setSubmitting(false);
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from "react";
-import { fetchAllTaskLogs, TaskLogRecord } from "../services/sheetService";
+import { fetchAllTaskLogs, subscribeDataRefresh, TaskLogRecord } from "../services/sheetService";
 import * as XLSX from "xlsx";
+import SchemaIssuesBanner from "./SchemaIssuesBanner";
 
 const TaskReport: React.FC = () => {
   const [tasks, setTasks] = useState<TaskLogRecord[]>([]);
@@ -25,6 +26,15 @@ const TaskReport: React.FC = () => {
     loadTasks();
   }, []);
 
+  // Cached task logs render first; pick up newer rows when the background refresh finds changes.
+  useEffect(
+    () =>
+      subscribeDataRefresh("taskLogs", () => {
+        fetchAllTaskLogs().then(setTasks);
+      }),
+    []
+  );
+
   // Apply filters
   useEffect(() => {
     let filtered = [...tasks];
@@ -124,6 +134,8 @@ const TaskReport: React.FC = () => {
 
   return (
     <div className="max-w-7xl">
+      <SchemaIssuesBanner sheet="TaskLogs" />
+
       {/* Filters Section */}
       <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 mb-6">
         <h3 className="text-lg font-semibold text-slate-900 mb-4">Filters</h3>
@@ -0,0 +1,300 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  fetchLogRecords,
+  LogSheetRecord,
+  subscribeDataRefresh,
+} from "../services/sheetService";
+import { addDays, todayIso, weekday } from "../services/dateUtils";
+import { holdsDates, isTakenStatus } from "../services/leaveStatus";
+
+type CalendarMode = "month" | "week";
+
+const WEEKDAY_LABELS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+// Weeks start on Monday.
+const startOfWeek = (iso: string) => addDays(iso, -((weekday(iso) + 6) % 7));
+const startOfMonth = (iso: string) => `${iso.slice(0, 7)}-01`;
+
+const monthLabel = (iso: string) =>
+  new Date(`${iso}T00:00:00`).toLocaleDateString(undefined, {
+    month: "long",
+    year: "numeric",
+  });
+
+const dayLabel = (iso: string) =>
+  new Date(`${iso}T00:00:00`).toLocaleDateString(undefined, {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+  });
+
+const isPermission = (r: LogSheetRecord) =>
+  (r.permissionType || "").trim().toLowerCase() === "permission";
+
+// Partial-day permissions show the hours the employee is away.
+const permissionTimes = (r: LogSheetRecord) => {
+  if (!isPermission(r)) return "";
+  if (r.requestedOutTime && r.requestedInTime)
+    return `${r.requestedOutTime}–${r.requestedInTime}`;
+  if (r.requestedInTime) return `until ${r.requestedInTime}`;
+  if (r.requestedOutTime) return `from ${r.requestedOutTime}`;
+  return "";
+};
+
+const entryClass = (r: LogSheetRecord) =>
+  isTakenStatus(r.status)
+    ? "bg-emerald-100 text-emerald-900 border border-emerald-200"
+    : "bg-white text-yellow-800 border border-dashed border-yellow-400";
+
+const CalendarEntry: React.FC<{ record: LogSheetRecord; detailed?: boolean }> = ({
+  record,
+  detailed,
+}) => {
+  const times = permissionTimes(record);
+  return (
+    <div
+      className={`rounded px-1.5 py-0.5 text-[11px] leading-tight truncate ${entryClass(record)}`}
+      title={`${record.employeeName} · ${record.leaveType || record.permissionType} · ${record.status}${
+        times ? ` · ${times}` : ""
+      } (${record.requestId})`}
+    >
+      <span className="font-semibold">{record.employeeName || record.employeeEmail}</span>
+      {detailed && record.leaveType && <span> · {record.leaveType}</span>}
+      {times && <span className="opacity-80"> · {times}</span>}
+    </div>
+  );
+};
+
+const TeamCalendar: React.FC = () => {
+  const [records, setRecords] = useState<LogSheetRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [mode, setMode] = useState<CalendarMode>("month");
+  const [cursor, setCursor] = useState(todayIso());
+  const [leaveTypeFilter, setLeaveTypeFilter] = useState("");
+  const [employeeFilter, setEmployeeFilter] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    fetchLogRecords()
+      .then((rows) => {
+        if (!cancelled) setRecords(rows);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(
+    () =>
+      subscribeDataRefresh("logs", () => {
+        fetchLogRecords().then(setRecords);
+      }),
+    []
+  );
+
+  // Open and approved requests hold dates; everything else is history.
+  const activeRecords = useMemo(
+    () =>
+      records.filter(
+        (r) =>
+          (r.type || "request").toLowerCase() === "request" &&
+          holdsDates(r.status) &&
+          !!r.startDate
+      ),
+    [records]
+  );
+
+  const leaveTypes = useMemo(
+    () => Array.from(new Set(activeRecords.map((r) => r.leaveType).filter(Boolean))).sort(),
+    [activeRecords]
+  );
+  const employees = useMemo(
+    () =>
+      Array.from(
+        new Map<string, string>(
+          activeRecords.map((r) => [r.employeeEmail, r.employeeName || r.employeeEmail])
+        ).entries()
+      ).sort((a, b) => a[1].localeCompare(b[1])),
+    [activeRecords]
+  );
+
+  const visibleRecords = useMemo(
+    () =>
+      activeRecords.filter(
+        (r) =>
+          (!leaveTypeFilter || r.leaveType === leaveTypeFilter) &&
+          (!employeeFilter || r.employeeEmail === employeeFilter)
+      ),
+    [activeRecords, leaveTypeFilter, employeeFilter]
+  );
+
+  const days = useMemo(() => {
+    if (mode === "week") {
+      const start = startOfWeek(cursor);
+      return Array.from({ length: 7 }, (_, i) => addDays(start, i));
+    }
+    const first = startOfMonth(cursor);
+    const start = startOfWeek(first);
+    const nextMonth = startOfMonth(addDays(first, 31));
+    const count = Math.ceil(((Date.parse(nextMonth) - Date.parse(start)) / 86_400_000) / 7) * 7;
+    return Array.from({ length: count }, (_, i) => addDays(start, i));
+  }, [mode, cursor]);
+
+  const entriesOn = (day: string) =>
+    visibleRecords.filter((r) => r.startDate <= day && day <= (r.endDate || r.startDate));
+
+  const step = (direction: 1 | -1) =>
+    setCursor((c) => {
+      if (mode === "week") return addDays(c, 7 * direction);
+      // Any day of the next month, or the last day of the previous one.
+      return direction > 0 ? addDays(startOfMonth(c), 31) : addDays(startOfMonth(c), -1);
+    });
+
+  const title =
+    mode === "week"
+      ? `${dayLabel(days[0])} – ${dayLabel(days[6])}`
+      : monthLabel(startOfMonth(cursor));
+  const today = todayIso();
+  const currentMonth = startOfMonth(cursor).slice(0, 7);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => step(-1)}
+            className="px-2 py-1 text-sm rounded border border-slate-200 bg-white hover:bg-slate-100"
+            aria-label="Previous"
+          >
+            ‹
+          </button>
+          <button
+            type="button"
+            onClick={() => setCursor(todayIso())}
+            className="px-3 py-1 text-sm rounded border border-slate-200 bg-white hover:bg-slate-100"
+          >
+            Today
+          </button>
+          <button
+            type="button"
+            onClick={() => step(1)}
+            className="px-2 py-1 text-sm rounded border border-slate-200 bg-white hover:bg-slate-100"
+            aria-label="Next"
+          >
+            ›
+          </button>
+          <h3 className="ml-2 text-lg font-semibold text-gray-800">{title}</h3>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={leaveTypeFilter}
+            onChange={(e) => setLeaveTypeFilter(e.target.value)}
+            className="px-3 py-1.5 text-sm border border-slate-300 rounded-lg bg-white"
+          >
+            <option value="">All leave types</option>
+            {leaveTypes.map((t) => (
+              <option key={t} value={t}>
+                {t}
+              </option>
+            ))}
+          </select>
+          <select
+            value={employeeFilter}
+            onChange={(e) => setEmployeeFilter(e.target.value)}
+            className="px-3 py-1.5 text-sm border border-slate-300 rounded-lg bg-white"
+          >
+            <option value="">All employees</option>
+            {employees.map(([email, name]) => (
+              <option key={email} value={email}>
+                {name}
+              </option>
+            ))}
+          </select>
+          <div className="inline-flex rounded-lg border border-slate-300 overflow-hidden text-sm">
+            {(["month", "week"] as CalendarMode[]).map((m) => (
+              <button
+                key={m}
+                type="button"
+                onClick={() => setMode(m)}
+                className={`px-3 py-1.5 capitalize ${
+                  mode === m ? "bg-slate-900 text-white" : "bg-white text-slate-700 hover:bg-slate-100"
+                }`}
+              >
+                {m}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-4 text-xs text-slate-600">
+        <span className="inline-flex items-center gap-1">
+          <span className="inline-block w-3 h-3 rounded bg-emerald-100 border border-emerald-200" /> Approved
+        </span>
+        <span className="inline-flex items-center gap-1">
+          <span className="inline-block w-3 h-3 rounded bg-white border border-dashed border-yellow-400" /> Pending
+        </span>
+        <span>Permission hours are shown next to the name.</span>
+      </div>
+
+      {isLoading ? (
+        <div className="bg-white p-8 rounded-lg shadow-sm text-center text-gray-500">Loading calendar…</div>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <div className="grid grid-cols-7 bg-gray-50 text-xs font-medium text-gray-500">
+            {WEEKDAY_LABELS.map((d) => (
+              <div key={d} className="px-2 py-2 text-center">
+                {d}
+              </div>
+            ))}
+          </div>
+          <div className="grid grid-cols-7 border-t border-gray-100">
+            {days.map((day) => {
+              const entries = entriesOn(day);
+              const outside = mode === "month" && day.slice(0, 7) !== currentMonth;
+              return (
+                <div
+                  key={day}
+                  className={`border-b border-r border-gray-100 p-1.5 space-y-1 ${
+                    mode === "week" ? "min-h-[220px]" : "min-h-[96px]"
+                  } ${outside ? "bg-gray-50 text-gray-400" : ""}`}
+                >
+                  <div
+                    className={`text-xs font-semibold ${
+                      day === today ? "text-emerald-700" : outside ? "text-gray-400" : "text-gray-700"
+                    }`}
+                  >
+                    {mode === "week" ? dayLabel(day) : Number(day.slice(8))}
+                  </div>
+                  {(mode === "week" ? entries : entries.slice(0, 3)).map((r) => (
+                    <CalendarEntry key={r.requestId} record={r} detailed={mode === "week"} />
+                  ))}
+                  {mode === "month" && entries.length > 3 && (
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setCursor(day);
+                        setMode("week");
+                      }}
+                      className="text-[11px] text-slate-500 hover:text-slate-900 underline"
+                    >
+                      +{entries.length - 3} more
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TeamCalendar;
@@ -0,0 +1,38 @@
+import type { Plugin } from 'vite';
+
+// Vite plugin mounting the Sheets stand-in on the dev server. The handler module is loaded through
+// Vite (ssrLoadModule) so it can share the app's workbook port and schema, `?raw` import included.
+
+export const STANDIN_PREFIX = '/__sheets';
+
+/** Client env that points the Sheets backend at the stand-in instead of Google. */
+export const STANDIN_ENV = {
+    SHEET_ID: 'standin',
+    SHEETS_API_KEY: 'standin',
+    SHEETS_API_BASE: STANDIN_PREFIX,
+    SHEET_LOG_WEBHOOK: `${STANDIN_PREFIX}/exec`,
+};
+
+export type StandInOptions = {
+    /** Workbook file backing the stand-in; `.json` or `.xlsx`. Created from the seed data when missing. */
+    file?: string;
+};
+
+export const DEFAULT_STANDIN_FILE = '.sheets-standin/workbook.json';
+
+export const sheetsStandIn = (options: StandInOptions = {}): Plugin => ({
+    name: 'sheets-standin',
+    apply: 'serve',
+    configureServer(server) {
+        const file = options.file || DEFAULT_STANDIN_FILE;
+        server.middlewares.use(STANDIN_PREFIX, async (req, res, next) => {
+            try {
+                const { handleStandInRequest } = await server.ssrLoadModule('/scripts/dev-server/standInHandler.ts');
+                await handleStandInRequest(req, res, { file, publicUrl: STANDIN_PREFIX });
+            } catch (err) {
+                next(err);
+            }
+        });
+        server.config.logger.info(`  Sheets stand-in: ${STANDIN_PREFIX} (data in ${file})`);
+    },
+});
@@ -0,0 +1,180 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import * as XLSX from 'xlsx';
+import { WriteResult } from '../../types';
+import {
+    MailHandler,
+    Workbook,
+    applyApprovalLink,
+    applyWebhookPayload,
+    createSeedWorkbook,
+    readRange,
+    runSlaReminders,
+} from '../../services/localWorkbook';
+
+// Request handler behind the Sheets stand-in (see sheetsStandIn.ts). Emulates:
+//   POST /exec                                   -> doPost in code.gs (task, request, decision, edit_request, delete_request)
+//   GET  /exec?action=approve|reject&rid=...     -> doGet approve/reject links
+//   POST /sla-reminders                          -> one run of the sendSlaReminders time-driven job
+//   GET  /v4/spreadsheets/:id/values/:range      -> Sheets values.get
+//   GET  /v4/spreadsheets/:id/values:batchGet    -> Sheets values.batchGet
+// The workbook is re-read from disk on every request, so hand edits to the file show up immediately.
+
+type HandlerOptions = {
+    file: string;
+    publicUrl: string; // where the stand-in is mounted, used for approve/reject links in mails
+};
+
+const isXlsx = (file: string) => /\.xlsx$/i.test(file);
+
+const loadWorkbook = (file: string): Workbook => {
+    const fullPath = path.resolve(file);
+    if (!fs.existsSync(fullPath)) {
+        const seed = createSeedWorkbook();
+        saveWorkbook(file, seed);
+        console.info(`[stand-in] created ${file} from seed data`);
+        return seed;
+    }
+    if (isXlsx(file)) {
+        const book = XLSX.read(fs.readFileSync(fullPath), { type: 'buffer' });
+        return Object.fromEntries(
+            book.SheetNames.map((name) => [
+                name,
+                XLSX.utils.sheet_to_json<string[]>(book.Sheets[name], { header: 1, raw: false, defval: '' }),
+            ])
+        );
+    }
+    return JSON.parse(fs.readFileSync(fullPath, 'utf8')) as Workbook;
+};
+
+const saveWorkbook = (file: string, wb: Workbook) => {
+    const fullPath = path.resolve(file);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    if (isXlsx(file)) {
+        const book = XLSX.utils.book_new();
+        Object.entries(wb).forEach(([name, rows]) => XLSX.utils.book_append_sheet(book, XLSX.utils.aoa_to_sheet(rows), name));
+        fs.writeFileSync(fullPath, XLSX.write(book, { type: 'buffer', bookType: 'xlsx' }));
+        return;
+    }
+    fs.writeFileSync(fullPath, JSON.stringify(wb, null, 2));
+};
+
+const mailer = (options: HandlerOptions): MailHandler => (to, subject, body) => {
+    console.info(`[stand-in] mail to ${to}: ${subject}\n${body.replace(/^/gm, '    ')}`);
+    const rid = /REQ-[A-Z0-9]+/.exec(`${subject} ${body}`)?.[0];
+    if (rid && /new leave request/i.test(subject)) {
+        console.info(`    approve: ${options.publicUrl}/exec?action=approve&rid=${rid}`);
+        console.info(`    reject:  ${options.publicUrl}/exec?action=reject&rid=${rid}`);
+    }
+};
+
+// Mirrors the CacheService acknowledgement cache in doPost: replays with the same clientRequestId
+// get the original acknowledgement instead of a duplicate row.
+const acknowledgements = new Map<string, WriteResult>();
+
+const readBody = (req: IncomingMessage) =>
+    new Promise<string>((resolve, reject) => {
+        let body = '';
+        req.setEncoding('utf8');
+        req.on('data', (chunk) => (body += chunk));
+        req.on('end', () => resolve(body));
+        req.on('error', reject);
+    });
+
+const send = (res: ServerResponse, status: number, contentType: string, body: string) => {
+    res.statusCode = status;
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.end(body);
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) =>
+    send(res, status, 'application/json', JSON.stringify(body));
+
+const sheetsError = (res: ServerResponse, range: string) =>
+    sendJson(res, 400, { error: { code: 400, message: `Unable to parse range: ${range}`, status: 'INVALID_ARGUMENT' } });
+
+const valueRange = (range: string, values: string[][]) =>
+    values.length ? { range, majorDimension: 'ROWS', values } : { range, majorDimension: 'ROWS' };
+
+const handlePost = async (req: IncomingMessage, res: ServerResponse, options: HandlerOptions) => {
+    let data: Record<string, any>;
+    try {
+        data = JSON.parse((await readBody(req)) || 'null');
+    } catch {
+        return sendJson(res, 200, { ok: false, code: 'BAD_REQUEST', message: 'POST body is not valid JSON.' });
+    }
+    if (!data) return sendJson(res, 200, { ok: false, code: 'BAD_REQUEST', message: 'No POST data received.' });
+
+    const ackKey = data.clientRequestId ? String(data.clientRequestId) : '';
+    const prior = ackKey ? acknowledgements.get(ackKey) : undefined;
+    if (prior) return sendJson(res, 200, prior);
+
+    let result: WriteResult;
+    try {
+        const wb = loadWorkbook(options.file);
+        result = applyWebhookPayload(wb, data, mailer(options));
+        if (result.ok) saveWorkbook(options.file, wb);
+    } catch (err) {
+        result = { ok: false, code: 'SERVER_ERROR', message: String(err) };
+    }
+    if (ackKey && result.ok) acknowledgements.set(ackKey, result);
+    return sendJson(res, 200, result);
+};
+
+const handleApprovalLink = (url: URL, res: ServerResponse, options: HandlerOptions) => {
+    const action = url.searchParams.get('action');
+    const rid = url.searchParams.get('rid');
+    if (!action || !rid) return send(res, 200, 'text/html', '<h1>Invalid Request</h1>');
+
+    const wb = loadWorkbook(options.file);
+    const result = applyApprovalLink(wb, action, rid, mailer(options));
+    if (result.code === 'NOT_FOUND') return send(res, 200, 'text/html', '<h1>Request Not Found</h1>');
+    // Same page as doGet in code.gs: the approver learns why the link did nothing (already decided, not theirs...).
+    if (!result.ok) return send(res, 200, 'text/html', `<h1>Not Processed</h1><p>${result.message}</p>`);
+    saveWorkbook(options.file, wb);
+    return send(res, 200, 'text/html', `<h1>Success</h1><p>Request ${rid} has been processed.</p>`);
+};
+
+export const handleStandInRequest = async (req: IncomingMessage, res: ServerResponse, options: HandlerOptions) => {
+    const url = new URL(req.url || '/', 'http://standin.local');
+    const method = (req.method || 'GET').toUpperCase();
+
+    if (method === 'OPTIONS') return send(res, 204, 'text/plain', '');
+
+    if (url.pathname === '/exec') {
+        if (method === 'POST') return handlePost(req, res, options);
+        return handleApprovalLink(url, res, options);
+    }
+
+    if (url.pathname === '/sla-reminders' && method === 'POST') {
+        const wb = loadWorkbook(options.file);
+        const sent = runSlaReminders(wb, mailer(options));
+        saveWorkbook(options.file, wb);
+        return sendJson(res, 200, { ok: true, ...sent });
+    }
+
+    const batch = /^\/v4\/spreadsheets\/[^/]+\/values:batchGet$/.exec(url.pathname);
+    if (batch && method === 'GET') {
+        const wb = loadWorkbook(options.file);
+        const ranges = url.searchParams.getAll('ranges');
+        const valueRanges = [];
+        for (const range of ranges) {
+            const values = readRange(wb, range);
+            if (!values) return sheetsError(res, range);
+            valueRanges.push(valueRange(range, values));
+        }
+        return sendJson(res, 200, { spreadsheetId: 'standin', valueRanges });
+    }
+
+    const single = /^\/v4\/spreadsheets\/[^/]+\/values\/(.+)$/.exec(url.pathname);
+    if (single && method === 'GET') {
+        const range = decodeURIComponent(single[1]);
+        const values = readRange(loadWorkbook(options.file), range);
+        if (!values) return sheetsError(res, range);
+        return sendJson(res, 200, valueRange(range, values));
+    }
+
+    return sendJson(res, 404, { error: { code: 404, message: `Stand-in has no route for ${method} ${url.pathname}` } });
+};
@@ -1,6 +1,7 @@
 /**
  * LEAVE MANAGER & TASK MANAGER WEB APP SCRIPT
- * Handles POST requests for leave submissions, manager decisions, and task submissions.
+ * Handles POST requests for leave submissions, manager decisions, and task submissions,
+ * answering each with a JSON acknowledgement (see jsonResponse_).
  * Handles GET requests for manager approval/rejection links.
  */
 // --- UTILITY FUNCTIONS ---
@@ -17,70 +18,149 @@ function withCors_(output) {
   }
   return output;
 }
-function ensureLogHeader_(sheet) {
-  const desiredHeader = [
-    "Timestamp", "Request ID", "Type", "Status", "Employee Name",
-    "Employee Email", "Employee ID", "Dates", "Reason", "Manager Comment",
-    "Manager Action", "Permission Type", "Leave Type", "Requested InTime", "Requested OutTime",
-    "Alternate Staff"
-  ];
-  const header = sheet.getRange(1, 1, 1, desiredHeader.length).getValues()[0];
-  const hasAnyHeader = header.some(function(v) { return v && String(v).trim(); });
-  if (!hasAnyHeader) {
-    sheet.getRange(1, 1, 1, desiredHeader.length).setValues([desiredHeader]);
-    return;
+/**
+ * Every doPost response is a JSON acknowledgement the client can read:
+ *   { ok: true, requestId?: string, row?: number }
+ *   { ok: false, code: string, message: string, requestId?: string }
+ */
+function jsonResponse_(result) {
+  return withCors_(
+    ContentService.createTextOutput(JSON.stringify(result)).setMimeType(ContentService.MimeType.JSON)
+  );
+}
+function ok_(extra) {
+  var result = { ok: true };
+  for (var key in (extra || {})) result[key] = extra[key];
+  return result;
+}
+function fail_(code, message, extra) {
+  var result = { ok: false, code: code, message: message };
+  for (var key in (extra || {})) result[key] = extra[key];
+  return result;
+}
+// --- SHEET SCHEMA ---
+// Column definitions are shared with the web client: sheetSchema.html holds plain JSON so both the
+// script (via HtmlService) and the client bundle load the same document.
+var sheetSchemaCache_ = null;
+function getSheetSchema_(name) {
+  if (!sheetSchemaCache_) {
+    sheetSchemaCache_ = JSON.parse(HtmlService.createHtmlOutputFromFile("sheetSchema").getContent());
   }
-  var changed = false;
-  for (var i = 0; i < desiredHeader.length; i++) {
-    if (!header[i] || !String(header[i]).trim()) {
-      header[i] = desiredHeader[i];
-      changed = true;
+  return sheetSchemaCache_[name];
+}
+function normalizeHeader_(v) {
+  return String(v === null || v === undefined ? "" : v).toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+/**
+ * Resolves schema columns by header name without writing to the sheet; for readers, which must not change it.
+ * Columns the sheet lacks are missing from `columns` and listed in `missing`.
+ * Returns { columns: { key: 1-based column }, width: number of header columns, dateKeys: { key: true }, missing }.
+ */
+function readHeader_(sheet, schema) {
+  var lastCol = Math.max(sheet.getLastColumn(), 1);
+  var header = sheet.getRange(1, 1, 1, lastCol).getValues()[0];
+  var width = header.length;
+  while (width > 0 && !String(header[width - 1]).trim()) width--;
+  var normalized = header.slice(0, width).map(normalizeHeader_);
+  var claimed = {};
+  var columns = {};
+  var dateKeys = {};
+  var missing = [];
+  function find(col) {
+    var names = [col.header].concat(col.aliases || []).map(normalizeHeader_);
+    for (var i = 0; i < normalized.length; i++) {
+      if (!claimed[i] && names.indexOf(normalized[i]) !== -1) return i;
     }
+    return -1;
   }
-  if (changed) {
-    sheet.getRange(1, 1, 1, desiredHeader.length).setValues([header]);
+  (schema.legacyColumns || []).forEach(function(col) {
+    var idx = find(col);
+    if (idx === -1) return;
+    claimed[idx] = true;
+    columns[col.key] = idx + 1;
+  });
+  schema.columns.forEach(function(col) {
+    if (col.format === "date") dateKeys[col.key] = true;
+    var idx = find(col);
+    if (idx === -1) {
+      missing.push(col);
+      return;
+    }
+    claimed[idx] = true;
+    columns[col.key] = idx + 1;
+  });
+  return { columns: columns, width: width, dateKeys: dateKeys, missing: missing };
+}
+/**
+ * Resolves schema columns by header name, appending headers for any schema column the sheet lacks.
+ * Legacy columns are resolved when present but never appended.
+ * Returns { columns: { key: 1-based column }, width: number of header columns, dateKeys: { key: true } }.
+ */
+function ensureHeader_(sheet, schema) {
+  var layout = readHeader_(sheet, schema);
+  var width = layout.width;
+  var appended = layout.missing.map(function(col, i) {
+    layout.columns[col.key] = width + i + 1;
+    return col.header;
+  });
+  if (appended.length) {
+    Logger.log(schema.sheet + ": adding missing column(s) " + appended.join(", "));
+    sheet.getRange(1, width + 1, 1, appended.length).setValues([appended]);
   }
+  return { columns: layout.columns, width: width + appended.length, dateKeys: layout.dateKeys };
 }
-function ensureTaskLogHeader_(sheet) {
-  const desiredHeader = [
-    "Timestamp", "Employee Name", "Employee Email", "Company",
-    "Platform", "Fulfillment", "Task", "Quantity", "Claimed Quantity"
-  ];
-  const header = sheet.getRange(1, 1, 1, desiredHeader.length).getValues()[0];
-  const hasAnyHeader = header.some(function(v) { return v && String(v).trim(); });
-  if (!hasAnyHeader) {
-    sheet.getRange(1, 1, 1, desiredHeader.length).setValues([desiredHeader]);
-    return;
+/**
+ * Converts a "yyyy-mm-dd" string to a Date in the script time zone so the sheet stores a real date.
+ * Anything else is written unchanged.
+ */
+function toSheetDate_(value) {
+  var m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(String(value || "").trim());
+  return m ? new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3])) : value;
+}
+function buildRow_(layout, values) {
+  var row = [];
+  for (var i = 0; i < layout.width; i++) row.push("");
+  for (var key in values) {
+    if (!layout.columns[key]) continue;
+    row[layout.columns[key] - 1] = layout.dateKeys && layout.dateKeys[key] ? toSheetDate_(values[key]) : values[key];
   }
-  var changed = false;
-  for (var i = 0; i < desiredHeader.length; i++) {
-    if (!header[i] || !String(header[i]).trim()) {
-      header[i] = desiredHeader[i];
-      changed = true;
-    }
+  return row;
+}
+function formatDateCells_(sheet, rowIndex, layout) {
+  for (var key in (layout.dateKeys || {})) {
+    sheet.getRange(rowIndex, layout.columns[key]).setNumberFormat("yyyy-mm-dd");
   }
-  if (changed) {
-    sheet.getRange(1, 1, 1, desiredHeader.length).setValues([header]);
+}
+function setCell_(sheet, rowIndex, layout, key, value) {
+  var range = sheet.getRange(rowIndex, layout.columns[key]);
+  if (layout.dateKeys && layout.dateKeys[key]) {
+    range.setNumberFormat("yyyy-mm-dd").setValue(toSheetDate_(value));
+  } else {
+    range.setValue(value);
   }
 }
+function getCell_(sheet, rowIndex, layout, key) {
+  return sheet.getRange(rowIndex, layout.columns[key]).getValue();
+}
 function logTaskEntry_(ss, data) {
-  var taskSheet = ss.getSheetByName('TaskLogs');
+  var schema = getSheetSchema_("TaskLogs");
+  var taskSheet = ss.getSheetByName(schema.sheet);
   if (!taskSheet) {
-    taskSheet = ss.insertSheet('TaskLogs');
-  }
-  ensureTaskLogHeader_(taskSheet);
-  var timestamp = new Date(data.timestamp || Date.now());
-  taskSheet.appendRow([
-    timestamp,
-    data.employeeName || '',
-    data.employeeEmail || '',
-    data.company || '',
-    data.platform || '',
-    data.fulfillment || '',
-    data.task || '',
-    data.quantity || 0,
-    data.claimedQuantity || 0
-  ]);
+    taskSheet = ss.insertSheet(schema.sheet);
+  }
+  var layout = ensureHeader_(taskSheet, schema);
+  taskSheet.appendRow(buildRow_(layout, {
+    timestamp: new Date(data.timestamp || Date.now()),
+    employeeName: data.employeeName || '',
+    employeeEmail: data.employeeEmail || '',
+    company: data.company || '',
+    platform: data.platform || '',
+    fulfillment: data.fulfillment || '',
+    task: data.task || '',
+    quantity: data.quantity || 0,
+    claimedQuantity: data.claimedQuantity || 0
+  }));
+  return taskSheet.getLastRow();
 }
 function newRequestId_() {
   return "REQ-" + Math.random().toString(36).slice(2, 10).toUpperCase();
@@ -89,10 +169,15 @@ function getWebAppUrl_() {
   var url = PropertiesService.getScriptProperties().getProperty("WEB_APP_URL");
   return (url || "").trim() || "https://employee-ledger.vercel.app/";
 }
-function findLogRowByRequestId_(sheet, requestId) {
+function reviewUrl_(requestId) {
+  var webAppUrl = getWebAppUrl_();
+  var joiner = webAppUrl.indexOf("?") === -1 ? "?" : "&";
+  return webAppUrl + joiner + "view=manager&rid=" + encodeURIComponent(requestId);
+}
+function findLogRowByRequestId_(sheet, layout, requestId) {
   var lastRow = sheet.getLastRow();
   if (lastRow < 2) return -1;
-  var ids = sheet.getRange(2, 2, lastRow - 1, 1).getValues();
+  var ids = sheet.getRange(2, layout.columns.requestId, lastRow - 1, 1).getValues();
   for (var i = 0; i < ids.length; i++) {
     if (String(ids[i][0] || "").trim() === requestId) {
       return i + 2;
@@ -100,127 +185,1265 @@ function findLogRowByRequestId_(sheet, requestId) {
   }
   return -1;
 }
+// --- LEAVE STATUS ---
+// Copy of the transition table in services/leaveStatus.ts. Every status change checks it before writing.
+var LEAVE_TRANSITIONS = {
+  PENDING: { edit: "PENDING", withdraw: "WITHDRAWN", approve: "APPROVED", reject: "REJECTED", request_info: "NEEDS_INFO" },
+  NEEDS_INFO: { edit: "PENDING", withdraw: "WITHDRAWN" },
+  APPROVED: { request_cancellation: "CANCEL_REQUESTED" },
+  CANCEL_REQUESTED: { approve_cancellation: "CANCELLED", reject_cancellation: "APPROVED" },
+  REJECTED: {},
+  WITHDRAWN: {},
+  CANCELLED: {}
+};
+var STATUS_LABELS = {
+  PENDING: "pending",
+  NEEDS_INFO: "waiting for more information",
+  APPROVED: "approved",
+  REJECTED: "rejected",
+  WITHDRAWN: "withdrawn",
+  CANCEL_REQUESTED: "awaiting a cancellation decision",
+  CANCELLED: "cancelled"
+};
+var ACTION_LABELS = {
+  edit: "edited",
+  withdraw: "withdrawn",
+  approve: "approved",
+  reject: "rejected",
+  request_info: "sent back for more information",
+  request_cancellation: "cancelled",
+  approve_cancellation: "cancelled",
+  reject_cancellation: "kept"
+};
+/** Blank status cells read as PENDING; DELETED is the old name for WITHDRAWN. */
+function normalizeStatus_(value) {
+  var status = String(value || "").trim().toUpperCase();
+  if (!status) return "PENDING";
+  return status === "DELETED" ? "WITHDRAWN" : status;
+}
+/** The status `action` leads to from `current`, or "" when the action is not allowed. */
+function nextStatus_(current, action) {
+  var allowed = LEAVE_TRANSITIONS[normalizeStatus_(current)];
+  return (allowed && allowed[action]) || "";
+}
+function statusLabel_(value) {
+  var status = normalizeStatus_(value);
+  return STATUS_LABELS[status] || status.toLowerCase();
+}
+function transitionFailure_(current, action, requestId) {
+  var hint = normalizeStatus_(current) === "APPROVED" && (action === "edit" || action === "withdraw")
+    ? " Request a cancellation instead."
+    : "";
+  return fail_(
+    "INVALID_TRANSITION",
+    "This request is " + statusLabel_(current) + " and cannot be " + ACTION_LABELS[action] + "." + hint,
+    requestId ? { requestId: requestId } : undefined
+  );
+}
+/** Rejections need a reason and requests for information need a question; returns "" when the comment will do. */
+function missingCommentMessage_(status, comment) {
+  if (String(comment || "").trim()) return "";
+  if (status === "REJECTED") return "Give the employee a reason for the rejection.";
+  if (status === "NEEDS_INFO") return "Say what information the employee should add.";
+  return "";
+}
+/** Open or approved requests hold their dates; rejected, withdrawn and cancelled ones free them up. */
+function holdsDates_(status) {
+  return ["PENDING", "NEEDS_INFO", "APPROVED", "CANCEL_REQUESTED"].indexOf(normalizeStatus_(status)) !== -1;
+}
+// --- LEAVE RULES ---
+// Server-side copies of the checks in services/leaveRules.ts; the client runs them first for feedback.
+/** Reads the Logs rows as plain objects with ISO dates (falling back to the legacy "start - end" Dates column). */
+function readLogRecords_(sheet, layout) {
+  var lastRow = sheet.getLastRow();
+  if (lastRow < 2) return [];
+  var values = sheet.getRange(2, 1, lastRow - 1, sheet.getLastColumn()).getValues();
+  function cell(row, key) {
+    return layout.columns[key] ? row[layout.columns[key] - 1] : "";
+  }
+  return values.map(function(row, i) {
+    var startDate = toIsoDate_(cell(row, "startDate"));
+    var endDate = toIsoDate_(cell(row, "endDate"));
+    if (!startDate && layout.columns.dates) {
+      var parts = String(cell(row, "dates") || "").split(" - ");
+      startDate = toIsoDate_(parts[0]);
+      endDate = toIsoDate_(parts[1]);
+    }
+    return {
+      rowIndex: i + 2,
+      requestId: String(cell(row, "requestId") || "").trim(),
+      type: String(cell(row, "type") || "request").toLowerCase(),
+      status: normalizeStatus_(cell(row, "status")),
+      employeeEmail: String(cell(row, "employeeEmail") || "").trim().toLowerCase(),
+      startDate: startDate,
+      endDate: endDate || startDate
+    };
+  });
+}
+/** First request of the same employee that still holds dates intersecting the candidate's, or null. */
+function findOverlappingRequest_(records, candidate) {
+  var email = String(candidate.employeeEmail || "").trim().toLowerCase();
+  var start = toIsoDate_(candidate.startDate);
+  var end = toIsoDate_(candidate.endDate) || start;
+  if (!email || !start) return null;
+  for (var i = 0; i < records.length; i++) {
+    var r = records[i];
+    if (r.employeeEmail !== email || r.type !== "request" || r.requestId === candidate.requestId) continue;
+    if (!holdsDates_(r.status)) continue;
+    if (r.startDate && start <= r.endDate && r.startDate <= end) return r;
+  }
+  return null;
+}
+function overlapFailure_(conflict) {
+  var range = conflict.startDate === conflict.endDate ? conflict.startDate : conflict.startDate + " - " + conflict.endDate;
+  return fail_(
+    "OVERLAP",
+    "These dates overlap your " + statusLabel_(conflict.status) + " request " + conflict.requestId +
+      " (" + range + "). Edit, withdraw or cancel that request first.",
+    { conflictRequestId: conflict.requestId }
+  );
+}
+// --- LEAVE POLICIES ---
+// Mirrors services/leavePolicy.ts: rules from the Policies sheet on top of DEFAULT_POLICIES. A row applies to its
+// leave type, or to every type when its Leave Type is "*"; blank cells leave a rule to the broader rows. The leave
+// form shows the same violations inline; here they refuse the write.
+var ANY_LEAVE_TYPE = "*";
+var DEFAULT_POLICIES = [
+  { leaveType: ANY_LEAVE_TYPE, maxBackdateDays: 0 },
+  { leaveType: "FN Permission", permissionOnly: true },
+  { leaveType: "AN Permission", permissionOnly: true },
+  { leaveType: "In Between Permission", permissionOnly: true }
+];
+function addIsoDays_(iso, days) {
+  var parts = iso.split("-");
+  var dt = new Date(Date.UTC(Number(parts[0]), Number(parts[1]) - 1, Number(parts[2]) + days));
+  return Utilities.formatDate(dt, "UTC", "yyyy-MM-dd");
+}
+function isoDaysBetween_(from, to) {
+  function utc(iso) {
+    var parts = iso.split("-");
+    return Date.UTC(Number(parts[0]), Number(parts[1]) - 1, Number(parts[2]));
+  }
+  return Math.round((utc(to) - utc(from)) / 86400000);
+}
+/** Reads the Policies sheet like parseLeavePolicies; blank or unreadable cells stay null. */
+function readPolicies_(ss) {
+  var schema = getSheetSchema_("Policies");
+  var sheet = ss.getSheetByName(schema.sheet);
+  if (!sheet || sheet.getLastRow() < 2) return [];
+  var layout = readHeader_(sheet, schema);
+  var values = sheet.getRange(2, 1, sheet.getLastRow() - 1, sheet.getLastColumn()).getValues();
+  function number(value) {
+    if (String(value).trim() === "") return null;
+    var n = Number(value);
+    return isFinite(n) && n >= 0 ? Math.floor(n) : null;
+  }
+  function flag(value) {
+    var v = String(value || "").trim().toLowerCase();
+    if (["yes", "y", "true", "1"].indexOf(v) !== -1) return true;
+    if (["no", "n", "false", "0"].indexOf(v) !== -1) return false;
+    return null;
+  }
+  function blackouts(value) {
+    if (value instanceof Date) return [{ startDate: toIsoDate_(value), endDate: toIsoDate_(value) }];
+    return String(value || "").split(/[,;\n]/).map(function(part) {
+      var bounds = part.split(/\.\.| to /i);
+      var startDate = toIsoDate_(bounds[0]);
+      var endDate = toIsoDate_(bounds[1]) || startDate;
+      return { startDate: startDate, endDate: endDate < startDate ? startDate : endDate };
+    }).filter(function(range) { return !!range.startDate; });
+  }
+  return values.map(function(row) {
+    function cell(key) { return layout.columns[key] ? row[layout.columns[key] - 1] : ""; }
+    return {
+      leaveType: String(cell("leaveType") || "").trim(),
+      minNoticeDays: number(cell("minNoticeDays")),
+      maxConsecutiveDays: number(cell("maxConsecutiveDays")),
+      maxBackdateDays: number(cell("maxBackdateDays")),
+      blackoutDates: blackouts(cell("blackoutDates")),
+      requiresAttachment: flag(cell("requiresAttachment")),
+      permissionOnly: flag(cell("permissionOnly"))
+    };
+  }).filter(function(p) { return !!p.leaveType; });
+}
+/** The rules in force for one leave type: "*" rows first, then the type's own rows; later non-blank values win. */
+function effectivePolicy_(records, leaveType) {
+  var wanted = String(leaveType || "").trim().toLowerCase();
+  var rows = DEFAULT_POLICIES.concat(records);
+  var applicable = rows.filter(function(r) { return r.leaveType === ANY_LEAVE_TYPE; }).concat(rows.filter(function(r) {
+    return r.leaveType !== ANY_LEAVE_TYPE && r.leaveType.toLowerCase() === wanted;
+  }));
+  var policy = { minNoticeDays: 0, maxConsecutiveDays: null, maxBackdateDays: 0, blackoutDates: [],
+    requiresAttachment: false, permissionOnly: false };
+  applicable.forEach(function(row) {
+    ["minNoticeDays", "maxConsecutiveDays", "maxBackdateDays", "requiresAttachment", "permissionOnly"].forEach(function(key) {
+      if (row[key] !== null && row[key] !== undefined) policy[key] = row[key];
+    });
+    policy.blackoutDates = policy.blackoutDates.concat(row.blackoutDates || []);
+  });
+  return policy;
+}
+/** Messages for every rule the request breaks; `previousStartDate` skips the notice checks on an unchanged edit. */
+// Mirrors MAX_SPAN_DAYS in services/workingDays.ts.
+var MAX_SPAN_DAYS = 366;
+function policyViolations_(records, data, previousStartDate) {
+  var policy = effectivePolicy_(records, data.leaveType);
+  var label = data.leaveType || "Leave";
+  var startDate = toIsoDate_(data.startDate);
+  var endDate = toIsoDate_(data.endDate) || startDate;
+  var attachment = String(data.attachmentUrl || "").trim();
+  var violations = [];
+  function days(n) { return n + " day" + (n === 1 ? "" : "s"); }
+  function daysNotice(n) { return n === 1 ? "1 day's notice" : n + " days' notice"; }
+  if (policy.permissionOnly && String(data.permissionType || "").trim().toLowerCase() !== "permission") {
+    violations.push(label + " can only be requested as a permission.");
+  }
+  if (startDate) {
+    var earliest = addIsoDays_(todayIso_(), policy.minNoticeDays > 0 ? policy.minNoticeDays : -policy.maxBackdateDays);
+    if (startDate < earliest && startDate !== previousStartDate) {
+      if (policy.minNoticeDays > 0) {
+        violations.push(label + " needs " + daysNotice(policy.minNoticeDays) + "; the earliest start date is " + earliest + ".");
+      } else if (policy.maxBackdateDays) {
+        violations.push(label + " can be back-dated by at most " + days(policy.maxBackdateDays) +
+          "; the earliest start date is " + earliest + ".");
+      } else {
+        violations.push(label + " cannot be back-dated.");
+      }
+    }
+    var length = isoDaysBetween_(startDate, endDate) + 1; // calendar days, unlike the working days debited
+    if (length > MAX_SPAN_DAYS) {
+      violations.push("A request can cover at most " + days(MAX_SPAN_DAYS) + "; this one covers " + days(length) +
+        ". Check the end date.");
+    }
+    if (policy.maxConsecutiveDays !== null && length > policy.maxConsecutiveDays) {
+      violations.push(label + " is limited to " + days(policy.maxConsecutiveDays) +
+        " in a row, weekends and holidays included; this request covers " + days(length) + ".");
+    }
+    for (var i = 0; i < policy.blackoutDates.length; i++) {
+      var b = policy.blackoutDates[i];
+      if (startDate <= b.endDate && b.startDate <= endDate) {
+        violations.push(label + " cannot be taken during the blackout " +
+          (b.startDate === b.endDate ? b.startDate : b.startDate + " - " + b.endDate) + ".");
+        break;
+      }
+    }
+  }
+  if (attachment ? !/^https?:\/\/\S+$/i.test(attachment) : policy.requiresAttachment) {
+    violations.push(attachment
+      ? "The supporting document must be a link starting with http:// or https://."
+      : label + " needs a supporting document; add a link to it.");
+  }
+  return violations;
+}
+function policyFailure_(violations, requestId) {
+  return fail_("POLICY_VIOLATION", violations.join(" "), requestId ? { requestId: requestId } : undefined);
+}
+// --- REPORTING LINES ---
+// Mirrors services/reportingLines.ts: approval mail goes to the employee's REPORTING_MANAGER, or to every
+// admin when the employeedetails sheet names none.
+var EMPLOYEE_SHEET = "employeedetails";
+/** Reads employeedetails as { email, name, role, reportingManager } objects, finding columns by header like the client. */
+function readDirectory_(ss) {
+  var sheet = ss.getSheetByName(EMPLOYEE_SHEET);
+  if (!sheet || sheet.getLastRow() < 2) return [];
+  var values = sheet.getDataRange().getValues();
+  var headers = values[0].map(function(h) { return String(h || "").trim().toLowerCase(); });
+  function findIdx(keys) {
+    for (var i = 0; i < keys.length; i++) {
+      var idx = headers.indexOf(keys[i]);
+      if (idx !== -1) return idx;
+    }
+    return -1;
+  }
+  var emailIdx = findIdx(["email", "email_id", "emailid"]);
+  var nameIdx = findIdx(["name", "emp_name", "employee_name"]);
+  var roleIdx = findIdx(["role"]);
+  var managerIdx = findIdx(["reporting_manager", "reporting manager", "reportingmanager", "manager_email"]);
+  if (emailIdx === -1) return [];
+  return values.slice(1).map(function(row) {
+    return {
+      email: String(row[emailIdx] || "").trim().toLowerCase(),
+      name: nameIdx === -1 ? "" : String(row[nameIdx] || "").trim(),
+      role: roleIdx === -1 ? "" : String(row[roleIdx] || "").trim().toLowerCase(),
+      reportingManager: managerIdx === -1 ? "" : String(row[managerIdx] || "").trim().toLowerCase()
+    };
+  }).filter(function(emp) { return !!emp.email; });
+}
+/** Email addresses behind an approver token; "admin" expands to every admin in the directory. */
+function approverAddresses_(directory, approver) {
+  if (approver !== "admin") return [approver];
+  return directory
+    .filter(function(emp) { return emp.role === "admin"; })
+    .map(function(emp) { return emp.email; });
+}
+// --- APPROVAL CHAINS ---
+// Mirrors services/approvalChain.ts. Each request stores its steps as JSON in the "Approval Steps" column;
+// the row stays PENDING until the last step approves or any step rejects.
+/** Approver tokens for a leave type from the ApprovalChains sheet; a single "manager" step by default. */
+function chainFor_(ss, leaveType) {
+  var schema = getSheetSchema_("ApprovalChains");
+  var sheet = ss.getSheetByName(schema.sheet);
+  var wanted = String(leaveType || "").trim().toLowerCase();
+  if (sheet && sheet.getLastRow() >= 2) {
+    var values = sheet.getDataRange().getValues();
+    var headers = values[0].map(normalizeHeader_);
+    var idx = {};
+    schema.columns.forEach(function(col) {
+      var names = [col.header].concat(col.aliases || []).map(normalizeHeader_);
+      idx[col.key] = headers.findIndex(function(h) { return names.indexOf(h) !== -1; });
+    });
+    for (var i = 1; i < values.length && idx.leaveType !== -1 && idx.approvers !== -1; i++) {
+      if (String(values[i][idx.leaveType] || "").trim().toLowerCase() !== wanted) continue;
+      var approvers = String(values[i][idx.approvers] || "").split(/[,;\n]/)
+        .map(function(a) { return a.trim().toLowerCase(); })
+        .filter(function(a) { return !!a; });
+      if (approvers.length) return approvers;
+    }
+  }
+  return ["manager"];
+}
+/** "manager" resolves to the employee's reporting manager, or "admin" when the directory names none. */
+function buildApprovalSteps_(directory, chain, employeeEmail) {
+  var email = String(employeeEmail || "").trim().toLowerCase();
+  var manager = "";
+  directory.forEach(function(emp) {
+    if (emp.email === email) manager = emp.reportingManager;
+  });
+  return chain.map(function(token, i) {
+    return { approver: token === "manager" ? manager || "admin" : token, status: i === 0 ? "PENDING" : "WAITING" };
+  });
+}
+function parseApprovalSteps_(value) {
+  try {
+    var parsed = JSON.parse(String(value || "") || "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (err) {
+    return [];
+  }
+}
+// --- DELEGATION ---
+// Mirrors services/delegation.ts: between its dates, a delegation lets the delegate decide the approvals
+// waiting on the delegator. Decisions made that way record the delegator in "On Behalf Of".
+function todayIso_() {
+  return Utilities.formatDate(new Date(), Session.getScriptTimeZone(), "yyyy-MM-dd");
+}
+function readDelegations_(ss) {
+  var schema = getSheetSchema_("Delegations");
+  var sheet = ss.getSheetByName(schema.sheet);
+  if (!sheet || sheet.getLastRow() < 2) return [];
+  var layout = readHeader_(sheet, schema);
+  var values = sheet.getRange(2, 1, sheet.getLastRow() - 1, sheet.getLastColumn()).getValues();
+  return values.map(function(row, i) {
+    function cell(key) { return layout.columns[key] ? row[layout.columns[key] - 1] : ""; }
+    return {
+      rowIndex: i + 2,
+      delegationId: String(cell("delegationId") || "").trim(),
+      delegatorEmail: String(cell("delegatorEmail") || "").trim().toLowerCase(),
+      delegateEmail: String(cell("delegateEmail") || "").trim().toLowerCase(),
+      startDate: toIsoDate_(cell("startDate")),
+      endDate: toIsoDate_(cell("endDate")) || toIsoDate_(cell("startDate")),
+      status: String(cell("status") || "").toUpperCase() === "REVOKED" ? "REVOKED" : "ACTIVE"
+    };
+  });
+}
+function isDelegationActive_(d, on) {
+  return d.status === "ACTIVE" && d.startDate <= on && on <= d.endDate;
+}
+/** Approver addresses plus whoever is standing in for them today, for approval mail. */
+function withDelegates_(delegations, addresses) {
+  var today = todayIso_();
+  var all = addresses.slice();
+  delegations.forEach(function(d) {
+    if (addresses.indexOf(d.delegatorEmail) !== -1 && isDelegationActive_(d, today) &&
+      all.indexOf(d.delegateEmail) === -1) {
+      all.push(d.delegateEmail);
+    }
+  });
+  return all;
+}
+var OWN_REQUEST_MESSAGE = "You cannot decide your own request.";
+/**
+ * Whether `decider` may decide a step waiting on `approvers`: as one of them, as the active delegate of one of
+ * them, or as an admin. Nobody decides their own request. Returns { allowed, onBehalfOf, ownRequest }.
+ */
+function decisionAuthority_(approvers, decider, requesterEmail, directory, delegations) {
+  if (decider === String(requesterEmail || "").trim().toLowerCase()) {
+    return { allowed: false, onBehalfOf: "", ownRequest: true };
+  }
+  if (approvers.indexOf(decider) !== -1) return { allowed: true, onBehalfOf: "" };
+  var today = todayIso_();
+  for (var i = 0; i < delegations.length; i++) {
+    var d = delegations[i];
+    if (d.delegateEmail === decider && approvers.indexOf(d.delegatorEmail) !== -1 && isDelegationActive_(d, today)) {
+      return { allowed: true, onBehalfOf: d.delegatorEmail };
+    }
+  }
+  var isAdmin = directory.some(function(emp) { return emp.email === decider && emp.role === "admin"; });
+  return { allowed: isAdmin, onBehalfOf: "" };
+}
+/** Returns an error message for an invalid delegation, or "" when it can be saved. */
+function validateDelegation_(params, directory, delegations) {
+  if (!params.delegatorEmail || !params.delegateEmail) return "Choose who should approve in your place.";
+  if (params.delegatorEmail === params.delegateEmail) return "You cannot delegate approvals to yourself.";
+  var target = directory.filter(function(emp) { return emp.email === params.delegateEmail; })[0];
+  if (!target || (target.role !== "manager" && target.role !== "admin")) {
+    return "Approvals can only be delegated to a manager or an admin.";
+  }
+  if (!params.startDate || !params.endDate) return "Choose the dates the delegation covers.";
+  if (params.endDate < params.startDate) return "The delegation ends before it starts.";
+  for (var i = 0; i < delegations.length; i++) {
+    var d = delegations[i];
+    if (d.delegatorEmail === params.delegatorEmail && d.status === "ACTIVE" &&
+      d.startDate <= params.endDate && params.startDate <= d.endDate) {
+      return "You already delegated " + d.startDate + " to " + d.endDate + " to " + d.delegateEmail + ". Revoke it first.";
+    }
+  }
+  return "";
+}
+function saveDelegation_(ss, data) {
+  var schema = getSheetSchema_("Delegations");
+  var sheet = ss.getSheetByName(schema.sheet) || ss.insertSheet(schema.sheet);
+  var layout = ensureHeader_(sheet, schema);
+  var params = {
+    delegatorEmail: String(data.delegatorEmail || "").trim().toLowerCase(),
+    delegateEmail: String(data.delegateEmail || "").trim().toLowerCase(),
+    startDate: toIsoDate_(data.startDate),
+    endDate: toIsoDate_(data.endDate) || toIsoDate_(data.startDate)
+  };
+  if (String(data.requestedBy || "").trim().toLowerCase() !== params.delegatorEmail) {
+    return fail_("NOT_OWNER", "You can only delegate your own approvals.");
+  }
+  var invalid = validateDelegation_(params, readDirectory_(ss), readDelegations_(ss));
+  if (invalid) return fail_("INVALID_DELEGATION", invalid);
+  var delegationId = "DLG-" + Math.random().toString(36).slice(2, 10).toUpperCase();
+  sheet.appendRow(buildRow_(layout, {
+    delegationId: delegationId,
+    delegatorEmail: params.delegatorEmail,
+    delegateEmail: params.delegateEmail,
+    startDate: params.startDate,
+    endDate: params.endDate,
+    status: "ACTIVE",
+    createdAt: new Date()
+  }));
+  var row = sheet.getLastRow();
+  formatDateCells_(sheet, row, layout);
+  MailApp.sendEmail(
+    params.delegateEmail,
+    "Approvals delegated to you",
+    params.delegatorEmail + " delegated their approvals to you from " + params.startDate + " to " +
+      params.endDate + ".\n\nReview them here:\n" + getWebAppUrl_()
+  );
+  return ok_({ delegationId: delegationId, row: row });
+}
+function revokeDelegation_(ss, data) {
+  var delegationId = String(data.delegationId || "").trim();
+  var schema = getSheetSchema_("Delegations");
+  var sheet = ss.getSheetByName(schema.sheet);
+  if (!sheet) return fail_("NOT_FOUND", "Delegation not found");
+  var layout = ensureHeader_(sheet, schema);
+  var match = readDelegations_(ss).filter(function(d) { return d.delegationId === delegationId; })[0];
+  if (!match) return fail_("NOT_FOUND", "Delegation not found");
+  if (match.delegatorEmail !== String(data.requestedBy || "").trim().toLowerCase()) {
+    return fail_("NOT_OWNER", "Only the manager who delegated their approvals can revoke it.");
+  }
+  setCell_(sheet, match.rowIndex, layout, "status", "REVOKED");
+  return ok_({ delegationId: delegationId, row: match.rowIndex });
+}
+// --- COMMENT TEMPLATES ---
+// Mirrors services/commentTemplates.ts: each manager's saved decision comments, one row per template.
+var MAX_TEMPLATE_LABEL = 40;
+function readCommentTemplates_(sheet, layout) {
+  if (sheet.getLastRow() < 2) return [];
+  var values = sheet.getRange(2, 1, sheet.getLastRow() - 1, sheet.getLastColumn()).getValues();
+  return values.map(function(row, i) {
+    function cell(key) { return String(row[layout.columns[key] - 1] || "").trim(); }
+    return { rowIndex: i + 2, templateId: cell("templateId"), ownerEmail: cell("ownerEmail").toLowerCase(), label: cell("label") };
+  });
+}
+/** Returns an error message for an invalid template, or "" when it can be saved. */
+function validateTemplate_(params, existing) {
+  if (!params.ownerEmail) return "Sign in to save templates.";
+  if (!params.label) return "Give the template a short name.";
+  if (params.label.length > MAX_TEMPLATE_LABEL) return "Keep the name under " + MAX_TEMPLATE_LABEL + " characters.";
+  if (!params.text) return "The template has no text.";
+  for (var i = 0; i < existing.length; i++) {
+    if (existing[i].ownerEmail === params.ownerEmail && existing[i].label.toLowerCase() === params.label.toLowerCase()) {
+      return "You already have a template called \"" + existing[i].label + "\".";
+    }
+  }
+  return "";
+}
+function saveCommentTemplate_(ss, data) {
+  var schema = getSheetSchema_("CommentTemplates");
+  var sheet = ss.getSheetByName(schema.sheet) || ss.insertSheet(schema.sheet);
+  var layout = ensureHeader_(sheet, schema);
+  var decision = String(data.decision || "").trim().toUpperCase();
+  var params = {
+    ownerEmail: String(data.ownerEmail || "").trim().toLowerCase(),
+    label: String(data.label || "").trim(),
+    decision: ["APPROVED", "REJECTED", "NEEDS_INFO"].indexOf(decision) !== -1 ? decision : "",
+    text: String(data.text || "").trim()
+  };
+  var invalid = validateTemplate_(params, readCommentTemplates_(sheet, layout));
+  if (invalid) return fail_("INVALID_TEMPLATE", invalid);
+  var templateId = "TPL-" + Math.random().toString(36).slice(2, 10).toUpperCase();
+  sheet.appendRow(buildRow_(layout, {
+    templateId: templateId,
+    ownerEmail: params.ownerEmail,
+    label: params.label,
+    decision: params.decision,
+    text: params.text,
+    createdAt: new Date()
+  }));
+  return ok_({ templateId: templateId, row: sheet.getLastRow() });
+}
+function deleteCommentTemplate_(ss, data) {
+  var templateId = String(data.templateId || "").trim();
+  var schema = getSheetSchema_("CommentTemplates");
+  var sheet = ss.getSheetByName(schema.sheet);
+  if (!sheet) return fail_("NOT_FOUND", "Template not found");
+  var layout = ensureHeader_(sheet, schema);
+  var match = readCommentTemplates_(sheet, layout).filter(function(t) { return t.templateId === templateId; })[0];
+  if (!match) return fail_("NOT_FOUND", "Template not found");
+  if (match.ownerEmail !== String(data.ownerEmail || "").trim().toLowerCase()) {
+    return fail_("NOT_OWNER", "Only the manager who saved a template can delete it.");
+  }
+  sheet.deleteRow(match.rowIndex);
+  return ok_({ templateId: templateId });
+}
+// --- CANCELLATIONS ---
+// Mirrors the cancellation rules in services/leaveRules.ts and services/approvalChain.ts. Approved leave is
+// not withdrawn: the employee asks for a cancellation (CANCEL_REQUESTED), and the approver who gave the final
+// approval either accepts it (CANCELLED, days back in the balance) or keeps the leave (APPROVED).
+/** Who decides a cancellation: the final approver (or the approver a delegate stood in for), else the reporting manager. */
+function cancellationApprovers_(directory, sheet, rowIndex, layout) {
+  var approver = String(getCell_(sheet, rowIndex, layout, "onBehalfOf") || getCell_(sheet, rowIndex, layout, "decidedBy") || "")
+    .trim().toLowerCase();
+  if (approver) return approverAddresses_(directory, approver);
+  var employee = String(getCell_(sheet, rowIndex, layout, "employeeEmail") || "").trim().toLowerCase();
+  var manager = directory.filter(function(emp) { return emp.email === employee; }).map(function(emp) {
+    return emp.reportingManager;
+  })[0];
+  return manager ? [manager] : approverAddresses_(directory, "admin");
+}
+/** Employees only change their own requests; `claimedEmail` is who the client says is asking. */
+function ownerFailure_(sheet, layout, rowIndex, claimedEmail, requestId) {
+  var claimed = String(claimedEmail || "").trim().toLowerCase();
+  var owner = String(getCell_(sheet, rowIndex, layout, "employeeEmail") || "").trim().toLowerCase();
+  if (claimed && claimed === owner) return null;
+  return fail_("NOT_OWNER", "You can only change your own requests.", { requestId: requestId });
+}
+function requestCancellation_(ss, sheet, layout, data) {
+  var requestId = String(data.requestId || "").trim();
+  if (!requestId) {
+    return fail_("MISSING_REQUEST_ID", "Missing requestId");
+  }
+  var rowIndex = findLogRowByRequestId_(sheet, layout, requestId);
+  if (rowIndex === -1) {
+    return fail_("NOT_FOUND", "Request ID not found", { requestId: requestId });
+  }
+  var notOwner = ownerFailure_(sheet, layout, rowIndex, data.requestedBy, requestId);
+  if (notOwner) return notOwner;
+  var status = getCell_(sheet, rowIndex, layout, "status");
+  if (!nextStatus_(status, "request_cancellation")) {
+    return transitionFailure_(status, "request_cancellation", requestId);
+  }
+  var lastDay = toIsoDate_(getCell_(sheet, rowIndex, layout, "endDate")) ||
+    toIsoDate_(getCell_(sheet, rowIndex, layout, "startDate"));
+  if (lastDay < todayIso_()) {
+    return fail_("NOT_CANCELLABLE", "This leave has already been taken.", { requestId: requestId });
+  }
+  var reason = String(data.cancellationReason || "").trim();
+  if (!reason) {
+    return fail_("MISSING_REASON", "Give a reason for the cancellation.", { requestId: requestId });
+  }
+  setCell_(sheet, rowIndex, layout, "status", nextStatus_(status, "request_cancellation"));
+  setCell_(sheet, rowIndex, layout, "cancellationReason", reason);
+  startAwaiting_(sheet, rowIndex, layout);
+  var approvers = withDelegates_(readDelegations_(ss), cancellationApprovers_(readDirectory_(ss), sheet, rowIndex, layout));
+  if (approvers.length) {
+    var employeeName = getCell_(sheet, rowIndex, layout, "employeeName");
+    MailApp.sendEmail(
+      approvers.join(","),
+      "Leave cancellation requested by " + employeeName,
+      employeeName + " asked to cancel approved leave.\n\nReason: " + reason + "\n\nReview here:\n" +
+        reviewUrl_(requestId)
+    );
+  }
+  return ok_({ requestId: requestId, row: rowIndex });
+}
+/** Accepts (APPROVED) or declines (REJECTED) a cancellation. Returns a failure result, or null on success. */
+function decideCancellation_(ss, sheet, layout, rowIndex, requestId, status, comment, decidedBy) {
+  var decider = String(decidedBy || "").trim().toLowerCase();
+  var onBehalfOf = "";
+  if (decider) {
+    var directory = readDirectory_(ss);
+    var approvers = cancellationApprovers_(directory, sheet, rowIndex, layout);
+    var authority = decisionAuthority_(approvers, decider, getCell_(sheet, rowIndex, layout, "employeeEmail"), directory,
+      readDelegations_(ss));
+    if (authority.ownRequest) return fail_("NOT_AUTHORIZED", OWN_REQUEST_MESSAGE, { requestId: requestId });
+    if (!authority.allowed) {
+      return fail_("NOT_APPROVER", "This cancellation is awaiting " + approvers.join(", ") + ".", { requestId: requestId });
+    }
+    onBehalfOf = authority.onBehalfOf;
+  }
+  var cancelled = status === "APPROVED";
+  setCell_(sheet, rowIndex, layout, "status", nextStatus_(getCell_(sheet, rowIndex, layout, "status"),
+    cancelled ? "approve_cancellation" : "reject_cancellation"));
+  setCell_(sheet, rowIndex, layout, "managerComment", comment);
+  if (cancelled) setCell_(sheet, rowIndex, layout, "managerAction", "CANCEL");
+  setCell_(sheet, rowIndex, layout, "decidedBy", decider);
+  setCell_(sheet, rowIndex, layout, "onBehalfOf", onBehalfOf);
+  var employeeEmail = getCell_(sheet, rowIndex, layout, "employeeEmail");
+  if (employeeEmail) {
+    MailApp.sendEmail(
+      employeeEmail,
+      "Your leave cancellation (" + requestId + ") has been " + (cancelled ? "approved" : "declined"),
+      cancelled
+        ? "Your leave has been cancelled and the days returned to your balance."
+        : "Your cancellation was declined; the leave stays approved."
+    );
+  }
+  return null;
+}
+/** Sends a request back to the employee. The current step stays PENDING; the employee's edit restarts the chain. */
+function requestInfo_(sheet, layout, rowIndex, requestId, comment, decider, onBehalfOf) {
+  setCell_(sheet, rowIndex, layout, "status", nextStatus_(getCell_(sheet, rowIndex, layout, "status"), "request_info"));
+  setCell_(sheet, rowIndex, layout, "managerComment", comment);
+  setCell_(sheet, rowIndex, layout, "decidedBy", decider);
+  setCell_(sheet, rowIndex, layout, "onBehalfOf", onBehalfOf);
+  var employeeEmail = getCell_(sheet, rowIndex, layout, "employeeEmail");
+  if (employeeEmail) {
+    MailApp.sendEmail(
+      employeeEmail,
+      "More information needed for your leave request (" + requestId + ")",
+      comment + "\n\nEdit the request to send it back for approval."
+    );
+  }
+  return null;
+}
+/**
+ * Records an approve/reject decision on a Logs row. Rows with approval steps advance one step and mail the
+ * next approver; the employee is mailed only once the request is fully decided. NEEDS_INFO sends the request
+ * back to the employee without deciding the step. `decidedBy` is empty for emailed links, which only reach
+ * single-step requests. Returns a failure result, or null on success.
+ */
+function decideRequest_(ss, sheet, layout, rowIndex, requestId, status, comment, decidedBy, alternateNote) {
+  var currentStatus = getCell_(sheet, rowIndex, layout, "status");
+  if (normalizeStatus_(currentStatus) === "CANCEL_REQUESTED" && status !== "NEEDS_INFO") {
+    return decideCancellation_(ss, sheet, layout, rowIndex, requestId, status, comment, decidedBy);
+  }
+  var action = status === "APPROVED" ? "approve" : status === "NEEDS_INFO" ? "request_info" : "reject";
+  if (!nextStatus_(currentStatus, action)) {
+    return transitionFailure_(currentStatus, action, requestId);
+  }
+  var decider = String(decidedBy || "").trim().toLowerCase();
+  // Emailed reject links cannot carry a reason; decisions made in the app must explain a rejection.
+  var missingComment = missingCommentMessage_(status, comment);
+  if (missingComment && (decider || status === "NEEDS_INFO")) {
+    return fail_("MISSING_COMMENT", missingComment, { requestId: requestId });
+  }
+  var steps = layout.columns.approvalSteps
+    ? parseApprovalSteps_(getCell_(sheet, rowIndex, layout, "approvalSteps"))
+    : [];
+  var directory = readDirectory_(ss);
+  var delegations = readDelegations_(ss);
+  var onBehalfOf = "";
+  if (steps.length) {
+    var idx = -1;
+    for (var i = 0; i < steps.length; i++) {
+      if (steps[i].status === "PENDING") { idx = i; break; }
+    }
+    if (idx === -1) {
+      return fail_("NOT_PENDING", "This request is not awaiting a decision.", { requestId: requestId });
+    }
+    if (decider) {
+      var authority = decisionAuthority_(approverAddresses_(directory, steps[idx].approver), decider,
+        getCell_(sheet, rowIndex, layout, "employeeEmail"), directory, delegations);
+      if (authority.ownRequest) return fail_("NOT_AUTHORIZED", OWN_REQUEST_MESSAGE, { requestId: requestId });
+      if (!authority.allowed) {
+        return fail_("NOT_APPROVER", "Step " + (idx + 1) + " of this request is awaiting " + steps[idx].approver + ".",
+          { requestId: requestId });
+      }
+      onBehalfOf = authority.onBehalfOf;
+    }
+    if (status === "NEEDS_INFO") {
+      return requestInfo_(sheet, layout, rowIndex, requestId, comment, decider, onBehalfOf);
+    }
+    steps[idx].status = status;
+    steps[idx].decidedBy = decider;
+    steps[idx].decidedAt = new Date().toISOString();
+    steps[idx].comment = comment;
+    if (onBehalfOf) steps[idx].onBehalfOf = onBehalfOf;
+    setCell_(sheet, rowIndex, layout, "decidedBy", decider);
+    setCell_(sheet, rowIndex, layout, "onBehalfOf", onBehalfOf);
+    if (status === "APPROVED" && idx < steps.length - 1) {
+      steps[idx + 1].status = "PENDING";
+      setCell_(sheet, rowIndex, layout, "approvalSteps", JSON.stringify(steps));
+      startAwaiting_(sheet, rowIndex, layout);
+      var next = withDelegates_(delegations, approverAddresses_(directory, steps[idx + 1].approver));
+      if (next.length) {
+        MailApp.sendEmail(
+          next.join(","),
+          "Leave request from " + getCell_(sheet, rowIndex, layout, "employeeName") + " awaiting your approval",
+          "Step " + (idx + 2) + " of " + steps.length + ": step " + (idx + 1) + " was approved.\n\nReview here:\n" +
+            reviewUrl_(requestId)
+        );
+      }
+      return null;
+    }
+    setCell_(sheet, rowIndex, layout, "approvalSteps", JSON.stringify(steps));
+  } else if (decider) {
+    // Rows from before approval chains wait on the employee's reporting manager (or the admins).
+    var employee = String(getCell_(sheet, rowIndex, layout, "employeeEmail") || "").trim().toLowerCase();
+    var manager = directory.filter(function(emp) { return emp.email === employee; }).map(function(emp) {
+      return emp.reportingManager;
+    })[0];
+    var legacyApprovers = manager ? [manager] : approverAddresses_(directory, "admin");
+    var legacyAuthority = decisionAuthority_(legacyApprovers, decider, employee, directory, delegations);
+    if (legacyAuthority.ownRequest) return fail_("NOT_AUTHORIZED", OWN_REQUEST_MESSAGE, { requestId: requestId });
+    if (!legacyAuthority.allowed) {
+      return fail_("NOT_APPROVER", "This request is awaiting " + legacyApprovers.join(", ") + ".", { requestId: requestId });
+    }
+    onBehalfOf = legacyAuthority.onBehalfOf;
+    setCell_(sheet, rowIndex, layout, "decidedBy", decider);
+    setCell_(sheet, rowIndex, layout, "onBehalfOf", onBehalfOf);
+  }
+  if (status === "NEEDS_INFO") {
+    return requestInfo_(sheet, layout, rowIndex, requestId, comment, decider, onBehalfOf);
+  }
+  setCell_(sheet, rowIndex, layout, "status", status);
+  setCell_(sheet, rowIndex, layout, "managerComment", comment);
+  setCell_(sheet, rowIndex, layout, "managerAction", status === "APPROVED" ? "APPROVE" : "DENY");
+  var employeeEmail = getCell_(sheet, rowIndex, layout, "employeeEmail");
+  if (employeeEmail) {
+    var finalAction = status === "APPROVED" ? "approved" : "rejected";
+    MailApp.sendEmail(
+      employeeEmail,
+      "Your leave request (" + requestId + ") has been " + finalAction,
+      "Your leave request was " + finalAction + ".\n\nStatus: " + status
+    );
+  }
+  var alternateEmail = String(getCell_(sheet, rowIndex, layout, "alternateEmail") || "").trim().toLowerCase() ||
+    alternateEmailFor_(directory, { alternateStaff: getCell_(sheet, rowIndex, layout, "alternateStaff") });
+  if (status === "APPROVED" && alternateNote && alternateEmail) {
+    sendAlternateNote_(alternateEmail, getCell_(sheet, rowIndex, layout, "employeeName"),
+      getCell_(sheet, rowIndex, layout, "startDate"), getCell_(sheet, rowIndex, layout, "endDate"), alternateNote, requestId);
+  }
+  return null;
+}
+// --- ALTERNATE COVERAGE ---
+// Mirrors services/coverage.ts: the nominated alternate is mailed and accepts or declines in the app.
+/** Email of the nominated alternate: the one the client resolved, else looked up by name in the directory. */
+function alternateEmailFor_(directory, data) {
+  var email = String(data.alternateEmail || "").trim().toLowerCase();
+  var value = String(data.alternateStaff || "").trim().toLowerCase();
+  if (email || !value) return email;
+  var byEmail = directory.filter(function(emp) { return emp.email === value; })[0];
+  var byName = directory.filter(function(emp) { return emp.name.toLowerCase() === value; })[0];
+  return (byEmail || byName || { email: "" }).email;
+}
+/** Refuses an alternate who is on overlapping pending or approved leave themselves; null when they are free. */
+function alternateConflict_(records, alternateEmail, data) {
+  if (!alternateEmail) return null;
+  var conflict = findOverlappingRequest_(records, {
+    employeeEmail: alternateEmail,
+    startDate: data.startDate,
+    endDate: data.endDate
+  });
+  if (!conflict) return null;
+  var range = conflict.startDate === conflict.endDate ? conflict.startDate : conflict.startDate + " - " + conflict.endDate;
+  return fail_(
+    "ALTERNATE_UNAVAILABLE",
+    (data.alternateStaff || alternateEmail) + " is on leave " + range + " (" + statusLabel_(conflict.status) +
+      ") and cannot cover these dates. Choose another alternate."
+  );
+}
+function notifyAlternate_(to, employeeName, startDate, endDate, requestId) {
+  var start = toIsoDate_(startDate);
+  var end = toIsoDate_(endDate) || start;
+  MailApp.sendEmail(
+    to,
+    employeeName + " asked you to cover their leave",
+    employeeName + " named you as alternate staff for " + (start === end ? start : start + " - " + end) +
+      ".\n\nAccept or decline under Alternate coverage requests:\n" + getWebAppUrl_() + "\n\nRequest ID: " + requestId
+  );
+}
+/** The approver's handover note, sent to the alternate once the leave is fully approved. */
+function sendAlternateNote_(to, employeeName, startDate, endDate, note, requestId) {
+  var start = toIsoDate_(startDate);
+  var end = toIsoDate_(endDate) || start;
+  MailApp.sendEmail(
+    to,
+    "Handover note for " + employeeName + "'s leave",
+    employeeName + "'s leave for " + (start === end ? start : start + " - " + end) +
+      " is approved. A note from the approver:\n\n" + note + "\n\nRequest ID: " + requestId
+  );
+}
+function respondToCoverage_(ss, sheet, layout, data) {
+  var requestId = String(data.requestId || "").trim();
+  if (!requestId) {
+    return fail_("MISSING_REQUEST_ID", "Missing requestId");
+  }
+  var rowIndex = findLogRowByRequestId_(sheet, layout, requestId);
+  if (rowIndex === -1) {
+    return fail_("NOT_FOUND", "Request ID not found", { requestId: requestId });
+  }
+  var alternate = String(getCell_(sheet, rowIndex, layout, "alternateEmail") || "").trim().toLowerCase();
+  var response = String(data.response || "").toUpperCase();
+  var invalid = "";
+  if (!alternate) invalid = "This request does not name an alternate.";
+  else if (String(data.responderEmail || "").trim().toLowerCase() !== alternate) {
+    invalid = "Only the nominated alternate can answer this coverage request.";
+  } else if (!holdsDates_(getCell_(sheet, rowIndex, layout, "status"))) invalid = "This request is no longer active.";
+  else if (response !== "ACCEPTED" && response !== "DECLINED") invalid = "Answer with accept or decline.";
+  if (invalid) return fail_("INVALID_COVERAGE", invalid, { requestId: requestId });
+  var note = String(data.note || "").trim();
+  setCell_(sheet, rowIndex, layout, "coverageStatus", response);
+  setCell_(sheet, rowIndex, layout, "coverageNote", note);
+  var employeeEmail = getCell_(sheet, rowIndex, layout, "employeeEmail");
+  if (employeeEmail) {
+    var accepted = response === "ACCEPTED";
+    MailApp.sendEmail(
+      employeeEmail,
+      getCell_(sheet, rowIndex, layout, "alternateStaff") + " " + (accepted ? "accepted" : "declined") +
+        " covering your leave (" + requestId + ")",
+      accepted
+        ? "Your alternate confirmed they will cover for you."
+        : "Your alternate cannot cover for you" + (note ? ": " + note : ".") + "\n\nEdit the request to name someone else."
+    );
+  }
+  return ok_({ requestId: requestId, row: rowIndex });
+}
+// --- REVISIONS ---
+// Mirrors services/revisions.ts: every edit that changes a request appends one Revisions row per changed field.
+var REVISED_FIELDS = ["startDate", "endDate", "permissionType", "leaveType", "requestedInTime", "requestedOutTime",
+  "alternateStaff", "reason", "attachmentUrl"];
+function revisionValue_(key, value) {
+  return key === "startDate" || key === "endDate" ? toIsoDate_(value) : String(value === undefined || value === null ? "" : value).trim();
+}
+/** Appends the fields `edited` changes on the Logs row as the request's next revision. */
+function recordRevision_(ss, sheet, layout, rowIndex, requestId, edited, editedBy) {
+  var changes = REVISED_FIELDS.filter(function(key) {
+    return revisionValue_(key, getCell_(sheet, rowIndex, layout, key)) !== revisionValue_(key, edited[key]);
+  });
+  if (!changes.length) return;
+  var schema = getSheetSchema_("Revisions");
+  var revisionSheet = ss.getSheetByName(schema.sheet) || ss.insertSheet(schema.sheet);
+  var revisionLayout = ensureHeader_(revisionSheet, schema);
+  var revision = 1;
+  var lastRow = revisionSheet.getLastRow();
+  if (lastRow > 1) {
+    var values = revisionSheet.getRange(2, 1, lastRow - 1, revisionSheet.getLastColumn()).getValues();
+    values.forEach(function(row) {
+      if (String(row[revisionLayout.columns.requestId - 1] || "").trim() === requestId) {
+        revision = Math.max(revision, (Number(row[revisionLayout.columns.revision - 1]) || 1) + 1);
+      }
+    });
+  }
+  var timestamp = new Date();
+  changes.forEach(function(key) {
+    revisionSheet.appendRow(buildRow_(revisionLayout, {
+      timestamp: timestamp,
+      requestId: requestId,
+      revision: revision,
+      editedBy: String(editedBy || "").trim().toLowerCase(),
+      field: key,
+      before: revisionValue_(key, getCell_(sheet, rowIndex, layout, key)),
+      after: revisionValue_(key, edited[key])
+    }));
+  });
+}
+// --- SLA REMINDERS ---
+// Mirrors services/sla.ts. "Awaiting Since" records when a request started waiting on its current approver;
+// sendSlaReminders, run hourly by the trigger installSlaTrigger() creates, reminds that approver once and later
+// escalates once. Thresholds come from the SLA_REMIND_AFTER_HOURS (24), SLA_ESCALATE_AFTER_HOURS (72) and
+// SLA_STARTS_SOON_DAYS (3) script properties.
+function slaSettings_() {
+  var props = PropertiesService.getScriptProperties();
+  function positive(key, fallback) {
+    var n = Number(props.getProperty(key));
+    return isFinite(n) && n > 0 ? n : fallback;
+  }
+  return {
+    remindAfterHours: positive("SLA_REMIND_AFTER_HOURS", 24),
+    escalateAfterHours: positive("SLA_ESCALATE_AFTER_HOURS", 72),
+    startsSoonDays: Math.round(positive("SLA_STARTS_SOON_DAYS", 3))
+  };
+}
+/** Starts the SLA clock for a request now waiting on a (new) approver. */
+function startAwaiting_(sheet, rowIndex, layout) {
+  setCell_(sheet, rowIndex, layout, "awaitingSince", new Date().toISOString());
+  setCell_(sheet, rowIndex, layout, "remindedAt", "");
+  setCell_(sheet, rowIndex, layout, "escalatedAt", "");
+}
+/** Who a PENDING or CANCEL_REQUESTED row is waiting on; empty for every other status. */
+function awaitingApprovers_(directory, sheet, rowIndex, layout, status) {
+  if (status === "CANCEL_REQUESTED") return cancellationApprovers_(directory, sheet, rowIndex, layout);
+  if (status !== "PENDING") return [];
+  var steps = parseApprovalSteps_(getCell_(sheet, rowIndex, layout, "approvalSteps"));
+  if (steps.length) {
+    var step = steps.filter(function(s) { return s.status === "PENDING"; })[0];
+    return step ? approverAddresses_(directory, step.approver) : [];
+  }
+  var employee = String(getCell_(sheet, rowIndex, layout, "employeeEmail") || "").trim().toLowerCase();
+  var manager = directory.filter(function(emp) { return emp.email === employee; }).map(function(emp) {
+    return emp.reportingManager;
+  })[0];
+  return manager ? [manager] : approverAddresses_(directory, "admin");
+}
+/** Milliseconds timestamp the row started waiting: Awaiting Since, else the previous step's decision, else submission. */
+function awaitingSince_(sheet, rowIndex, layout) {
+  function time(value) {
+    if (value instanceof Date) return value.getTime();
+    return value ? Date.parse(String(value)) : NaN;
+  }
+  var since = time(getCell_(sheet, rowIndex, layout, "awaitingSince"));
+  if (!isNaN(since)) return since;
+  var steps = parseApprovalSteps_(getCell_(sheet, rowIndex, layout, "approvalSteps"));
+  for (var i = 1; i < steps.length; i++) {
+    if (steps[i].status === "PENDING" && steps[i - 1].decidedAt) return time(steps[i - 1].decidedAt);
+  }
+  return time(getCell_(sheet, rowIndex, layout, "timestamp"));
+}
+/** The approvers' own reporting managers, or the admins when none has one. */
+function escalationTargets_(approvers, directory) {
+  var targets = [];
+  approvers.forEach(function(a) {
+    directory.forEach(function(emp) {
+      var m = emp.email === a ? emp.reportingManager : "";
+      if (m && approvers.indexOf(m) === -1 && targets.indexOf(m) === -1) targets.push(m);
+    });
+  });
+  if (targets.length) return targets;
+  return directory
+    .filter(function(emp) { return emp.role === "admin" && approvers.indexOf(emp.email) === -1; })
+    .map(function(emp) { return emp.email; });
+}
+function formatWaiting_(hours) {
+  if (hours < 1) return Math.floor(hours * 60) + "m";
+  if (hours < 24) return Math.floor(hours) + "h";
+  var days = Math.floor(hours / 24);
+  var rest = Math.floor(hours - days * 24);
+  return rest ? days + "d " + rest + "h" : days + "d";
+}
+/**
+ * Time-driven job. Approvers of requests that have waited past the reminder threshold, or whose leave starts
+ * within SLA_STARTS_SOON_DAYS, are reminded once; requests still undecided past the escalation threshold are
+ * then escalated once. Reminded At / Escalated At record what was sent and are cleared when the request moves on.
+ */
+function sendSlaReminders() {
+  var ss = SpreadsheetApp.getActive();
+  var schema = getSheetSchema_("Logs");
+  var sheet = ss.getSheetByName(schema.sheet);
+  if (!sheet || sheet.getLastRow() < 2) return;
+  var layout = ensureHeader_(sheet, schema);
+  var settings = slaSettings_();
+  var directory = readDirectory_(ss);
+  var delegations = readDelegations_(ss);
+  var now = new Date();
+  var soon = Utilities.formatDate(new Date(now.getTime() + settings.startsSoonDays * 86400000),
+    Session.getScriptTimeZone(), "yyyy-MM-dd");
+  readLogRecords_(sheet, layout).forEach(function(record) {
+    if (record.type !== "request") return;
+    var rowIndex = record.rowIndex;
+    var approvers = awaitingApprovers_(directory, sheet, rowIndex, layout, record.status);
+    if (!approvers.length) return;
+    var since = awaitingSince_(sheet, rowIndex, layout);
+    var hours = isNaN(since) ? 0 : Math.max(0, (now.getTime() - since) / 3600000);
+    var startsSoon = !!record.startDate && record.startDate <= soon;
+    var reminded = !!getCell_(sheet, rowIndex, layout, "remindedAt");
+    var escalated = !!getCell_(sheet, rowIndex, layout, "escalatedAt");
+    var name = getCell_(sheet, rowIndex, layout, "employeeName") || record.employeeEmail;
+    var range = record.startDate === record.endDate ? record.startDate : record.startDate + " - " + record.endDate;
+    var what = name + "'s " + (record.status === "CANCEL_REQUESTED" ? "cancellation request" : "leave request") +
+      " for " + range;
+    if (!reminded) {
+      if (hours < settings.remindAfterHours && !startsSoon) return;
+      var to = withDelegates_(delegations, approvers);
+      if (to.length) {
+        MailApp.sendEmail(
+          to.join(","),
+          "Reminder: leave request from " + name + " awaiting your decision",
+          what + " has waited " + formatWaiting_(hours) + " for your decision." +
+            (startsSoon ? " The leave starts on " + record.startDate + "." : "") + "\n\nReview here:\n" +
+            reviewUrl_(record.requestId)
+        );
+      }
+      setCell_(sheet, rowIndex, layout, "remindedAt", now.toISOString());
+      return;
+    }
+    if (escalated || hours < settings.escalateAfterHours) return;
+    var waitingOn = approvers.map(function(a) {
+      var emp = directory.filter(function(e) { return e.email === a; })[0];
+      return (emp && emp.name) || a;
+    }).join(", ");
+    var targets = escalationTargets_(approvers, directory);
+    if (targets.length) {
+      MailApp.sendEmail(
+        targets.join(","),
+        "Overdue leave request from " + name,
+        what + " has waited " + formatWaiting_(hours) + " on " + waitingOn + " without a decision. Please follow up." +
+          "\n\nReview here:\n" + reviewUrl_(record.requestId)
+      );
+    }
+    setCell_(sheet, rowIndex, layout, "escalatedAt", now.toISOString());
+  });
+}
+/** Run once from the Apps Script editor: schedules sendSlaReminders every hour, replacing an earlier schedule. */
+function installSlaTrigger() {
+  ScriptApp.getProjectTriggers().forEach(function(trigger) {
+    if (trigger.getHandlerFunction() === "sendSlaReminders") ScriptApp.deleteTrigger(trigger);
+  });
+  ScriptApp.newTrigger("sendSlaReminders").timeBased().everyHours(1).create();
+}
 // --- MAIN HANDLERS ---
 function doPost(e) {
   if (!e || !e.postData || !e.postData.contents) {
-    return withCors_(
-      ContentService.createTextOutput(
-        "Error: No POST data received."
-      ).setMimeType(ContentService.MimeType.TEXT)
-    );
+    return jsonResponse_(fail_("BAD_REQUEST", "No POST data received."));
   }
+  var data;
   try {
-    var data = JSON.parse(e.postData.contents);
-    var ss = SpreadsheetApp.getActive();
-    var payloadType = (data.type || "request").toString().toLowerCase();
-    // --- TASK SUBMISSION ---
-    if (payloadType === "task") {
-      var taskLogSheet = ss.getSheetByName("TaskLogs");
-      logTaskEntry_(ss, data);
-      return withCors_(
-        ContentService.createTextOutput("OK").setMimeType(ContentService.MimeType.TEXT)
-      );
+    data = JSON.parse(e.postData.contents);
+  } catch (parseErr) {
+    return jsonResponse_(fail_("BAD_REQUEST", "POST body is not valid JSON."));
+  }
+  // Offline clients replay queued writes; a repeated clientRequestId gets the original acknowledgement
+  // instead of appending a duplicate row.
+  var cache = CacheService.getScriptCache();
+  var ackKey = data.clientRequestId ? "ack:" + String(data.clientRequestId) : "";
+  if (ackKey) {
+    var prior = cache.get(ackKey);
+    if (prior) return jsonResponse_(JSON.parse(prior));
+  }
+  var result;
+  try {
+    result = handlePost_(data);
+  } catch (err) {
+    result = fail_("SERVER_ERROR", err.toString());
+  }
+  if (ackKey && result.ok) {
+    cache.put(ackKey, JSON.stringify(result), 21600); // 6 hours, the CacheService maximum
+  }
+  return jsonResponse_(result);
+}
+function handlePost_(data) {
+  var ss = SpreadsheetApp.getActive();
+  var payloadType = (data.type || "request").toString().toLowerCase();
+  // --- TASK SUBMISSION ---
+  if (payloadType === "task") {
+    var taskRow = logTaskEntry_(ss, data);
+    return ok_({ row: taskRow });
+  }
+  // --- LEAVE MANAGER LOGIC ---
+  var logSchema = getSheetSchema_("Logs");
+  var logSheet = ss.getSheetByName(logSchema.sheet);
+  var layout = ensureHeader_(logSheet, logSchema);
+  if (payloadType === "decision") {
+    var requested = String(data.status || "").toUpperCase();
+    var status = requested === "APPROVED" || requested === "NEEDS_INFO" ? requested : "REJECTED";
+    // Only the emailed links (doGet) decide without naming the decider.
+    var approverEmail = String(data.approverEmail || "").trim().toLowerCase();
+    if (!approverEmail) {
+      return fail_("NOT_AUTHORIZED", "Sign in as an approver to decide requests.");
     }
-    // --- LEAVE MANAGER LOGIC ---
-    var logSheet = ss.getSheetByName("Logs");
-    ensureLogHeader_(logSheet);
-    if (payloadType === "decision") {
-      var requestId = String(data.requestId || data.rid || "").trim();
+    var decide = function(requestId) {
       if (!requestId) {
-        return withCors_(
-          ContentService.createTextOutput("Error: Missing requestId").setMimeType(ContentService.MimeType.TEXT)
-        );
+        return fail_("MISSING_REQUEST_ID", "Missing requestId");
       }
-      var rowIndex = findLogRowByRequestId_(logSheet, requestId);
+      var rowIndex = findLogRowByRequestId_(logSheet, layout, requestId);
       if (rowIndex === -1) {
-        return withCors_(
-          ContentService.createTextOutput("Error: Request ID not found").setMimeType(ContentService.MimeType.TEXT)
-        );
+        return fail_("NOT_FOUND", "Request ID not found", { requestId: requestId });
       }
-      var row = logSheet.getRange(rowIndex, 1, 1, 15).getValues()[0];
-      var status = String(data.status || "").toUpperCase() || "PENDING";
-      var managerComment = String(data.managerComment || "").trim();
-      var managerAction = status === "APPROVED" ? "APPROVE" : status === "REJECTED" ? "DENY" : "";
-      logSheet.getRange(rowIndex, 4).setValue(status);
-      logSheet.getRange(rowIndex, 10).setValue(managerComment);
-      logSheet.getRange(rowIndex, 11).setValue(managerAction);
-      if (row[5]) {
-        var finalAction = status === "APPROVED" ? "approved" : "rejected";
-        MailApp.sendEmail(
-          row[5],
-          "Your leave request (" + requestId + ") has been " + finalAction,
-          "Your leave request was " + finalAction + ".\n\nStatus: " + status
-        );
+      var decisionFailure = decideRequest_(ss, logSheet, layout, rowIndex, requestId, status,
+        String(data.managerComment || "").trim(), approverEmail, String(data.alternateNote || "").trim());
+      if (decisionFailure) return decisionFailure;
+      return ok_({ requestId: requestId, row: rowIndex });
+    };
+    // A batch from the dashboard's bulk actions: one refused request does not stop the others. The batch
+    // itself is acknowledged (its accepted rows are written); refusals are reported per request.
+    if (Array.isArray(data.requestIds)) {
+      if (!data.requestIds.length) {
+        return fail_("MISSING_REQUEST_ID", "Missing requestIds");
       }
-      return withCors_(
-        ContentService.createTextOutput("OK").setMimeType(ContentService.MimeType.TEXT)
-      );
+      var results = data.requestIds.map(function(id) { return decide(String(id || "").trim()); });
+      var refused = results.filter(function(r) { return !r.ok; }).length;
+      var batch = { results: results };
+      if (refused) batch.message = refused + " of " + results.length + " decisions were not recorded.";
+      return ok_(batch);
+    }
+    return decide(String(data.requestId || data.rid || "").trim());
+  }
+  // --- EDIT LEAVE REQUEST ---
+  if (payloadType === "edit_request") {
+    var requestId = String(data.requestId || "").trim();
+    if (!requestId) {
+      return fail_("MISSING_REQUEST_ID", "Missing requestId");
     }
-    // --- EDIT LEAVE REQUEST ---
-    if (payloadType === "edit_request") {
-      var requestId = String(data.requestId || "").trim();
-      var rowIndex = findLogRowByRequestId_(logSheet, requestId);
-      if (rowIndex !== -1) {
-        var dates = data.startDate + " - " + data.endDate;
-        logSheet.getRange(rowIndex, 8).setValue(dates); // Dates
-        logSheet.getRange(rowIndex, 9).setValue(data.reason);
-        logSheet.getRange(rowIndex, 12).setValue(data.permissionType || "");
-        logSheet.getRange(rowIndex, 13).setValue(data.leaveType || "");
-        logSheet.getRange(rowIndex, 14).setValue(data.requestedInTime || "");
-        logSheet.getRange(rowIndex, 15).setValue(data.requestedOutTime || "");
-        logSheet.getRange(rowIndex, 16).setValue(data.alternateStaff || "");
-        return withCors_(ContentService.createTextOutput("OK").setMimeType(ContentService.MimeType.TEXT));
+    var rowIndex = findLogRowByRequestId_(logSheet, layout, requestId);
+    if (rowIndex === -1) {
+      return fail_("NOT_FOUND", "Request ID not found", { requestId: requestId });
+    }
+    var editNotOwner = ownerFailure_(logSheet, layout, rowIndex, data.employeeEmail, requestId);
+    if (editNotOwner) return editNotOwner;
+    var previousStatus = getCell_(logSheet, rowIndex, layout, "status");
+    if (!nextStatus_(previousStatus, "edit")) {
+      return transitionFailure_(previousStatus, "edit", requestId);
+    }
+    var editViolations = policyViolations_(readPolicies_(ss), data,
+      toIsoDate_(getCell_(logSheet, rowIndex, layout, "startDate")));
+    if (editViolations.length) return policyFailure_(editViolations, requestId);
+    var editConflict = findOverlappingRequest_(readLogRecords_(logSheet, layout), {
+      requestId: requestId,
+      employeeEmail: getCell_(logSheet, rowIndex, layout, "employeeEmail"),
+      startDate: data.startDate,
+      endDate: data.endDate
+    });
+    if (editConflict) return overlapFailure_(editConflict);
+    var editDirectory = readDirectory_(ss);
+    var editAlternate = data.alternateStaff ? alternateEmailFor_(editDirectory, data) : "";
+    var editUnavailable = alternateConflict_(readLogRecords_(logSheet, layout), editAlternate, data);
+    if (editUnavailable) return editUnavailable;
+    // An edited request starts its approval chain again.
+    var editSteps = buildApprovalSteps_(editDirectory, chainFor_(ss, data.leaveType),
+      getCell_(logSheet, rowIndex, layout, "employeeEmail"));
+    setCell_(logSheet, rowIndex, layout, "approvalSteps", JSON.stringify(editSteps));
+    setCell_(logSheet, rowIndex, layout, "status", nextStatus_(previousStatus, "edit"));
+    startAwaiting_(logSheet, rowIndex, layout);
+    var edited = {
+      startDate: data.startDate || "",
+      endDate: data.endDate || data.startDate || "",
+      reason: data.reason,
+      permissionType: data.permissionType || "",
+      leaveType: data.leaveType || "",
+      requestedInTime: data.requestedInTime || "",
+      requestedOutTime: data.requestedOutTime || "",
+      alternateStaff: data.alternateStaff || "",
+      attachmentUrl: String(data.attachmentUrl || "").trim()
+    };
+    recordRevision_(ss, logSheet, layout, rowIndex, requestId, edited,
+      getCell_(logSheet, rowIndex, layout, "employeeEmail"));
+    Object.keys(edited).forEach(function(key) {
+      setCell_(logSheet, rowIndex, layout, key, edited[key]);
+    });
+    // A different alternate has to confirm again; an unchanged one keeps their answer.
+    if (editAlternate !== String(getCell_(logSheet, rowIndex, layout, "alternateEmail") || "").trim().toLowerCase()) {
+      setCell_(logSheet, rowIndex, layout, "alternateEmail", editAlternate);
+      setCell_(logSheet, rowIndex, layout, "coverageStatus", editAlternate ? "PENDING" : "");
+      setCell_(logSheet, rowIndex, layout, "coverageNote", "");
+      if (editAlternate) {
+        notifyAlternate_(editAlternate, getCell_(logSheet, rowIndex, layout, "employeeName"), edited.startDate,
+          edited.endDate, requestId);
       }
-      return withCors_(ContentService.createTextOutput("Error: Request ID not found").setMimeType(ContentService.MimeType.TEXT));
-    }
-    // --- DELETE LEAVE REQUEST ---
-    if (payloadType === "delete_request") {
-      var requestId = String(data.requestId || "").trim();
-      var rowIndex = findLogRowByRequestId_(logSheet, requestId);
-      if (rowIndex !== -1) {
-        logSheet.getRange(rowIndex, 4).setValue("DELETED");
-        return withCors_(ContentService.createTextOutput("OK").setMimeType(ContentService.MimeType.TEXT));
+    }
+    if (normalizeStatus_(previousStatus) === "NEEDS_INFO") {
+      var resubmitTo = withDelegates_(readDelegations_(ss), approverAddresses_(editDirectory, editSteps[0].approver));
+      if (resubmitTo.length) {
+        MailApp.sendEmail(
+          resubmitTo.join(","),
+          "Leave request from " + getCell_(logSheet, rowIndex, layout, "employeeName") + " updated",
+          "The requested information was added.\n\nReview here:\n" + reviewUrl_(requestId)
+        );
       }
-      return withCors_(ContentService.createTextOutput("Error: Request ID not found").setMimeType(ContentService.MimeType.TEXT));
-    }
-    // --- NEW LEAVE REQUEST ---
-    var requestId = newRequestId_();
-    var dates = data.startDate + " - " + data.endDate;
-    logSheet.appendRow([
-      new Date(),
-      requestId,
-      "request",
-      data.status || "PENDING",
-      data.employeeName,
-      data.employeeEmail,
-      data.employeeId,
-      dates,
-      data.reason,
-      data.managerComment || "",
-      "",
-      data.permissionType || "",
-      data.leaveType || "",
-      data.requestedInTime || "",
-      data.requestedOutTime || "",
-      data.alternateStaff || ""
-    ]);
-    var webAppUrl = getWebAppUrl_();
-    var joiner = webAppUrl.indexOf("?") === -1 ? "?" : "&";
-    var reviewUrl = webAppUrl + joiner + "view=manager&rid=" + encodeURIComponent(requestId);
-    var managerEmail = "ganesh.m@datapower.co.in";
+    }
+    return ok_({ requestId: requestId, row: rowIndex });
+  }
+  // --- APPROVAL DELEGATION ---
+  if (payloadType === "delegation") {
+    return saveDelegation_(ss, data);
+  }
+  if (payloadType === "revoke_delegation") {
+    return revokeDelegation_(ss, data);
+  }
+  // --- COMMENT TEMPLATES ---
+  if (payloadType === "comment_template") {
+    return saveCommentTemplate_(ss, data);
+  }
+  if (payloadType === "delete_comment_template") {
+    return deleteCommentTemplate_(ss, data);
+  }
+  // --- ALTERNATE COVERAGE RESPONSE ---
+  if (payloadType === "coverage_response") {
+    return respondToCoverage_(ss, logSheet, layout, data);
+  }
+  // --- CANCEL APPROVED LEAVE ---
+  if (payloadType === "cancel_request") {
+    return requestCancellation_(ss, logSheet, layout, data);
+  }
+  // --- WITHDRAW UNDECIDED LEAVE REQUEST ---
+  if (payloadType === "delete_request") {
+    var requestId = String(data.requestId || "").trim();
+    if (!requestId) {
+      return fail_("MISSING_REQUEST_ID", "Missing requestId");
+    }
+    var rowIndex = findLogRowByRequestId_(logSheet, layout, requestId);
+    if (rowIndex === -1) {
+      return fail_("NOT_FOUND", "Request ID not found", { requestId: requestId });
+    }
+    var withdrawNotOwner = ownerFailure_(logSheet, layout, rowIndex, data.requestedBy, requestId);
+    if (withdrawNotOwner) return withdrawNotOwner;
+    var currentStatus = getCell_(logSheet, rowIndex, layout, "status");
+    if (!nextStatus_(currentStatus, "withdraw")) {
+      return transitionFailure_(currentStatus, "withdraw", requestId);
+    }
+    setCell_(logSheet, rowIndex, layout, "status", nextStatus_(currentStatus, "withdraw"));
+    return ok_({ requestId: requestId, row: rowIndex });
+  }
+  // --- NEW LEAVE REQUEST ---
+  var violations = policyViolations_(readPolicies_(ss), data);
+  if (violations.length) return policyFailure_(violations);
+  var conflict = findOverlappingRequest_(readLogRecords_(logSheet, layout), {
+    employeeEmail: data.employeeEmail,
+    startDate: data.startDate,
+    endDate: data.endDate
+  });
+  if (conflict) return overlapFailure_(conflict);
+  var directory = readDirectory_(ss);
+  var alternateEmail = data.alternateStaff ? alternateEmailFor_(directory, data) : "";
+  var unavailable = alternateConflict_(readLogRecords_(logSheet, layout), alternateEmail, data);
+  if (unavailable) return unavailable;
+  var requestId = newRequestId_();
+  var steps = buildApprovalSteps_(directory, chainFor_(ss, data.leaveType), data.employeeEmail);
+  var submittedAt = new Date();
+  logSheet.appendRow(buildRow_(layout, {
+    timestamp: submittedAt,
+    requestId: requestId,
+    type: "request",
+    // New requests always wait for a decision, whatever the client sent.
+    status: "PENDING",
+    employeeName: data.employeeName,
+    employeeEmail: data.employeeEmail,
+    employeeId: data.employeeId,
+    startDate: data.startDate || "",
+    endDate: data.endDate || data.startDate || "",
+    reason: data.reason,
+    managerComment: "",
+    managerAction: "",
+    permissionType: data.permissionType || "",
+    leaveType: data.leaveType || "",
+    requestedInTime: data.requestedInTime || "",
+    requestedOutTime: data.requestedOutTime || "",
+    alternateStaff: data.alternateStaff || "",
+    approvalSteps: JSON.stringify(steps),
+    alternateEmail: alternateEmail,
+    coverageStatus: alternateEmail ? "PENDING" : "",
+    awaitingSince: submittedAt.toISOString(),
+    attachmentUrl: String(data.attachmentUrl || "").trim()
+  }));
+  var newRow = logSheet.getLastRow();
+  formatDateCells_(logSheet, newRow, layout);
+  var approvers = withDelegates_(readDelegations_(ss), approverAddresses_(directory, steps[0].approver));
+  if (approvers.length) {
     MailApp.sendEmail(
-      managerEmail,
+      approvers.join(","),
       "New leave request from " + data.employeeName,
-      "A new leave request has been submitted.\n\nReview here:\n" + reviewUrl
-    );
-    return withCors_(
-      ContentService.createTextOutput("OK").setMimeType(ContentService.MimeType.TEXT)
-    );
-  } catch (err) {
-    return withCors_(
-      ContentService.createTextOutput("Error: " + err.toString()).setMimeType(ContentService.MimeType.TEXT)
+      "A new leave request has been submitted.\n\nReview here:\n" + reviewUrl_(requestId)
     );
   }
+  if (alternateEmail) {
+    notifyAlternate_(alternateEmail, data.employeeName, data.startDate, data.endDate, requestId);
+  }
+  return ok_({ requestId: requestId, row: newRow });
 }
 function doGet(e) {
   if (e.parameter && e.parameter.method === "OPTIONS") {
@@ -234,33 +1457,69 @@ function doGet(e) {
   var action = (e.parameter.action || "").toUpperCase();
   var rid = e.parameter.rid;
   var ss = SpreadsheetApp.getActive();
-  var sheet = ss.getSheetByName("Logs");
-  var data = sheet.getDataRange().getValues();
-  var found = false;
-  var employeeEmail = "";
-  for (var i = 1; i < data.length; i++) {
-    if (data[i][1] === rid) {
-      sheet.getRange(i + 1, 4).setValue(action === "APPROVE" ? "APPROVED" : "REJECTED");
-      sheet.getRange(i + 1, 11).setValue(action);
-      employeeEmail = data[i][5];
-      found = true;
-      break;
-    }
-  }
-  if (!found) {
+  var logSchema = getSheetSchema_("Logs");
+  var sheet = ss.getSheetByName(logSchema.sheet);
+  var layout = ensureHeader_(sheet, logSchema);
+  var rowIndex = findLogRowByRequestId_(sheet, layout, rid);
+  if (rowIndex === -1) {
     return ContentService.createTextOutput(
       "<h1>Request Not Found</h1>"
     ).setMimeType(ContentService.MimeType.HTML);
   }
-  if (employeeEmail) {
-    var finalAction = action === "APPROVE" ? "approved" : "rejected";
-    MailApp.sendEmail(
-      employeeEmail,
-      "Your leave request has been " + finalAction,
-      "Your request (" + rid + ") was " + finalAction + "."
-    );
+  // A link names no approver, so it cannot tell whose step it decides: chains and cancellations need the app.
+  var steps = layout.columns.approvalSteps
+    ? parseApprovalSteps_(getCell_(sheet, rowIndex, layout, "approvalSteps"))
+    : [];
+  if (normalizeStatus_(getCell_(sheet, rowIndex, layout, "status")) === "CANCEL_REQUESTED" || steps.length > 1) {
+    return ContentService.createTextOutput(
+      "<h1>Not Processed</h1><p>Email links only decide single-approver leave requests. Open Manage Leave to decide " +
+        "this one: " + reviewUrl_(rid) + "</p>"
+    ).setMimeType(ContentService.MimeType.HTML);
+  }
+  var failure = decideRequest_(ss, sheet, layout, rowIndex, rid, action === "APPROVE" ? "APPROVED" : "REJECTED", "", "");
+  if (failure) {
+    return ContentService.createTextOutput(
+      "<h1>Not Processed</h1><p>" + failure.message + "</p>"
+    ).setMimeType(ContentService.MimeType.HTML);
   }
   return ContentService.createTextOutput(
     "<h1>Success</h1><p>Request " + rid + " has been processed.</p>"
   ).setMimeType(ContentService.MimeType.HTML);
-}
\ No newline at end of file
+}
+/**
+ * One-off migration, run from the Apps Script editor: fills the Start Date / End Date columns from the
+ * legacy "start - end" Dates column for rows that have not been migrated yet. Safe to run repeatedly.
+ * The Dates column is left in place; delete it once the migration has been checked.
+ */
+function migrateDatesColumn() {
+  var logSchema = getSheetSchema_("Logs");
+  var sheet = SpreadsheetApp.getActive().getSheetByName(logSchema.sheet);
+  var layout = ensureHeader_(sheet, logSchema);
+  if (!layout.columns.dates) {
+    Logger.log("No legacy Dates column found; nothing to migrate.");
+    return;
+  }
+  var lastRow = sheet.getLastRow();
+  var migrated = 0;
+  for (var rowIndex = 2; rowIndex <= lastRow; rowIndex++) {
+    if (String(getCell_(sheet, rowIndex, layout, "startDate") || "").trim()) continue;
+    var parts = String(getCell_(sheet, rowIndex, layout, "dates") || "").split(" - ");
+    var start = toIsoDate_(parts[0]);
+    if (!start) continue;
+    setCell_(sheet, rowIndex, layout, "startDate", start);
+    setCell_(sheet, rowIndex, layout, "endDate", toIsoDate_(parts[1]) || start);
+    migrated++;
+  }
+  Logger.log("Migrated " + migrated + " row(s) to Start Date / End Date.");
+}
+function toIsoDate_(value) {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? "" : Utilities.formatDate(value, Session.getScriptTimeZone(), "yyyy-MM-dd");
+  }
+  var text = String(value || "").trim();
+  if (!text) return "";
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return text;
+  var parsed = new Date(text);
+  if (isNaN(parsed.getTime())) return "";
+  return Utilities.formatDate(parsed, Session.getScriptTimeZone(), "yyyy-MM-dd");
+}
@@ -0,0 +1,125 @@
+import { ApprovalChainRecord, ApprovalStep, EmployeeRecord, LogSheetRecord, UserProfile } from '../types';
+import { approverEmailsFor } from './reportingLines';
+
+// Multi-step approvals. Each request carries its own chain of steps on the Logs row, resolved from the
+// ApprovalChains sheet when it is submitted; the row's status stays PENDING until the last step approves
+// or any step rejects. The webhook (code.gs) and the local workbook apply decisions with the same rules.
+
+export const MANAGER_APPROVER = 'manager';
+export const ADMIN_APPROVER = 'admin';
+
+// Leave types without a row in ApprovalChains need a single decision from the reporting manager.
+const DEFAULT_CHAIN = [MANAGER_APPROVER];
+
+const normalize = (v: string | undefined) => (v || '').trim().toLowerCase();
+
+export const parseApproverList = (value: string) =>
+    value
+        .split(/[,;\n]/)
+        .map(normalize)
+        .filter(Boolean);
+
+export const chainFor = (chains: ApprovalChainRecord[], leaveType: string) =>
+    chains.find((c) => normalize(c.leaveType) === normalize(leaveType) && c.approvers.length)?.approvers || DEFAULT_CHAIN;
+
+/**
+ * Turns a chain into the steps stored on a new request. `manager` becomes the employee's reporting manager,
+ * or `admin` when the directory names none. The first step is PENDING, the rest WAITING.
+ */
+export const buildApprovalSteps = (
+    chain: string[],
+    directory: EmployeeRecord[],
+    employeeEmail: string
+): ApprovalStep[] =>
+    chain.map((token, i) => {
+        const manager = directory.find((emp) => emp.email === normalize(employeeEmail))?.reportingManagerEmail;
+        const approver = token === MANAGER_APPROVER ? normalize(manager) || ADMIN_APPROVER : normalize(token);
+        return { approver, status: i === 0 ? 'PENDING' : 'WAITING' };
+    });
+
+export const parseApprovalSteps = (value: string): ApprovalStep[] => {
+    if (!value || !value.trim()) return [];
+    try {
+        const parsed = JSON.parse(value);
+        return Array.isArray(parsed) ? parsed.filter((s) => s && typeof s.approver === 'string') : [];
+    } catch {
+        return [];
+    }
+};
+
+export const serializeApprovalSteps = (steps: ApprovalStep[]) => (steps.length ? JSON.stringify(steps) : '');
+
+export const currentStepIndex = (steps: ApprovalStep[]) => steps.findIndex((s) => s.status === 'PENDING');
+
+export type StepDecision = {
+    steps: ApprovalStep[];
+    status: 'PENDING' | 'APPROVED' | 'REJECTED'; // the request's status after the decision
+    final: boolean; // true when the request is now fully approved or rejected
+    nextApprover?: string; // set when an approval moved the request to another step
+};
+
+/** Records a decision on the current step. Returns null when no step is awaiting a decision. */
+export const applyStepDecision = (
+    steps: ApprovalStep[],
+    status: 'APPROVED' | 'REJECTED',
+    decidedBy: string,
+    comment: string,
+    options: { onBehalfOf?: string; decidedAt?: string } = {}
+): StepDecision | null => {
+    const idx = currentStepIndex(steps);
+    if (idx === -1) return null;
+    const next = steps.map((s) => ({ ...s }));
+    next[idx] = {
+        ...next[idx],
+        status,
+        decidedBy: normalize(decidedBy),
+        decidedAt: options.decidedAt || new Date().toISOString(),
+        comment,
+        ...(options.onBehalfOf ? { onBehalfOf: options.onBehalfOf } : {}),
+    };
+    if (status === 'REJECTED') return { steps: next, status, final: true };
+    if (idx === next.length - 1) return { steps: next, status: 'APPROVED', final: true };
+    next[idx + 1] = { ...next[idx + 1], status: 'PENDING' };
+    return { steps: next, status: 'PENDING', final: false, nextApprover: next[idx + 1].approver };
+};
+
+/** Email addresses behind an approver token; `admin` expands to every admin in the directory. */
+export const approverAddresses = (approver: string, directory: EmployeeRecord[]) =>
+    approver === ADMIN_APPROVER ? directory.filter((emp) => emp.role === 'admin').map((emp) => emp.email) : [approver];
+
+/** The step awaiting a decision, if any. */
+export const currentStep = (record: Pick<LogSheetRecord, 'approvalSteps'>): ApprovalStep | undefined =>
+    record.approvalSteps[currentStepIndex(record.approvalSteps)];
+
+/** Whether approving now fully approves the request: it has no chain, or the awaited step is the last one. */
+export const isFinalStep = (record: Pick<LogSheetRecord, 'approvalSteps'>) =>
+    !record.approvalSteps.length || currentStepIndex(record.approvalSteps) === record.approvalSteps.length - 1;
+
+/**
+ * Who decides a cancellation of approved leave: the approver who gave the final approval (the one a delegate
+ * stood in for, when it was delegated), or the reporting manager when the row does not say.
+ */
+export const cancellationApprovers = (
+    record: Pick<LogSheetRecord, 'decidedBy' | 'onBehalfOf' | 'employeeEmail'>,
+    directory: EmployeeRecord[]
+): string[] => {
+    const approver = normalize(record.onBehalfOf || record.decidedBy);
+    return approver ? approverAddresses(approver, directory) : approverEmailsFor(directory, record.employeeEmail);
+};
+
+/** Who the request is waiting on. Rows without steps wait on the reporting manager, as before chains. */
+export const awaitingApprovers = (record: LogSheetRecord, directory: EmployeeRecord[]): string[] => {
+    if (normalize(record.status) === 'cancel_requested') return cancellationApprovers(record, directory);
+    if (normalize(record.status) !== 'pending') return [];
+    if (!record.approvalSteps.length) return approverEmailsFor(directory, record.employeeEmail);
+    const step = currentStep(record);
+    return step ? approverAddresses(step.approver, directory) : [];
+};
+
+export const isAwaiting = (record: LogSheetRecord, viewer: Pick<UserProfile, 'email'>, directory: EmployeeRecord[]) =>
+    awaitingApprovers(record, directory).includes(normalize(viewer.email));
+
+export const describeApprover = (approver: string, directory: EmployeeRecord[]) => {
+    if (approver === ADMIN_APPROVER) return 'Any admin';
+    return directory.find((emp) => emp.email === approver)?.name || approver;
+};
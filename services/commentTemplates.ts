@@ -0,0 +1,38 @@
+import { CommentTemplateParams, CommentTemplateRecord, WriteResult } from '../types';
+
+// Saved decision comments. Each manager keeps their own list in the CommentTemplates sheet and picks from it
+// in the decision dialog. The webhook (code.gs) and the local workbook check new templates with the same rules.
+
+const normalize = (v: string | undefined) => (v || '').trim().toLowerCase();
+
+export const MAX_TEMPLATE_LABEL = 40;
+
+export const parseTemplateDecision = (value: string): CommentTemplateRecord['decision'] => {
+    const decision = (value || '').trim().toUpperCase();
+    return decision === 'APPROVED' || decision === 'REJECTED' || decision === 'NEEDS_INFO' ? decision : '';
+};
+
+/** The owner's templates that fit a decision (plus their any-decision ones), alphabetically. */
+export const templatesFor = (
+    templates: CommentTemplateRecord[],
+    ownerEmail: string,
+    decision: CommentTemplateRecord['decision']
+) =>
+    templates
+        .filter((t) => t.ownerEmail === normalize(ownerEmail) && (!t.decision || t.decision === decision))
+        .sort((a, b) => a.label.localeCompare(b.label));
+
+/** Checks a new template against the owner's existing ones; returns a message when it cannot be saved. */
+export const validateTemplate = (params: CommentTemplateParams, existing: CommentTemplateRecord[]): string | null => {
+    const label = params.label.trim();
+    if (!normalize(params.ownerEmail)) return 'Sign in to save templates.';
+    if (!label) return 'Give the template a short name.';
+    if (label.length > MAX_TEMPLATE_LABEL) return `Keep the name under ${MAX_TEMPLATE_LABEL} characters.`;
+    if (!params.text.trim()) return 'The template has no text.';
+    const duplicate = existing.find(
+        (t) => t.ownerEmail === normalize(params.ownerEmail) && normalize(t.label) === normalize(label)
+    );
+    return duplicate ? `You already have a template called "${duplicate.label}".` : null;
+};
+
+export const templateFailure = (message: string): WriteResult => ({ ok: false, code: 'INVALID_TEMPLATE', message });
@@ -0,0 +1,79 @@
+import { CoverageResponseParams, CoverageStatus, EmployeeRecord, LogSheetRecord, WriteResult } from '../types';
+import { formatDateRange } from './dateUtils';
+import { findOverlappingRequest } from './leaveRules';
+import { holdsDates, statusLabel } from './leaveStatus';
+
+// Alternate staff confirmation. The colleague an employee nominates to cover their leave is mailed and answers
+// from the "Alternate coverage requests" screen; approvers see the answer on the request. The webhook (code.gs)
+// and the local workbook apply the same rules.
+
+const normalize = (v: string | undefined) => (v || '').trim().toLowerCase();
+
+export const parseCoverageStatus = (value: string): CoverageStatus | '' => {
+    const status = (value || '').trim().toUpperCase();
+    return status === 'PENDING' || status === 'ACCEPTED' || status === 'DECLINED' ? status : '';
+};
+
+/** The directory entry behind an Alternate Staff value, which holds a name (or, in older rows, an email). */
+export const resolveAlternate = (directory: EmployeeRecord[], alternateStaff: string) => {
+    const value = normalize(alternateStaff);
+    if (!value) return undefined;
+    return directory.find((emp) => emp.email === value) || directory.find((emp) => normalize(emp.name) === value);
+};
+
+/**
+ * The alternate's own pending or approved leave overlapping the requested dates, if any. Someone who is away
+ * themselves cannot cover, so the form greys them out and the webhook refuses the submission.
+ */
+export const findAlternateConflict = (
+    records: LogSheetRecord[],
+    alternateEmail: string,
+    range: { startDate: string; endDate: string }
+): LogSheetRecord | undefined =>
+    findOverlappingRequest(records, { employeeEmail: alternateEmail, startDate: range.startDate, endDate: range.endDate });
+
+export const alternateUnavailableMessage = (alternateName: string, conflict: LogSheetRecord) =>
+    `${alternateName} is on leave ${formatDateRange(conflict.startDate, conflict.endDate)} ` +
+    `(${statusLabel(conflict.status)}) and cannot cover these dates. Choose another alternate.`;
+
+export const alternateUnavailableFailure = (alternateName: string, conflict: LogSheetRecord): WriteResult => ({
+    ok: false,
+    code: 'ALTERNATE_UNAVAILABLE',
+    message: alternateUnavailableMessage(alternateName, conflict),
+});
+
+/** Requests that nominate `email` as alternate and still hold their dates, newest first as given. */
+export const coverageRequestsFor = (records: LogSheetRecord[], email: string) =>
+    records.filter(
+        (r) =>
+            r.alternateEmail === normalize(email) &&
+            (r.type || 'request').toLowerCase() === 'request' &&
+            holdsDates(r.status)
+    );
+
+export const awaitingCoverage = (records: LogSheetRecord[], email: string) =>
+    coverageRequestsFor(records, email).filter((r) => r.coverageStatus === 'PENDING');
+
+/** Checks an alternate's answer against the request; returns a message when it cannot be recorded. */
+export const validateCoverageResponse = (
+    record: Pick<LogSheetRecord, 'alternateEmail' | 'status'>,
+    params: Pick<CoverageResponseParams, 'responderEmail' | 'response'>
+): string | null => {
+    if (!record.alternateEmail) return 'This request does not name an alternate.';
+    if (normalize(params.responderEmail) !== record.alternateEmail) {
+        return 'Only the nominated alternate can answer this coverage request.';
+    }
+    if (!holdsDates(record.status)) return 'This request is no longer active.';
+    if (params.response !== 'ACCEPTED' && params.response !== 'DECLINED') return 'Answer with accept or decline.';
+    return null;
+};
+
+export const coverageFailure = (message: string, requestId?: string): WriteResult => ({
+    ok: false,
+    code: 'INVALID_COVERAGE',
+    message,
+    ...(requestId ? { requestId } : {}),
+});
+
+export const coverageLabel = (status: CoverageStatus | '') =>
+    status === 'ACCEPTED' ? 'Accepted' : status === 'DECLINED' ? 'Declined' : status === 'PENDING' ? 'Awaiting reply' : 'Not requested';
@@ -0,0 +1,94 @@
+import {
+    CoverageResponseParams,
+    BulkDecisionParams,
+    CommentTemplateParams,
+    CommentTemplateRecord,
+    DecisionParams,
+    DelegationParams,
+    DelegationRecord,
+    EmployeeRecord,
+    EntitlementRecord,
+    Holiday,
+    LeavePolicyRecord,
+    LogEntry,
+    LogSheetRecord,
+    LookupOptions,
+    RevisionRecord,
+    TaskLogEntry,
+    TaskLogRecord,
+    TaskLookups,
+    WriteResult,
+} from '../types';
+import { createSheetsBackend } from './sheetsBackend';
+import { createLocalBackend } from './localBackend';
+
+/** Data sets a backend can report as refreshed after it served cached values. */
+export type DataTopic =
+    | 'directory'
+    | 'lookups'
+    | 'taskLookups'
+    | 'logs'
+    | 'taskLogs'
+    | 'entitlements'
+    | 'holidays'
+    | 'delegations'
+    | 'revisions'
+    | 'templates'
+    | 'policies';
+
+/**
+ * The storage operations the app actually uses. `sheetService` delegates every call here,
+ * so components never need to know whether they are talking to Google Sheets or the local store.
+ */
+export interface DataBackend {
+    fetchEmployeeDirectory(): Promise<EmployeeRecord[]>;
+    fetchLookupOptions(): Promise<LookupOptions>;
+    fetchTaskLookups(): Promise<TaskLookups>;
+    fetchLogRecords(): Promise<LogSheetRecord[]>;
+    fetchTaskLogs(): Promise<TaskLogRecord[]>;
+    fetchEntitlements(): Promise<EntitlementRecord[]>;
+    fetchHolidays(): Promise<Holiday[]>;
+    fetchDelegations(): Promise<DelegationRecord[]>;
+    fetchRevisions(): Promise<RevisionRecord[]>;
+    fetchCommentTemplates(): Promise<CommentTemplateRecord[]>;
+    fetchLeavePolicies(): Promise<LeavePolicyRecord[]>;
+    appendLogEntry(entry: LogEntry): Promise<WriteResult>;
+    updateLogEntry(entry: LogEntry & { requestId: string }): Promise<WriteResult>;
+    /** Only the employee who made the request may withdraw it or ask to cancel it. */
+    deleteLogEntry(requestId: string, requestedBy: string): Promise<WriteResult>;
+    requestCancellation(requestId: string, cancellationReason: string, requestedBy: string): Promise<WriteResult>;
+    submitDecision(params: DecisionParams): Promise<WriteResult>;
+    /** Decides every listed request in one round trip; `results` holds each request's own outcome. */
+    submitDecisions(params: BulkDecisionParams): Promise<WriteResult>;
+    respondToCoverage(params: CoverageResponseParams): Promise<WriteResult>;
+    submitTask(entry: TaskLogEntry): Promise<WriteResult>;
+    saveDelegation(params: DelegationParams): Promise<WriteResult>;
+    /** Only the delegator may revoke their delegation. */
+    revokeDelegation(delegationId: string, requestedBy: string): Promise<WriteResult>;
+    saveCommentTemplate(params: CommentTemplateParams): Promise<WriteResult>;
+    /** Only the template's owner may delete it. */
+    deleteCommentTemplate(templateId: string, ownerEmail: string): Promise<WriteResult>;
+    /** Optional: notifies when a background refresh changed data that was already served from cache. */
+    subscribe?(topic: DataTopic, listener: () => void): () => void;
+    /** Optional: forgets every cached read, so the next user starts from fresh data. */
+    clearCache?(): Promise<void>;
+}
+
+export type DataBackendKind = 'sheets' | 'local';
+
+export const getBackendKind = (): DataBackendKind =>
+    (process.env.DATA_BACKEND || '').trim().toLowerCase() === 'local' ? 'local' : 'sheets';
+
+let backend: DataBackend | null = null;
+
+export const getDataBackend = (): DataBackend => {
+    if (!backend) {
+        backend = getBackendKind() === 'local' ? createLocalBackend() : createSheetsBackend();
+    }
+    return backend;
+};
+
+// Lets tests and dev tooling swap the backend without touching env config.
+export const setDataBackend = (next: DataBackend | null) => {
+    backend = next;
+};
@@ -0,0 +1,71 @@
+// Calendar-date helpers. Leave dates are plain calendar days, stored and compared as ISO `YYYY-MM-DD`
+// strings so that time zones never shift a day.
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const isoFromParts = (y: number, m: number, d: number) => {
+    const dt = new Date(Date.UTC(y, m - 1, d));
+    if (dt.getUTCFullYear() !== y || dt.getUTCMonth() !== m - 1 || dt.getUTCDate() !== d) return '';
+    return `${y}-${pad(m)}-${pad(d)}`;
+};
+
+// Google Sheets serial day 0 is 1899-12-30.
+const SHEETS_EPOCH_MS = Date.UTC(1899, 11, 30);
+const DAY_MS = 86_400_000;
+
+/**
+ * Normalises a sheet cell to an ISO calendar date. Accepts ISO strings (optionally with a time part),
+ * `M/D/YYYY` as rendered by US-locale sheets (`D/M/YYYY` when the first part cannot be a month),
+ * Sheets serial numbers and Date objects. Returns '' when the value is not a date.
+ */
+export const toIsoDate = (value: unknown): string => {
+    if (value === null || value === undefined || value === '') return '';
+    if (value instanceof Date) {
+        return Number.isNaN(value.getTime()) ? '' : isoFromParts(value.getFullYear(), value.getMonth() + 1, value.getDate());
+    }
+    if (typeof value === 'number') {
+        const dt = new Date(SHEETS_EPOCH_MS + Math.floor(value) * DAY_MS);
+        return isoFromParts(dt.getUTCFullYear(), dt.getUTCMonth() + 1, dt.getUTCDate());
+    }
+
+    const text = String(value).trim();
+    let m = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})(?:[T\s].*)?$/.exec(text);
+    if (m) return isoFromParts(Number(m[1]), Number(m[2]), Number(m[3]));
+
+    m = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/.exec(text);
+    if (m) {
+        const a = Number(m[1]);
+        const b = Number(m[2]);
+        return a > 12 ? isoFromParts(Number(m[3]), b, a) : isoFromParts(Number(m[3]), a, b);
+    }
+    return '';
+};
+
+/** Splits the legacy single-cell `"start - end"` value written before Start/End Date columns existed. */
+export const splitLegacyDates = (dates: string): { startDate: string; endDate: string } => {
+    const [start = '', end = ''] = (dates || '').split(' - ');
+    const startDate = toIsoDate(start);
+    return { startDate, endDate: toIsoDate(end) || startDate };
+};
+
+const isoToUtc = (iso: string) => Date.parse(`${iso}T00:00:00Z`);
+
+/** Shifts an ISO date by whole days. */
+export const addDays = (iso: string, days: number) => {
+    const dt = new Date(isoToUtc(iso) + days * DAY_MS);
+    return isoFromParts(dt.getUTCFullYear(), dt.getUTCMonth() + 1, dt.getUTCDate());
+};
+
+/** Whole days from one ISO date to another; negative when `to` is earlier. */
+export const daysBetween = (from: string, to: string) => Math.round((isoToUtc(to) - isoToUtc(from)) / DAY_MS);
+
+/** Day of week for an ISO date, 0 = Sunday … 6 = Saturday. */
+export const weekday = (iso: string) => new Date(isoToUtc(iso)).getUTCDay();
+
+export const formatDateRange = (startDate: string, endDate: string) => {
+    if (!startDate && !endDate) return '';
+    if (!endDate || startDate === endDate) return startDate || endDate;
+    return `${startDate} - ${endDate}`;
+};
+
+export const todayIso = () => new Date().toLocaleDateString('en-CA');
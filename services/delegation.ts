@@ -0,0 +1,80 @@
+import { DelegationParams, DelegationRecord, EmployeeRecord, UserProfile, WriteResult } from '../types';
+import { todayIso } from './dateUtils';
+
+// Approval delegation: an approver hands their approvals to another manager or admin for a date range.
+// The webhook (code.gs) and the local workbook check decisions against the same rules.
+
+const normalize = (v: string | undefined) => (v || '').trim().toLowerCase();
+
+export const isDelegationActive = (d: DelegationRecord, on = todayIso()) =>
+    d.status === 'ACTIVE' && d.startDate <= on && on <= (d.endDate || d.startDate);
+
+/** Approvers who have handed their approvals to `delegateEmail` on the given day. */
+export const delegatorsFor = (delegations: DelegationRecord[], delegateEmail: string, on = todayIso()) =>
+    new Set(
+        delegations
+            .filter((d) => d.delegateEmail === normalize(delegateEmail) && isDelegationActive(d, on))
+            .map((d) => d.delegatorEmail)
+    );
+
+/** Delegates currently standing in for `approverEmail`; they are copied on that approver's mail. */
+export const delegatesOf = (delegations: DelegationRecord[], approverEmail: string, on = todayIso()) =>
+    delegations
+        .filter((d) => d.delegatorEmail === normalize(approverEmail) && isDelegationActive(d, on))
+        .map((d) => d.delegateEmail);
+
+export type DecisionAuthority = { allowed: boolean; onBehalfOf?: string; ownRequest?: boolean };
+
+export const OWN_REQUEST_MESSAGE = 'You cannot decide your own request.';
+
+/**
+ * Whether `decider` may decide a step waiting on `approvers`: as one of them, as the active delegate of one
+ * of them (recorded as `onBehalfOf`), or as an admin. Nobody decides their own request (`ownRequest`).
+ */
+export const decisionAuthority = (
+    approvers: string[],
+    decider: Pick<UserProfile, 'email' | 'role'>,
+    requesterEmail: string,
+    delegations: DelegationRecord[],
+    on = todayIso()
+): DecisionAuthority => {
+    const email = normalize(decider.email);
+    if (email === normalize(requesterEmail)) return { allowed: false, ownRequest: true };
+    if (approvers.includes(email)) return { allowed: true };
+    const delegation = delegations.find(
+        (d) => d.delegateEmail === email && approvers.includes(d.delegatorEmail) && isDelegationActive(d, on)
+    );
+    if (delegation) return { allowed: true, onBehalfOf: delegation.delegatorEmail };
+    return { allowed: decider.role === 'admin' };
+};
+
+/** Checks a new delegation against the directory and the delegator's existing ones; returns a message when invalid. */
+export const validateDelegation = (
+    params: Omit<DelegationParams, 'requestedBy'>,
+    directory: EmployeeRecord[],
+    existing: DelegationRecord[]
+): string | null => {
+    const delegator = normalize(params.delegatorEmail);
+    const delegate = normalize(params.delegateEmail);
+    if (!delegator || !delegate) return 'Choose who should approve in your place.';
+    if (delegator === delegate) return 'You cannot delegate approvals to yourself.';
+    const target = directory.find((emp) => emp.email === delegate);
+    if (!target || (target.role !== 'manager' && target.role !== 'admin')) {
+        return 'Approvals can only be delegated to a manager or an admin.';
+    }
+    if (!params.startDate || !params.endDate) return 'Choose the dates the delegation covers.';
+    if (params.endDate < params.startDate) return 'The delegation ends before it starts.';
+    const clash = existing.find(
+        (d) =>
+            d.delegatorEmail === delegator &&
+            d.status === 'ACTIVE' &&
+            d.startDate <= params.endDate &&
+            params.startDate <= (d.endDate || d.startDate)
+    );
+    if (clash) {
+        return `You already delegated ${clash.startDate} to ${clash.endDate} to ${clash.delegateEmail}. Revoke it first.`;
+    }
+    return null;
+};
+
+export const delegationFailure = (message: string): WriteResult => ({ ok: false, code: 'INVALID_DELEGATION', message });
@@ -0,0 +1,81 @@
+import { LogSheetRecord } from '../types';
+import { normalizeStatus, statusLabel } from './leaveStatus';
+
+// Search, filters, sorting and paging for the manager's decision history. Kept apart from the component so the
+// export can use exactly the rows the filters select.
+
+export type HistoryFilters = {
+    search: string; // employee name, email or ID, or request ID
+    status: string; // normalized LeaveStatus, blank for any
+    leaveType: string;
+    permissionType: string;
+    from: string; // ISO yyyy-mm-dd; leave touching the range matches
+    to: string;
+};
+
+export const EMPTY_HISTORY_FILTERS: HistoryFilters = {
+    search: '',
+    status: '',
+    leaveType: '',
+    permissionType: '',
+    from: '',
+    to: '',
+};
+
+export type HistorySortKey = 'timestamp' | 'employeeName' | 'startDate' | 'leaveType' | 'status';
+export type SortDirection = 'asc' | 'desc';
+
+export const HISTORY_PAGE_SIZE = 20;
+
+const normalize = (v: string | undefined) => (v || '').trim().toLowerCase();
+
+export const isFiltered = (filters: HistoryFilters) =>
+    Object.values(filters).some((value) => value.trim() !== '');
+
+export const filterHistory = (records: LogSheetRecord[], filters: HistoryFilters) => {
+    const search = normalize(filters.search);
+    return records.filter((r) => {
+        if (
+            search &&
+            ![r.employeeName, r.employeeEmail, r.employeeId, r.requestId].some((v) => normalize(v).includes(search))
+        ) {
+            return false;
+        }
+        if (filters.status && normalizeStatus(r.status) !== filters.status) return false;
+        if (filters.leaveType && normalize(r.leaveType) !== normalize(filters.leaveType)) return false;
+        if (filters.permissionType && normalize(r.permissionType) !== normalize(filters.permissionType)) return false;
+        if (filters.from && (r.endDate || r.startDate) < filters.from) return false;
+        if (filters.to && (!r.startDate || r.startDate > filters.to)) return false;
+        return true;
+    });
+};
+
+const sortValue = (r: LogSheetRecord, key: HistorySortKey): string | number => {
+    if (key === 'timestamp') return Date.parse(r.timestamp) || 0;
+    if (key === 'status') return statusLabel(r.status);
+    return normalize(r[key]);
+};
+
+/** Sorted copy; ties fall back to newest first. */
+export const sortHistory = (records: LogSheetRecord[], key: HistorySortKey, direction: SortDirection) => {
+    const sign = direction === 'asc' ? 1 : -1;
+    return [...records].sort((a, b) => {
+        const va = sortValue(a, key);
+        const vb = sortValue(b, key);
+        if (va < vb) return -sign;
+        if (va > vb) return sign;
+        return (Date.parse(b.timestamp) || 0) - (Date.parse(a.timestamp) || 0);
+    });
+};
+
+/** One page of rows; `page` is clamped so shrinking results never leave an empty page. */
+export const pageOf = <T>(rows: T[], page: number, size = HISTORY_PAGE_SIZE) => {
+    const pageCount = Math.max(1, Math.ceil(rows.length / size));
+    const current = Math.min(Math.max(1, page), pageCount);
+    const first = (current - 1) * size;
+    return { rows: rows.slice(first, first + size), first, page: current, pageCount };
+};
+
+/** Distinct non-empty values of a field, for filter dropdowns. */
+export const distinctValues = (records: LogSheetRecord[], key: 'leaveType' | 'permissionType') =>
+    Array.from(new Set(records.map((r) => (r[key] || '').trim()).filter(Boolean))).sort((a, b) => a.localeCompare(b));
@@ -0,0 +1,71 @@
+// Minimal promise wrapper over a single IndexedDB key/value store.
+// Falls back to an in-memory map where IndexedDB is unavailable (tests, SSR, private mode).
+
+const DB_NAME = 'employee-ledger';
+const DB_VERSION = 1;
+const KV_STORE = 'kv';
+
+const memory = new Map<string, unknown>();
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDb = (): Promise<IDBDatabase | null> => {
+    if (dbPromise) return dbPromise;
+    dbPromise = new Promise((resolve) => {
+        if (typeof indexedDB === 'undefined') {
+            resolve(null);
+            return;
+        }
+        const req = indexedDB.open(DB_NAME, DB_VERSION);
+        req.onupgradeneeded = () => {
+            const db = req.result;
+            if (!db.objectStoreNames.contains(KV_STORE)) db.createObjectStore(KV_STORE);
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => {
+            console.warn('IndexedDB unavailable; falling back to in-memory storage.', req.error);
+            resolve(null);
+        };
+    });
+    return dbPromise;
+};
+
+export const idbGet = async <T>(key: string): Promise<T | undefined> => {
+    const db = await openDb();
+    if (!db) return memory.get(key) as T | undefined;
+    return new Promise((resolve, reject) => {
+        const req = db.transaction(KV_STORE, 'readonly').objectStore(KV_STORE).get(key);
+        req.onsuccess = () => resolve(req.result as T | undefined);
+        req.onerror = () => reject(req.error);
+    });
+};
+
+export const idbSet = async <T>(key: string, value: T): Promise<void> => {
+    const db = await openDb();
+    if (!db) {
+        memory.set(key, value);
+        return;
+    }
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(KV_STORE, 'readwrite');
+        tx.objectStore(KV_STORE).put(value, key);
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+};
+
+/** Removes every key starting with `prefix`. */
+export const idbDeletePrefix = async (prefix: string): Promise<void> => {
+    const db = await openDb();
+    if (!db) {
+        Array.from(memory.keys())
+            .filter((key) => key.startsWith(prefix))
+            .forEach((key) => memory.delete(key));
+        return;
+    }
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(KV_STORE, 'readwrite');
+        tx.objectStore(KV_STORE).delete(IDBKeyRange.bound(prefix, prefix + '\uffff'));
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+};
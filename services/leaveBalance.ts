@@ -0,0 +1,72 @@
+import { EntitlementRecord, LeaveBalance, LogSheetRecord } from '../types';
+import { todayIso } from './dateUtils';
+import { isOpenStatus, isTakenStatus } from './leaveStatus';
+import { HolidayCalendar, countWorkingDays } from './workingDays';
+
+// Leave balances derived from the Entitlements ledger plus request history. Nothing is stored:
+// balances are recomputed from the ledger and the Logs sheet whenever they are shown.
+
+const normalize = (v: string) => (v || '').trim().toLowerCase();
+
+/** Working days a request takes out of its leave type's balance. */
+export const requestDays = (record: Pick<LogSheetRecord, 'startDate' | 'endDate'>, holidays?: HolidayCalendar) =>
+    countWorkingDays(record.startDate, record.endDate || record.startDate, holidays);
+
+const isLeaveRequest = (r: LogSheetRecord) =>
+    normalize(r.type || 'request') === 'request' && normalize(r.permissionType) !== 'permission';
+
+export type BalanceOptions = {
+    asOf?: string; // ISO date; ledger rows effective later are ignored. Defaults to today.
+    excludeRequestId?: string; // leave out a request being edited so it is not counted twice
+    holidays?: HolidayCalendar; // holidays are not debited; weekends never are
+};
+
+/**
+ * Balances per leave type for one employee. Only leave types with ledger rows get a balance.
+ * The latest OPENING row on or before `asOf` starts the current period; ledger rows and requests
+ * dated before it belong to an earlier period and are ignored.
+ */
+export const computeLeaveBalances = (
+    entitlements: EntitlementRecord[],
+    records: LogSheetRecord[],
+    employeeEmail: string,
+    options: BalanceOptions = {}
+): LeaveBalance[] => {
+    const email = normalize(employeeEmail);
+    const asOf = options.asOf || todayIso();
+    const ledger = entitlements.filter((e) => e.employeeEmail === email && (!e.effectiveDate || e.effectiveDate <= asOf));
+    const leaveTypes = Array.from(new Map(ledger.map((e) => [normalize(e.leaveType), e.leaveType])).values());
+
+    return leaveTypes.map((leaveType) => {
+        const rows = ledger.filter((e) => normalize(e.leaveType) === normalize(leaveType));
+        const openings = rows.filter((e) => e.entryType === 'OPENING');
+        const periodStart = openings.reduce((latest, e) => (e.effectiveDate > latest ? e.effectiveDate : latest), '');
+        const inPeriod = (date: string) => !periodStart || !date || date >= periodStart;
+
+        const opening = openings
+            .filter((e) => e.effectiveDate === periodStart)
+            .reduce((sum, e) => sum + e.days, 0);
+        const accrued = rows
+            .filter((e) => e.entryType !== 'OPENING' && inPeriod(e.effectiveDate))
+            .reduce((sum, e) => sum + e.days, 0);
+
+        const requests = records.filter(
+            (r) =>
+                r.employeeEmail === email &&
+                r.requestId !== options.excludeRequestId &&
+                isLeaveRequest(r) &&
+                normalize(r.leaveType) === normalize(leaveType) &&
+                inPeriod(r.startDate)
+        );
+        const sumDays = (counts: (status: string) => boolean) =>
+            requests.filter((r) => counts(r.status)).reduce((sum, r) => sum + requestDays(r, options.holidays), 0);
+        // Leave awaiting a cancellation decision stays used until the cancellation is approved.
+        const used = sumDays(isTakenStatus);
+        const pending = sumDays(isOpenStatus);
+
+        return { leaveType, opening, accrued, used, pending, remaining: opening + accrued - used };
+    });
+};
+
+export const findBalance = (balances: LeaveBalance[], leaveType: string) =>
+    balances.find((b) => normalize(b.leaveType) === normalize(leaveType));
@@ -0,0 +1,218 @@
+import { DateRange, LeavePolicyRecord, WriteResult } from '../types';
+import { addDays, daysBetween, formatDateRange, toIsoDate, todayIso } from './dateUtils';
+import { MAX_SPAN_DAYS } from './workingDays';
+
+// Leave policy rules, read from the Policies sheet on top of built-in defaults. Each row sets rules for one leave
+// type, or for every type when its Leave Type is `*`; blank cells leave a rule to the broader rows. The leave form
+// shows violations inline; the webhook (code.gs) and the local workbook refuse the write with POLICY_VIOLATION.
+
+export const ANY_LEAVE_TYPE = '*';
+
+const UNSET: Omit<LeavePolicyRecord, 'leaveType'> = {
+    minNoticeDays: null,
+    maxConsecutiveDays: null,
+    maxBackdateDays: null,
+    blackoutDates: [],
+    requiresAttachment: null,
+    permissionOnly: null,
+};
+
+// What applies without a Policies sheet: leave cannot be back-dated, and the partial-day types are permissions.
+export const DEFAULT_POLICIES: LeavePolicyRecord[] = [
+    { ...UNSET, leaveType: ANY_LEAVE_TYPE, maxBackdateDays: 0 },
+    { ...UNSET, leaveType: 'FN Permission', permissionOnly: true },
+    { ...UNSET, leaveType: 'AN Permission', permissionOnly: true },
+    { ...UNSET, leaveType: 'In Between Permission', permissionOnly: true },
+];
+
+/** The rules in force for one leave type, with every gap filled. */
+export type LeavePolicy = {
+    leaveType: string;
+    minNoticeDays: number;
+    maxConsecutiveDays: number | null; // calendar days, weekends and holidays included; null: no limit
+    maxBackdateDays: number;
+    blackoutDates: DateRange[];
+    requiresAttachment: boolean;
+    permissionOnly: boolean;
+};
+
+export type PolicyRule =
+    | 'permission_only'
+    | 'min_notice'
+    | 'backdate'
+    | 'max_span'
+    | 'max_consecutive'
+    | 'blackout'
+    | 'attachment';
+
+export type PolicyViolation = {
+    rule: PolicyRule;
+    field: 'leaveType' | 'startDate' | 'endDate' | 'attachmentUrl'; // where the leave form shows the message
+    message: string;
+};
+
+export type PolicyCandidate = {
+    permissionType: string;
+    leaveType: string;
+    startDate: string;
+    endDate: string;
+    attachmentUrl?: string;
+    previousStartDate?: string; // on edits: notice and back-dating were checked when this start date was submitted
+};
+
+const normalize = (v: string | undefined) => (v || '').trim().toLowerCase();
+
+/** A whole number of days from a Policies cell; null when blank or not a number. */
+export const parsePolicyNumber = (value: string): number | null => {
+    if (!value.trim()) return null;
+    const n = Number(value);
+    return Number.isFinite(n) && n >= 0 ? Math.floor(n) : null;
+};
+
+/** yes/true/y/1 or no/false/n/0; null when blank. */
+export const parsePolicyFlag = (value: string): boolean | null => {
+    const v = normalize(value);
+    if (['yes', 'y', 'true', '1'].includes(v)) return true;
+    if (['no', 'n', 'false', '0'].includes(v)) return false;
+    return null;
+};
+
+/** "2026-12-24..2026-12-31, 2026-10-02": single dates or `start..end` ranges, separated by commas, semicolons or lines. */
+export const parseBlackoutDates = (value: string): DateRange[] =>
+    value
+        .split(/[,;\n]/)
+        .map((part) => {
+            const [start, end = ''] = part.split(/\.\.| to /i);
+            const startDate = toIsoDate(start.trim());
+            const endDate = toIsoDate(end.trim()) || startDate;
+            return { startDate, endDate: endDate < startDate ? startDate : endDate };
+        })
+        .filter((range) => !!range.startDate);
+
+/** Broader rows first, so the rows for the leave type itself win; later rows win within each group. */
+export const effectivePolicy = (records: LeavePolicyRecord[], leaveType: string): LeavePolicy => {
+    const rows = [...DEFAULT_POLICIES, ...records];
+    const applicable = [
+        ...rows.filter((r) => r.leaveType.trim() === ANY_LEAVE_TYPE),
+        ...rows.filter((r) => r.leaveType.trim() !== ANY_LEAVE_TYPE && normalize(r.leaveType) === normalize(leaveType)),
+    ];
+    return applicable.reduce<LeavePolicy>(
+        (policy, row) => ({
+            leaveType,
+            minNoticeDays: row.minNoticeDays ?? policy.minNoticeDays,
+            maxConsecutiveDays: row.maxConsecutiveDays ?? policy.maxConsecutiveDays,
+            maxBackdateDays: row.maxBackdateDays ?? policy.maxBackdateDays,
+            blackoutDates: [...policy.blackoutDates, ...row.blackoutDates],
+            requiresAttachment: row.requiresAttachment ?? policy.requiresAttachment,
+            permissionOnly: row.permissionOnly ?? policy.permissionOnly,
+        }),
+        {
+            leaveType,
+            minNoticeDays: 0,
+            maxConsecutiveDays: null,
+            maxBackdateDays: 0,
+            blackoutDates: [],
+            requiresAttachment: false,
+            permissionOnly: false,
+        }
+    );
+};
+
+/** Leave types that may only be requested as a permission, as named by the defaults and the sheet. */
+export const permissionOnlyTypes = (records: LeavePolicyRecord[]) =>
+    Array.from(
+        new Set(
+            [...DEFAULT_POLICIES, ...records]
+                .map((r) => r.leaveType.trim())
+                .filter((t) => t !== ANY_LEAVE_TYPE && effectivePolicy(records, t).permissionOnly)
+        )
+    );
+
+/** Minimum notice, when set, wins over a back-dating allowance. */
+export const earliestStart = (policy: LeavePolicy, today = todayIso()) =>
+    addDays(today, policy.minNoticeDays > 0 ? policy.minNoticeDays : -policy.maxBackdateDays);
+
+const days = (n: number) => `${n} day${n === 1 ? '' : 's'}`;
+const daysNotice = (n: number) => (n === 1 ? "1 day's notice" : `${n} days' notice`);
+
+export const isAttachmentLink = (value: string | undefined) => /^https?:\/\/\S+$/i.test((value || '').trim());
+
+/** Every rule the request breaks, in form order. */
+export const policyViolations = (
+    records: LeavePolicyRecord[],
+    candidate: PolicyCandidate,
+    today = todayIso()
+): PolicyViolation[] => {
+    const policy = effectivePolicy(records, candidate.leaveType);
+    const label = candidate.leaveType || 'Leave';
+    const startDate = candidate.startDate;
+    const endDate = candidate.endDate || startDate;
+    const violations: PolicyViolation[] = [];
+
+    if (policy.permissionOnly && normalize(candidate.permissionType) !== 'permission') {
+        violations.push({ rule: 'permission_only', field: 'leaveType', message: `${label} can only be requested as a permission.` });
+    }
+    if (startDate) {
+        const earliest = earliestStart(policy, today);
+        if (startDate < earliest && startDate !== candidate.previousStartDate) {
+            if (policy.minNoticeDays > 0) {
+                violations.push({
+                    rule: 'min_notice',
+                    field: 'startDate',
+                    message: `${label} needs ${daysNotice(policy.minNoticeDays)}; the earliest start date is ${earliest}.`,
+                });
+            } else {
+                violations.push({
+                    rule: 'backdate',
+                    field: 'startDate',
+                    message: policy.maxBackdateDays
+                        ? `${label} can be back-dated by at most ${days(policy.maxBackdateDays)}; the earliest start date is ${earliest}.`
+                        : `${label} cannot be back-dated.`,
+                });
+            }
+        }
+        const length = daysBetween(startDate, endDate) + 1; // calendar days, unlike the working days debited
+        // Applies whatever the Policies sheet says: durations are counted day by day.
+        if (length > MAX_SPAN_DAYS) {
+            violations.push({
+                rule: 'max_span',
+                field: 'endDate',
+                message: `A request can cover at most ${days(MAX_SPAN_DAYS)}; this one covers ${days(length)}. Check the end date.`,
+            });
+        }
+        if (policy.maxConsecutiveDays !== null && length > policy.maxConsecutiveDays) {
+            violations.push({
+                rule: 'max_consecutive',
+                field: 'endDate',
+                message:
+                    `${label} is limited to ${days(policy.maxConsecutiveDays)} in a row, weekends and holidays included; ` +
+                    `this request covers ${days(length)}.`,
+            });
+        }
+        const blackout = policy.blackoutDates.find((b) => startDate <= b.endDate && b.startDate <= endDate);
+        if (blackout) {
+            violations.push({
+                rule: 'blackout',
+                field: 'startDate',
+                message: `${label} cannot be taken during the blackout ${formatDateRange(blackout.startDate, blackout.endDate)}.`,
+            });
+        }
+    }
+    if (candidate.attachmentUrl?.trim() ? !isAttachmentLink(candidate.attachmentUrl) : policy.requiresAttachment) {
+        violations.push({
+            rule: 'attachment',
+            field: 'attachmentUrl',
+            message: candidate.attachmentUrl?.trim()
+                ? 'The supporting document must be a link starting with http:// or https://.'
+                : `${label} needs a supporting document; add a link to it.`,
+        });
+    }
+    return violations;
+};
+
+export const policyFailure = (violations: PolicyViolation[], requestId?: string): WriteResult => ({
+    ok: false,
+    code: 'POLICY_VIOLATION',
+    message: violations.map((v) => v.message).join(' '),
+    ...(requestId ? { requestId } : {}),
+});
@@ -0,0 +1,63 @@
+import { LogSheetRecord, WriteResult } from '../types';
+import { formatDateRange, todayIso } from './dateUtils';
+import { canTransition, holdsDates, statusLabel, transitionMessage } from './leaveStatus';
+
+// Validation rules applied to leave requests before they are written. The client runs them for
+// immediate feedback; the webhook (code.gs) and the local workbook enforce the same rules on write.
+
+export type RequestCandidate = {
+    requestId?: string; // set when editing, so the request does not conflict with itself
+    employeeEmail: string;
+    startDate: string;
+    endDate: string;
+};
+
+const rangesOverlap = (aStart: string, aEnd: string, bStart: string, bEnd: string) =>
+    aStart <= (bEnd || bStart) && bStart <= (aEnd || aStart);
+
+/**
+ * The employee's first request that still holds dates intersecting the candidate's, if any. Approved leave
+ * awaiting a cancellation decision keeps its dates until the cancellation is approved.
+ */
+export const findOverlappingRequest = (
+    records: LogSheetRecord[],
+    candidate: RequestCandidate
+): LogSheetRecord | undefined => {
+    const email = candidate.employeeEmail.trim().toLowerCase();
+    if (!email || !candidate.startDate) return undefined;
+    return records.find(
+        (r) =>
+            r.employeeEmail === email &&
+            (r.type || 'request').toLowerCase() === 'request' &&
+            r.requestId !== candidate.requestId &&
+            holdsDates(r.status) &&
+            !!r.startDate &&
+            rangesOverlap(candidate.startDate, candidate.endDate, r.startDate, r.endDate)
+    );
+};
+
+export const overlapMessage = (conflict: LogSheetRecord) =>
+    `These dates overlap your ${statusLabel(conflict.status)} request ${conflict.requestId} ` +
+    `(${formatDateRange(conflict.startDate, conflict.endDate)}). Edit, withdraw or cancel that request first.`;
+
+export const overlapFailure = (conflict: LogSheetRecord): WriteResult => ({
+    ok: false,
+    code: 'OVERLAP',
+    message: overlapMessage(conflict),
+    conflictRequestId: conflict.requestId,
+});
+
+/**
+ * Why the employee may not ask to cancel this request, or null when they may. Only approved leave that has
+ * not ended yet can be cancelled; a pending request is withdrawn instead.
+ */
+export const cancellationBlocker = (
+    record: Pick<LogSheetRecord, 'status' | 'startDate' | 'endDate'>,
+    today = todayIso()
+): string | null => {
+    if (!canTransition(record.status, 'request_cancellation')) {
+        return `${transitionMessage(record.status, 'request_cancellation')} Only approved leave can be cancelled.`;
+    }
+    if ((record.endDate || record.startDate) < today) return 'This leave has already been taken.';
+    return null;
+};
@@ -0,0 +1,127 @@
+import { LeaveStatus, WriteResult } from '../types';
+
+// The leave request lifecycle. Every write that changes a Logs row's status checks this table first: the
+// client to decide which actions to offer, the local workbook and the webhook (code.gs) before writing.
+
+export type LeaveAction =
+    | 'edit'
+    | 'withdraw'
+    | 'approve'
+    | 'reject'
+    | 'request_info'
+    | 'request_cancellation'
+    | 'approve_cancellation'
+    | 'reject_cancellation';
+
+// Status a request moves to for each legal action. Approving an intermediate step of an approval chain keeps
+// the request PENDING; the table gives the status once the last step approves.
+const TRANSITIONS: Record<LeaveStatus, Partial<Record<LeaveAction, LeaveStatus>>> = {
+    [LeaveStatus.PENDING]: {
+        edit: LeaveStatus.PENDING,
+        withdraw: LeaveStatus.WITHDRAWN,
+        approve: LeaveStatus.APPROVED,
+        reject: LeaveStatus.REJECTED,
+        request_info: LeaveStatus.NEEDS_INFO,
+    },
+    [LeaveStatus.NEEDS_INFO]: {
+        edit: LeaveStatus.PENDING,
+        withdraw: LeaveStatus.WITHDRAWN,
+    },
+    [LeaveStatus.APPROVED]: {
+        request_cancellation: LeaveStatus.CANCEL_REQUESTED,
+    },
+    [LeaveStatus.CANCEL_REQUESTED]: {
+        approve_cancellation: LeaveStatus.CANCELLED,
+        reject_cancellation: LeaveStatus.APPROVED,
+    },
+    [LeaveStatus.REJECTED]: {},
+    [LeaveStatus.WITHDRAWN]: {},
+    [LeaveStatus.CANCELLED]: {},
+};
+
+const STATUS_LABELS: Record<LeaveStatus, string> = {
+    [LeaveStatus.PENDING]: 'pending',
+    [LeaveStatus.NEEDS_INFO]: 'waiting for more information',
+    [LeaveStatus.APPROVED]: 'approved',
+    [LeaveStatus.REJECTED]: 'rejected',
+    [LeaveStatus.WITHDRAWN]: 'withdrawn',
+    [LeaveStatus.CANCEL_REQUESTED]: 'awaiting a cancellation decision',
+    [LeaveStatus.CANCELLED]: 'cancelled',
+};
+
+const ACTION_LABELS: Record<LeaveAction, string> = {
+    edit: 'edited',
+    withdraw: 'withdrawn',
+    approve: 'approved',
+    reject: 'rejected',
+    request_info: 'sent back for more information',
+    request_cancellation: 'cancelled',
+    approve_cancellation: 'cancelled',
+    reject_cancellation: 'kept',
+};
+
+/**
+ * Reads a Logs status cell as a LeaveStatus. Blank cells are PENDING, as rows written before statuses were
+ * enforced sometimes were; DELETED is the old name for WITHDRAWN. Unknown values are returned unchanged.
+ */
+export const normalizeStatus = (value: string | undefined): string => {
+    const status = (value || '').trim().toUpperCase();
+    if (!status) return LeaveStatus.PENDING;
+    if (status === 'DELETED') return LeaveStatus.WITHDRAWN;
+    return status;
+};
+
+const asStatus = (value: string | undefined) => {
+    const status = normalizeStatus(value);
+    return status in TRANSITIONS ? (status as LeaveStatus) : null;
+};
+
+/** The status `action` leads to from `current`, or null when the action is not allowed. */
+export const nextStatus = (current: string | undefined, action: LeaveAction): LeaveStatus | null => {
+    const status = asStatus(current);
+    return (status && TRANSITIONS[status][action]) || null;
+};
+
+export const canTransition = (current: string | undefined, action: LeaveAction) => nextStatus(current, action) !== null;
+
+export const statusLabel = (value: string | undefined) => {
+    const status = asStatus(value);
+    return status ? STATUS_LABELS[status] : (value || '').toLowerCase();
+};
+
+export const transitionMessage = (current: string | undefined, action: LeaveAction) => {
+    const hint =
+        asStatus(current) === LeaveStatus.APPROVED && (action === 'edit' || action === 'withdraw')
+            ? ' Request a cancellation instead.'
+            : '';
+    return `This request is ${statusLabel(current)} and cannot be ${ACTION_LABELS[action]}.${hint}`;
+};
+
+export const transitionFailure = (current: string | undefined, action: LeaveAction, requestId?: string): WriteResult => ({
+    ok: false,
+    code: 'INVALID_TRANSITION',
+    message: transitionMessage(current, action),
+    ...(requestId ? { requestId } : {}),
+});
+
+/**
+ * Why a decision needs a comment it does not have, or null. Rejections must give the employee a reason and a
+ * request for information must say what is missing; approvals and cancellation decisions may be silent.
+ */
+export const missingCommentMessage = (status: 'APPROVED' | 'REJECTED' | 'NEEDS_INFO', comment: string) => {
+    if (comment.trim()) return null;
+    if (status === 'REJECTED') return 'Give the employee a reason for the rejection.';
+    if (status === 'NEEDS_INFO') return 'Say what information the employee should add.';
+    return null;
+};
+
+/** Awaiting the approver or the employee. Counts as pending in balances and quotas. */
+export const isOpenStatus = (value: string | undefined) =>
+    [LeaveStatus.PENDING, LeaveStatus.NEEDS_INFO].includes(normalizeStatus(value) as LeaveStatus);
+
+/** Approved leave, including leave awaiting a cancellation decision. Counts as taken. */
+export const isTakenStatus = (value: string | undefined) =>
+    [LeaveStatus.APPROVED, LeaveStatus.CANCEL_REQUESTED].includes(normalizeStatus(value) as LeaveStatus);
+
+/** Requests that still hold their dates; rejected, withdrawn and cancelled ones free them up. */
+export const holdsDates = (value: string | undefined) => isOpenStatus(value) || isTakenStatus(value);
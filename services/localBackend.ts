@@ -0,0 +1,70 @@
+import type { DataBackend } from './dataBackend';
+import { idbGet, idbSet } from './idbStore';
+import { Workbook, applyWebhookPayload, createSeedWorkbook, readRange } from './localWorkbook';
+import {
+    parseCommentTemplates,
+    parseDelegations,
+    parseEmployees,
+    parseEntitlementRecords,
+    parseHolidays,
+    parseLeavePolicies,
+    parseLogSheetRecords,
+    parseLookup,
+    parseRevisions,
+    parseTaskLogRecords,
+    parseTaskLookups,
+} from './sheetParsers';
+
+const WORKBOOK_KEY = 'local_workbook_v1';
+
+/**
+ * Fully local backend: a seeded workbook kept in IndexedDB (or memory), read through the same
+ * parsers as Google Sheets and written through a port of the Apps Script webhook.
+ */
+export const createLocalBackend = (seed: () => Workbook = createSeedWorkbook): DataBackend => {
+    let workbook: Promise<Workbook> | null = null;
+
+    const load = () => {
+        if (!workbook) {
+            workbook = idbGet<Workbook>(WORKBOOK_KEY).then((stored) => stored || seed());
+        }
+        return workbook;
+    };
+
+    const read = async (range: string) => readRange(await load(), range) || [];
+
+    const post = async (payload: Record<string, unknown>) => {
+        const wb = await load();
+        const result = applyWebhookPayload(wb, payload);
+        await idbSet(WORKBOOK_KEY, wb);
+        if (!result.ok) console.error('Local backend rejected write:', result.code, result.message);
+        return result;
+    };
+
+    return {
+        fetchEmployeeDirectory: async () => parseEmployees(await read('employeedetails')),
+        fetchLookupOptions: async () => parseLookup(await read('LookUp!A:B')),
+        fetchTaskLookups: async () => parseTaskLookups(await read('LookUp!A:F')),
+        fetchLogRecords: async () => parseLogSheetRecords(await read('Logs')),
+        fetchTaskLogs: async () => parseTaskLogRecords(await read('TaskLogs')),
+        fetchEntitlements: async () => parseEntitlementRecords(await read('Entitlements')),
+        fetchHolidays: async () => parseHolidays(await read('Holidays')),
+        fetchDelegations: async () => parseDelegations(await read('Delegations')),
+        fetchRevisions: async () => parseRevisions(await read('Revisions')),
+        fetchCommentTemplates: async () => parseCommentTemplates(await read('CommentTemplates')),
+        fetchLeavePolicies: async () => parseLeavePolicies(await read('Policies')),
+        appendLogEntry: (entry) => post({ ...entry }),
+        updateLogEntry: (entry) => post({ ...entry, type: 'edit_request' }),
+        deleteLogEntry: (requestId, requestedBy) => post({ type: 'delete_request', requestId, requestedBy }),
+        requestCancellation: (requestId, cancellationReason, requestedBy) =>
+            post({ type: 'cancel_request', requestId, cancellationReason, requestedBy }),
+        submitDecision: (params) => post({ type: 'decision', ...params, managerComment: params.managerComment || '', timestamp: Date.now() }),
+        submitDecisions: (params) => post({ type: 'decision', ...params, managerComment: params.managerComment || '', timestamp: Date.now() }),
+        respondToCoverage: (params) => post({ type: 'coverage_response', ...params }),
+        submitTask: (entry) => post({ type: 'task', ...entry }),
+        saveDelegation: (params) => post({ type: 'delegation', ...params }),
+        revokeDelegation: (delegationId, requestedBy) => post({ type: 'revoke_delegation', delegationId, requestedBy }),
+        saveCommentTemplate: (params) => post({ type: 'comment_template', ...params }),
+        deleteCommentTemplate: (templateId, ownerEmail) => post({ type: 'delete_comment_template', templateId, ownerEmail }),
+    };
+};
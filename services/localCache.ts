@@ -0,0 +1,14 @@
+export const CACHE_KEY = 'swiftleave_user_roles_cache';
+export const DIRECTORY_CACHE_KEY = 'swiftleave_employee_directory_cache';
+export const LOOKUP_CACHE_KEY = 'swiftleave_lookup_cache_v1';
+export const TASK_LOOKUP_CACHE_KEY = 'task_lookup_cache';
+export const TASK_LOGS_CACHE_KEY = 'task_logs_cache';
+
+export const loadCache = <T>(key: string): Record<string, T> => {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : {};
+};
+
+export const saveCache = <T>(key: string, cache: Record<string, T>) => {
+    localStorage.setItem(key, JSON.stringify(cache));
+};
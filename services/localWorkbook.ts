@@ -0,0 +1,797 @@
+import { DecisionParams, WriteResult } from '../types';
+import {
+    applyStepDecision,
+    approverAddresses,
+    awaitingApprovers,
+    buildApprovalSteps,
+    cancellationApprovers,
+    chainFor,
+    currentStepIndex,
+    describeApprover,
+    parseApprovalSteps,
+    serializeApprovalSteps,
+} from './approvalChain';
+import { OWN_REQUEST_MESSAGE, decisionAuthority, delegatesOf, delegationFailure, validateDelegation } from './delegation';
+import { alternateUnavailableFailure, coverageFailure, findAlternateConflict, resolveAlternate, validateCoverageResponse } from './coverage';
+import { formatDateRange } from './dateUtils';
+import { cancellationBlocker, findOverlappingRequest, overlapFailure } from './leaveRules';
+import { policyFailure, policyViolations } from './leavePolicy';
+import { LeaveAction, canTransition, missingCommentMessage, nextStatus, normalizeStatus, transitionFailure } from './leaveStatus';
+import { approverEmailsFor } from './reportingLines';
+import { REVISED_FIELDS, diffFields, nextRevisionNumber } from './revisions';
+import { parseTemplateDecision, templateFailure, validateTemplate } from './commentTemplates';
+import { dueSlaAction, escalationTargets, formatWaiting, getSlaSettings, slaStatus } from './sla';
+import {
+    parseApprovalChains,
+    parseCommentTemplates,
+    parseDelegations,
+    parseEmployees,
+    parseLeavePolicies,
+    parseLogSheetRecords,
+    parseRevisions,
+} from './sheetParsers';
+import {
+    APPROVAL_CHAIN_SCHEMA,
+    ColumnMap,
+    COMMENT_TEMPLATE_SCHEMA,
+    DELEGATION_SCHEMA,
+    ENTITLEMENT_SCHEMA,
+    HOLIDAY_SCHEMA,
+    POLICY_SCHEMA,
+    LOG_SCHEMA,
+    REVISION_SCHEMA,
+    SheetSchema,
+    TASK_LOG_SCHEMA,
+    buildRow,
+    resolveColumns,
+    schemaHeaders,
+} from './sheetSchema';
+
+// In-memory stand-in for the Google spreadsheet plus a port of the Apps Script `doPost` handler
+// (scripts/google-apps-script/code.gs). Rows are kept sheet-shaped so the same parsers read them.
+
+export type SheetValues = string[][];
+export type Workbook = Record<string, SheetValues>;
+
+export type MailHandler = (to: string, subject: string, body: string) => void;
+
+
+const yearStart = () => `${new Date().getFullYear()}-01-01`;
+
+export const createSeedWorkbook = (): Workbook => ({
+    employeedetails: [
+        ['S_NO', 'EMP_CODE', 'EMP_NAME', 'ROLE', 'EMAIL_ID', 'PERMISSION_HOURS', 'REPORTING_MANAGER'],
+        ['1', 'EMP001', 'Asha Admin', 'admin', 'admin@example.com', '', ''],
+        ['2', 'EMP002', 'Manoj Manager', 'manager', 'manager@example.com', '', 'admin@example.com'],
+        ['3', 'EMP003', 'Eva Employee', 'employee', 'eva@example.com', '', 'manager@example.com'],
+        ['4', 'EMP004', 'Ravi Employee', 'employee', 'ravi@example.com', '6', 'manager@example.com'],
+    ],
+    LookUp: [
+        ['Permission Type', 'Leave Type', 'Company', 'Platform', 'Fulfillment', 'Task'],
+        ['Leave', 'Casual Leave', 'DataPower', 'Amazon', 'FBA', 'Picking'],
+        ['Permission', 'Sick Leave', 'Acme Retail', 'Flipkart', 'Easy Ship', 'Packing'],
+        ['', 'FN Permission', '', 'Material', 'Self Ship', 'Inward'],
+        ['', 'AN Permission', '', '', '', 'Return Cleared'],
+        ['', 'In Between Permission', '', '', '', ''],
+        ['', 'Unpaid Leave', '', '', '', ''],
+    ],
+    Logs: [schemaHeaders(LOG_SCHEMA)],
+    TaskLogs: [schemaHeaders(TASK_LOG_SCHEMA)],
+    Entitlements: [
+        schemaHeaders(ENTITLEMENT_SCHEMA),
+        ...['eva@example.com', 'ravi@example.com', 'manager@example.com'].flatMap((email) => [
+            [email, 'Casual Leave', 'OPENING', '12', yearStart(), 'Annual entitlement'],
+            [email, 'Sick Leave', 'OPENING', '6', yearStart(), 'Annual entitlement'],
+        ]),
+        ['eva@example.com', 'Casual Leave', 'ADJUSTMENT', '2', yearStart(), 'Carried forward'],
+    ],
+    Holidays: [
+        schemaHeaders(HOLIDAY_SCHEMA),
+        [yearStart(), "New Year's Day"],
+        [`${new Date().getFullYear()}-01-26`, 'Republic Day'],
+        [`${new Date().getFullYear()}-08-15`, 'Independence Day'],
+        [`${new Date().getFullYear()}-10-02`, 'Gandhi Jayanti'],
+        [`${new Date().getFullYear()}-12-25`, 'Christmas Day'],
+    ],
+    ApprovalChains: [schemaHeaders(APPROVAL_CHAIN_SCHEMA), ['Unpaid Leave', 'manager, admin']],
+    Delegations: [schemaHeaders(DELEGATION_SCHEMA)],
+    Revisions: [schemaHeaders(REVISION_SCHEMA)],
+    CommentTemplates: [
+        schemaHeaders(COMMENT_TEMPLATE_SCHEMA),
+        ['TPL-SEED0001', 'manager@example.com', 'Team cover', 'APPROVED', 'Approved. Please hand over open tasks before you leave.', ''],
+        ['TPL-SEED0002', 'manager@example.com', 'Busy period', 'REJECTED', 'We are short-staffed on these dates; please pick other days.', ''],
+    ],
+    Policies: [
+        schemaHeaders(POLICY_SCHEMA),
+        ['Casual Leave', '2', '5', '', `${new Date().getFullYear()}-12-24..${new Date().getFullYear()}-12-31`, '', ''],
+        ['Sick Leave', '', '', '7', '', 'yes', ''],
+    ],
+});
+
+const columnToIndex = (letters: string) =>
+    letters.toUpperCase().split('').reduce((acc, ch) => acc * 26 + (ch.charCodeAt(0) - 64), 0) - 1;
+
+const findSheetName = (wb: Workbook, name: string) => {
+    const wanted = name.replace(/^'|'$/g, '').trim().toLowerCase();
+    return Object.keys(wb).find((k) => k.toLowerCase() === wanted) || null;
+};
+
+/** Reads an A1 range such as `LookUp!A:B` or a whole sheet (`Logs`); returns null when the sheet does not exist (like a Sheets 400). */
+export const readRange = (wb: Workbook, range: string): SheetValues | null => {
+    const [sheetPart, cellsPart = ''] = range.split('!');
+    const sheetName = findSheetName(wb, sheetPart);
+    if (!sheetName) return null;
+    const rows = wb[sheetName];
+
+    const match = /^([A-Za-z]+)\d*(?::([A-Za-z]+)\d*)?$/.exec(cellsPart.trim());
+    if (!match) return rows.map((r) => r.slice());
+    const start = columnToIndex(match[1]);
+    const end = match[2] ? columnToIndex(match[2]) : start;
+    return rows.map((r) => r.slice(start, end + 1));
+};
+
+/**
+ * Returns the schema sheet (created if absent) and its column map, appending any schema header the
+ * sheet lacks, like ensureHeader_ in code.gs.
+ */
+const ensureSheet = (wb: Workbook, schema: SheetSchema): { sheet: SheetValues; map: ColumnMap } => {
+    const existing = findSheetName(wb, schema.sheet);
+    const sheet = existing ? wb[existing] : (wb[schema.sheet] = [schemaHeaders(schema)]);
+    if (!sheet.length) sheet.push([]);
+    const header = sheet[0];
+    const initial = resolveColumns(schema, header);
+    schema.columns.forEach((col) => {
+        if (initial.index[col.key] === -1) header.push(col.header);
+    });
+    return { sheet, map: resolveColumns(schema, header) };
+};
+
+const setCell = (row: string[], map: ColumnMap, key: string, value: string) => {
+    const idx = map.index[key];
+    if (idx === undefined || idx === -1) return;
+    while (row.length <= idx) row.push('');
+    row[idx] = value;
+};
+
+const str = (v: unknown) => (v === null || v === undefined ? '' : String(v));
+
+const newRequestId = () => 'REQ-' + Math.random().toString(36).slice(2, 10).toUpperCase();
+
+const findLogRow = (sheet: SheetValues, map: ColumnMap, requestId: string) =>
+    sheet.findIndex((row, idx) => idx > 0 && str(row[map.index.requestId]).trim() === requestId);
+
+const fail = (code: string, message: string, requestId?: string): WriteResult =>
+    ({ ok: false, code, message, ...(requestId ? { requestId } : {}) });
+
+/** Employees only change their own requests; `claimedEmail` is who the client says is asking. */
+const ownerFailure = (row: string[], map: ColumnMap, claimedEmail: unknown, requestId: string): WriteResult | null => {
+    const claimed = str(claimedEmail).trim().toLowerCase();
+    if (claimed && claimed === str(row[map.index.employeeEmail]).trim().toLowerCase()) return null;
+    return fail('NOT_OWNER', 'You can only change your own requests.', requestId);
+};
+
+const defaultMail: MailHandler = (to, subject) => console.info(`[local] mail to ${to}: ${subject}`);
+
+const readDirectory = (wb: Workbook) => parseEmployees(readRange(wb, 'employeedetails') || []);
+const readDelegations = (wb: Workbook) => parseDelegations(readRange(wb, 'Delegations') || []);
+
+/** Approver addresses plus whoever is standing in for them today. */
+const withDelegates = (wb: Workbook, addresses: string[]) => {
+    const delegations = readDelegations(wb);
+    return Array.from(new Set([...addresses, ...addresses.flatMap((a) => delegatesOf(delegations, a))]));
+};
+
+/** Email of the nominated alternate: the one the client resolved, else looked up by name in the directory. */
+const alternateEmailFor = (wb: Workbook, data: Record<string, any>) =>
+    str(data.alternateEmail).trim().toLowerCase() || resolveAlternate(readDirectory(wb), str(data.alternateStaff))?.email || '';
+
+/** Refuses an alternate who is on overlapping leave themselves, mirroring alternateConflict_ in code.gs. */
+const alternateBlocker = (logSheet: SheetValues, alternateEmail: string, data: Record<string, any>) => {
+    if (!alternateEmail) return null;
+    const conflict = findAlternateConflict(parseLogSheetRecords(logSheet), alternateEmail, {
+        startDate: str(data.startDate),
+        endDate: str(data.endDate || data.startDate),
+    });
+    return conflict ? alternateUnavailableFailure(str(data.alternateStaff) || alternateEmail, conflict) : null;
+};
+
+/** The Policies sheet's verdict on a new or edited request, as `policyViolations_` gives it in code.gs. */
+const policyBlocker = (wb: Workbook, data: Record<string, any>, previousStartDate?: string) => {
+    const violations = policyViolations(parseLeavePolicies(readRange(wb, 'Policies') || []), {
+        permissionType: str(data.permissionType),
+        leaveType: str(data.leaveType),
+        startDate: str(data.startDate),
+        endDate: str(data.endDate || data.startDate),
+        attachmentUrl: str(data.attachmentUrl),
+        previousStartDate,
+    });
+    return violations.length ? policyFailure(violations, str(data.requestId).trim() || undefined) : null;
+};
+
+/** Starts the SLA clock for a request now waiting on a (new) approver, mirroring startAwaiting_ in code.gs. */
+const startAwaiting = (row: string[], map: ColumnMap) => {
+    setCell(row, map, 'awaitingSince', new Date().toISOString());
+    setCell(row, map, 'remindedAt', '');
+    setCell(row, map, 'escalatedAt', '');
+};
+
+/** Asks the alternate to confirm cover, mirroring notifyAlternate_ in code.gs. */
+const notifyAlternate = (sendMail: MailHandler, to: string, employeeName: string, startDate: string, endDate: string, requestId: string) =>
+    sendMail(
+        to,
+        `${employeeName} asked you to cover their leave`,
+        `${employeeName} named you as alternate staff for ${formatDateRange(startDate, endDate)}.\n\nAccept or decline under Alternate coverage requests.\n\nRequest ID: ${requestId}`
+    );
+
+/** Passes the approver's handover note to the alternate once the leave is approved, mirroring sendAlternateNote_ in code.gs. */
+const sendAlternateNote = (sendMail: MailHandler, to: string, employeeName: string, startDate: string, endDate: string, note: string, requestId: string) =>
+    sendMail(
+        to,
+        `Handover note for ${employeeName}'s leave`,
+        `${employeeName}'s leave for ${formatDateRange(startDate, endDate)} is approved. A note from the approver:\n\n${note}\n\nRequest ID: ${requestId}`
+    );
+
+/**
+ * Decides an employee's request to cancel approved leave, mirroring decideCancellation_ in code.gs. Approving
+ * marks the leave CANCELLED, which returns its days to the balance; rejecting keeps it APPROVED.
+ */
+const decideCancellation = (
+    wb: Workbook,
+    row: string[],
+    map: ColumnMap,
+    requestId: string,
+    status: 'APPROVED' | 'REJECTED',
+    comment: string,
+    decidedBy: string,
+    sendMail: MailHandler
+): WriteResult | null => {
+    const get = (key: string) => str(row[map.index[key]]);
+    let onBehalfOf = '';
+    if (decidedBy) {
+        const directory = readDirectory(wb);
+        const approvers = cancellationApprovers(
+            { decidedBy: get('decidedBy'), onBehalfOf: get('onBehalfOf'), employeeEmail: get('employeeEmail') },
+            directory
+        );
+        const decider = { email: decidedBy, role: directory.find((emp) => emp.email === decidedBy.trim().toLowerCase())?.role || 'employee' };
+        const authority = decisionAuthority(approvers, decider, get('employeeEmail'), readDelegations(wb));
+        if (authority.ownRequest) return fail('NOT_AUTHORIZED', OWN_REQUEST_MESSAGE, requestId);
+        if (!authority.allowed) {
+            return fail('NOT_APPROVER', `This cancellation is awaiting ${approvers.join(', ')}.`, requestId);
+        }
+        onBehalfOf = authority.onBehalfOf || '';
+    }
+    const cancelled = status === 'APPROVED';
+    setCell(row, map, 'status', nextStatus(get('status'), cancelled ? 'approve_cancellation' : 'reject_cancellation')!);
+    setCell(row, map, 'managerComment', comment);
+    if (cancelled) setCell(row, map, 'managerAction', 'CANCEL');
+    setCell(row, map, 'decidedBy', decidedBy.trim().toLowerCase());
+    setCell(row, map, 'onBehalfOf', onBehalfOf);
+    const employeeEmail = get('employeeEmail');
+    if (employeeEmail) {
+        sendMail(
+            employeeEmail,
+            `Your leave cancellation (${requestId}) has been ${cancelled ? 'approved' : 'declined'}`,
+            cancelled
+                ? 'Your leave has been cancelled and the days returned to your balance.'
+                : 'Your cancellation was declined; the leave stays approved.'
+        );
+    }
+    return null;
+};
+
+type DecisionStatus = DecisionParams['status'];
+
+const DECISION_ACTIONS: Record<DecisionStatus, LeaveAction> = {
+    APPROVED: 'approve',
+    REJECTED: 'reject',
+    NEEDS_INFO: 'request_info',
+};
+
+/**
+ * Records an approve/reject decision on a Logs row, mirroring decideRequest_ in code.gs. Rows with an
+ * approval chain advance one step; the employee hears back only once the request is fully decided.
+ * NEEDS_INFO sends the request back to the employee without deciding the step. `decidedBy` is empty for
+ * emailed links, which only reach single-step requests. `alternateNote` goes to the alternate staff on final approval.
+ */
+const decideRequest = (
+    wb: Workbook,
+    row: string[],
+    map: ColumnMap,
+    requestId: string,
+    status: DecisionStatus,
+    comment: string,
+    decidedBy: string,
+    sendMail: MailHandler,
+    alternateNote = ''
+): WriteResult | null => {
+    const get = (key: string) => str(row[map.index[key]]);
+    if (normalizeStatus(get('status')) === 'CANCEL_REQUESTED' && status !== 'NEEDS_INFO') {
+        return decideCancellation(wb, row, map, requestId, status, comment, decidedBy, sendMail);
+    }
+    if (!canTransition(get('status'), DECISION_ACTIONS[status])) {
+        return transitionFailure(get('status'), DECISION_ACTIONS[status], requestId);
+    }
+    // Emailed reject links cannot carry a reason; decisions made in the app must explain a rejection.
+    const missingComment = missingCommentMessage(status, comment);
+    if (missingComment && (decidedBy || status === 'NEEDS_INFO')) return fail('MISSING_COMMENT', missingComment, requestId);
+    const directory = readDirectory(wb);
+    const delegations = readDelegations(wb);
+    const steps = parseApprovalSteps(get('approvalSteps'));
+    const decider = { email: decidedBy, role: directory.find((emp) => emp.email === decidedBy.trim().toLowerCase())?.role || 'employee' };
+    let onBehalfOf = '';
+    const notifyEmployee = () => {
+        const employeeEmail = get('employeeEmail');
+        if (!employeeEmail) return;
+        const finalAction = status === 'APPROVED' ? 'approved' : 'rejected';
+        sendMail(employeeEmail, `Your leave request (${requestId}) has been ${finalAction}`, `Your leave request was ${finalAction}.\n\nStatus: ${status}`);
+    };
+
+    // The current step stays PENDING; the employee's edit restarts the chain anyway.
+    const requestInfo = () => {
+        setCell(row, map, 'status', nextStatus(get('status'), 'request_info')!);
+        setCell(row, map, 'managerComment', comment);
+        setCell(row, map, 'decidedBy', decidedBy.trim().toLowerCase());
+        setCell(row, map, 'onBehalfOf', onBehalfOf);
+        const employeeEmail = get('employeeEmail');
+        if (employeeEmail) {
+            sendMail(employeeEmail, `More information needed for your leave request (${requestId})`, `${comment}\n\nEdit the request to send it back for approval.`);
+        }
+        return null;
+    };
+
+    if (steps.length) {
+        const idx = currentStepIndex(steps);
+        if (idx === -1) return fail('NOT_PENDING', 'This request is not awaiting a decision.', requestId);
+        if (decidedBy) {
+            const authority = decisionAuthority(
+                approverAddresses(steps[idx].approver, directory),
+                decider,
+                get('employeeEmail'),
+                delegations
+            );
+            if (authority.ownRequest) return fail('NOT_AUTHORIZED', OWN_REQUEST_MESSAGE, requestId);
+            if (!authority.allowed) {
+                return fail('NOT_APPROVER', `Step ${idx + 1} of this request is awaiting ${steps[idx].approver}.`, requestId);
+            }
+            onBehalfOf = authority.onBehalfOf || '';
+        }
+        if (status === 'NEEDS_INFO') return requestInfo();
+        const outcome = applyStepDecision(steps, status, decidedBy, comment, { onBehalfOf })!;
+        setCell(row, map, 'approvalSteps', serializeApprovalSteps(outcome.steps));
+        setCell(row, map, 'decidedBy', decidedBy.trim().toLowerCase());
+        setCell(row, map, 'onBehalfOf', onBehalfOf);
+        if (!outcome.final) {
+            startAwaiting(row, map);
+            withDelegates(wb, approverAddresses(outcome.nextApprover!, directory)).forEach((to) =>
+                sendMail(
+                    to,
+                    `Leave request from ${get('employeeName')} awaiting your approval`,
+                    `Step ${idx + 2} of ${steps.length}: step ${idx + 1} was approved.\n\nRequest ID: ${requestId}`
+                )
+            );
+            return null;
+        }
+    } else if (decidedBy) {
+        // Rows from before approval chains wait on the employee's reporting manager (or the admins).
+        const approvers = approverEmailsFor(directory, get('employeeEmail'));
+        const authority = decisionAuthority(approvers, decider, get('employeeEmail'), delegations);
+        if (authority.ownRequest) return fail('NOT_AUTHORIZED', OWN_REQUEST_MESSAGE, requestId);
+        if (!authority.allowed) return fail('NOT_APPROVER', `This request is awaiting ${approvers.join(', ')}.`, requestId);
+        onBehalfOf = authority.onBehalfOf || '';
+        setCell(row, map, 'decidedBy', decidedBy.trim().toLowerCase());
+        setCell(row, map, 'onBehalfOf', onBehalfOf);
+    }
+
+    if (status === 'NEEDS_INFO') return requestInfo();
+    setCell(row, map, 'status', status);
+    setCell(row, map, 'managerComment', comment);
+    setCell(row, map, 'managerAction', status === 'APPROVED' ? 'APPROVE' : 'DENY');
+    notifyEmployee();
+    const alternateEmail = get('alternateEmail') || resolveAlternate(directory, get('alternateStaff'))?.email;
+    if (status === 'APPROVED' && alternateNote && alternateEmail) {
+        sendAlternateNote(sendMail, alternateEmail, get('employeeName'), get('startDate'), get('endDate'), alternateNote, requestId);
+    }
+    return null;
+};
+
+/**
+ * Applies a webhook payload to the workbook, mirroring `doPost` in code.gs.
+ * Returns the same JSON acknowledgement the script does.
+ */
+export const applyWebhookPayload = (
+    wb: Workbook,
+    data: Record<string, any>,
+    sendMail: MailHandler = defaultMail
+): WriteResult => {
+    const payloadType = str(data.type || 'request').toLowerCase();
+
+    if (payloadType === 'task') {
+        const { sheet: taskSheet, map } = ensureSheet(wb, TASK_LOG_SCHEMA);
+        taskSheet.push(buildRow(map, taskSheet[0].length, {
+            timestamp: new Date(data.timestamp || Date.now()).toISOString(),
+            employeeName: str(data.employeeName),
+            employeeEmail: str(data.employeeEmail),
+            company: str(data.company),
+            platform: str(data.platform),
+            fulfillment: str(data.fulfillment),
+            task: str(data.task),
+            quantity: str(data.quantity || 0),
+            claimedQuantity: str(data.claimedQuantity || 0),
+        }));
+        return { ok: true, row: taskSheet.length };
+    }
+
+    const { sheet: logSheet, map } = ensureSheet(wb, LOG_SCHEMA);
+    const get = (row: string[], key: string) => str(row[map.index[key]]);
+
+    if (payloadType === 'decision') {
+        const requested = str(data.status).toUpperCase();
+        const status: DecisionStatus = requested === 'APPROVED' || requested === 'NEEDS_INFO' ? requested : 'REJECTED';
+        // Only emailed links (applyApprovalLink) decide without naming the decider.
+        const approverEmail = str(data.approverEmail).trim().toLowerCase();
+        if (!approverEmail) return fail('NOT_AUTHORIZED', 'Sign in as an approver to decide requests.');
+        const decide = (requestId: string): WriteResult => {
+            if (!requestId) return fail('MISSING_REQUEST_ID', 'Missing requestId');
+            const rowIndex = findLogRow(logSheet, map, requestId);
+            if (rowIndex === -1) return fail('NOT_FOUND', 'Request ID not found', requestId);
+            const failure = decideRequest(
+                wb,
+                logSheet[rowIndex],
+                map,
+                requestId,
+                status,
+                str(data.managerComment).trim(),
+                approverEmail,
+                sendMail,
+                str(data.alternateNote).trim()
+            );
+            return failure || { ok: true, requestId, row: rowIndex + 1 };
+        };
+        // A batch from the dashboard's bulk actions: one refused request does not stop the others. The batch
+        // itself is acknowledged (its accepted rows are written); refusals are reported per request.
+        if (Array.isArray(data.requestIds)) {
+            if (!data.requestIds.length) return fail('MISSING_REQUEST_ID', 'Missing requestIds');
+            const results: WriteResult[] = (data.requestIds as unknown[]).map((id) => decide(str(id).trim()));
+            const refused = results.filter((r) => !r.ok).length;
+            return { ok: true, results, ...(refused ? { message: `${refused} of ${results.length} decisions were not recorded.` } : {}) };
+        }
+        return decide(str(data.requestId || data.rid).trim());
+    }
+
+    if (payloadType === 'edit_request') {
+        const requestId = str(data.requestId).trim();
+        if (!requestId) return fail('MISSING_REQUEST_ID', 'Missing requestId');
+        const rowIndex = findLogRow(logSheet, map, requestId);
+        if (rowIndex === -1) return fail('NOT_FOUND', 'Request ID not found', requestId);
+        const row = logSheet[rowIndex];
+        const notOwner = ownerFailure(row, map, data.employeeEmail, requestId);
+        if (notOwner) return notOwner;
+        const previousStatus = get(row, 'status');
+        if (!canTransition(previousStatus, 'edit')) return transitionFailure(previousStatus, 'edit', requestId);
+        const violation = policyBlocker(wb, data, get(row, 'startDate'));
+        if (violation) return violation;
+        const conflict = findOverlappingRequest(parseLogSheetRecords(logSheet), {
+            requestId,
+            employeeEmail: get(row, 'employeeEmail'),
+            startDate: str(data.startDate),
+            endDate: str(data.endDate || data.startDate),
+        });
+        if (conflict) return overlapFailure(conflict);
+        const alternateEmail = data.alternateStaff ? alternateEmailFor(wb, data) : '';
+        const unavailable = alternateBlocker(logSheet, alternateEmail, data);
+        if (unavailable) return unavailable;
+        // An edited request starts its approval chain again.
+        const leaveType = str(data.leaveType);
+        const chain = chainFor(parseApprovalChains(readRange(wb, 'ApprovalChains') || []), leaveType);
+        const directory = readDirectory(wb);
+        const steps = buildApprovalSteps(chain, directory, get(row, 'employeeEmail'));
+        setCell(row, map, 'approvalSteps', serializeApprovalSteps(steps));
+        setCell(row, map, 'status', nextStatus(previousStatus, 'edit')!);
+        startAwaiting(row, map);
+        const edited: Record<string, string> = {
+            startDate: str(data.startDate),
+            endDate: str(data.endDate || data.startDate),
+            reason: str(data.reason),
+            permissionType: str(data.permissionType),
+            leaveType: str(data.leaveType),
+            requestedInTime: str(data.requestedInTime),
+            requestedOutTime: str(data.requestedOutTime),
+            alternateStaff: str(data.alternateStaff),
+            attachmentUrl: str(data.attachmentUrl).trim(),
+        };
+        // Every edit that changes something is kept as a numbered revision, one Revisions row per field.
+        const changes = diffFields(Object.fromEntries(REVISED_FIELDS.map(({ key }) => [key, get(row, key)])), edited);
+        if (changes.length) {
+            const { sheet: revisionSheet, map: revisionMap } = ensureSheet(wb, REVISION_SCHEMA);
+            const revision = String(nextRevisionNumber(parseRevisions(revisionSheet), requestId));
+            const timestamp = new Date().toISOString();
+            const editedBy = get(row, 'employeeEmail').trim().toLowerCase();
+            changes.forEach((change) =>
+                revisionSheet.push(buildRow(revisionMap, revisionSheet[0].length, { timestamp, requestId, revision, editedBy, ...change }))
+            );
+        }
+        Object.entries(edited).forEach(([key, value]) => setCell(row, map, key, value));
+        // A different alternate has to confirm again; an unchanged one keeps their answer.
+        if (alternateEmail !== get(row, 'alternateEmail')) {
+            setCell(row, map, 'alternateEmail', alternateEmail);
+            setCell(row, map, 'coverageStatus', alternateEmail ? 'PENDING' : '');
+            setCell(row, map, 'coverageNote', '');
+            if (alternateEmail) {
+                notifyAlternate(sendMail, alternateEmail, get(row, 'employeeName'), edited.startDate, edited.endDate, requestId);
+            }
+        }
+        if (normalizeStatus(previousStatus) === 'NEEDS_INFO') {
+            withDelegates(wb, approverAddresses(steps[0].approver, directory)).forEach((to) =>
+                sendMail(to, `Leave request from ${get(row, 'employeeName')} updated`, `The requested information was added.\n\nRequest ID: ${requestId}`)
+            );
+        }
+        return { ok: true, requestId, row: rowIndex + 1 };
+    }
+
+    if (payloadType === 'coverage_response') {
+        const requestId = str(data.requestId).trim();
+        if (!requestId) return fail('MISSING_REQUEST_ID', 'Missing requestId');
+        const rowIndex = findLogRow(logSheet, map, requestId);
+        if (rowIndex === -1) return fail('NOT_FOUND', 'Request ID not found', requestId);
+        const row = logSheet[rowIndex];
+        const response = str(data.response).toUpperCase() as 'ACCEPTED' | 'DECLINED';
+        const invalid = validateCoverageResponse(
+            { alternateEmail: get(row, 'alternateEmail').toLowerCase(), status: get(row, 'status') },
+            { responderEmail: str(data.responderEmail), response }
+        );
+        if (invalid) return coverageFailure(invalid, requestId);
+        const note = str(data.note).trim();
+        setCell(row, map, 'coverageStatus', response);
+        setCell(row, map, 'coverageNote', note);
+        const employeeEmail = get(row, 'employeeEmail');
+        if (employeeEmail) {
+            const accepted = response === 'ACCEPTED';
+            sendMail(
+                employeeEmail,
+                `${get(row, 'alternateStaff')} ${accepted ? 'accepted' : 'declined'} covering your leave (${requestId})`,
+                accepted
+                    ? 'Your alternate confirmed they will cover for you.'
+                    : `Your alternate cannot cover for you${note ? `: ${note}` : '.'}\n\nEdit the request to name someone else.`
+            );
+        }
+        return { ok: true, requestId, row: rowIndex + 1 };
+    }
+
+    if (payloadType === 'delegation') {
+        const { sheet: delegationSheet, map: delegationMap } = ensureSheet(wb, DELEGATION_SCHEMA);
+        const params = {
+            delegatorEmail: str(data.delegatorEmail).trim().toLowerCase(),
+            delegateEmail: str(data.delegateEmail).trim().toLowerCase(),
+            startDate: str(data.startDate),
+            endDate: str(data.endDate || data.startDate),
+        };
+        if (str(data.requestedBy).trim().toLowerCase() !== params.delegatorEmail) {
+            return fail('NOT_OWNER', 'You can only delegate your own approvals.');
+        }
+        const invalid = validateDelegation(params, readDirectory(wb), parseDelegations(delegationSheet));
+        if (invalid) return delegationFailure(invalid);
+        const delegationId = 'DLG-' + Math.random().toString(36).slice(2, 10).toUpperCase();
+        delegationSheet.push(buildRow(delegationMap, delegationSheet[0].length, {
+            delegationId,
+            ...params,
+            status: 'ACTIVE',
+            createdAt: new Date().toISOString(),
+        }));
+        sendMail(params.delegateEmail, 'Approvals delegated to you', `${params.delegatorEmail} delegated their approvals to you from ${params.startDate} to ${params.endDate}.`);
+        return { ok: true, delegationId, row: delegationSheet.length };
+    }
+
+    if (payloadType === 'revoke_delegation') {
+        const { sheet: delegationSheet, map: delegationMap } = ensureSheet(wb, DELEGATION_SCHEMA);
+        const delegationId = str(data.delegationId).trim();
+        const rowIndex = delegationSheet.findIndex((row, idx) => idx > 0 && str(row[delegationMap.index.delegationId]).trim() === delegationId);
+        if (rowIndex === -1) return fail('NOT_FOUND', 'Delegation not found');
+        if (str(delegationSheet[rowIndex][delegationMap.index.delegatorEmail]).trim().toLowerCase() !== str(data.requestedBy).trim().toLowerCase()) {
+            return fail('NOT_OWNER', 'Only the manager who delegated their approvals can revoke it.');
+        }
+        setCell(delegationSheet[rowIndex], delegationMap, 'status', 'REVOKED');
+        return { ok: true, delegationId, row: rowIndex + 1 };
+    }
+
+    if (payloadType === 'comment_template') {
+        const { sheet: templateSheet, map: templateMap } = ensureSheet(wb, COMMENT_TEMPLATE_SCHEMA);
+        const params = {
+            ownerEmail: str(data.ownerEmail).trim().toLowerCase(),
+            label: str(data.label).trim(),
+            decision: parseTemplateDecision(str(data.decision)),
+            text: str(data.text).trim(),
+        };
+        const invalid = validateTemplate(params, parseCommentTemplates(templateSheet));
+        if (invalid) return templateFailure(invalid);
+        const templateId = 'TPL-' + Math.random().toString(36).slice(2, 10).toUpperCase();
+        templateSheet.push(buildRow(templateMap, templateSheet[0].length, { templateId, ...params, createdAt: new Date().toISOString() }));
+        return { ok: true, templateId, row: templateSheet.length };
+    }
+
+    if (payloadType === 'delete_comment_template') {
+        const { sheet: templateSheet, map: templateMap } = ensureSheet(wb, COMMENT_TEMPLATE_SCHEMA);
+        const templateId = str(data.templateId).trim();
+        const rowIndex = templateSheet.findIndex((row, idx) => idx > 0 && str(row[templateMap.index.templateId]).trim() === templateId);
+        if (rowIndex === -1) return fail('NOT_FOUND', 'Template not found');
+        if (str(templateSheet[rowIndex][templateMap.index.ownerEmail]).trim().toLowerCase() !== str(data.ownerEmail).trim().toLowerCase()) {
+            return fail('NOT_OWNER', 'Only the manager who saved a template can delete it.');
+        }
+        templateSheet.splice(rowIndex, 1);
+        return { ok: true, templateId };
+    }
+
+    if (payloadType === 'cancel_request') {
+        const requestId = str(data.requestId).trim();
+        if (!requestId) return fail('MISSING_REQUEST_ID', 'Missing requestId');
+        const rowIndex = findLogRow(logSheet, map, requestId);
+        if (rowIndex === -1) return fail('NOT_FOUND', 'Request ID not found', requestId);
+        const row = logSheet[rowIndex];
+        const notOwner = ownerFailure(row, map, data.requestedBy, requestId);
+        if (notOwner) return notOwner;
+        if (!canTransition(get(row, 'status'), 'request_cancellation')) {
+            return transitionFailure(get(row, 'status'), 'request_cancellation', requestId);
+        }
+        const blocker = cancellationBlocker({ status: get(row, 'status'), startDate: get(row, 'startDate'), endDate: get(row, 'endDate') });
+        if (blocker) return fail('NOT_CANCELLABLE', blocker, requestId);
+        const reason = str(data.cancellationReason).trim();
+        if (!reason) return fail('MISSING_REASON', 'Give a reason for the cancellation.', requestId);
+        setCell(row, map, 'status', nextStatus(get(row, 'status'), 'request_cancellation')!);
+        setCell(row, map, 'cancellationReason', reason);
+        startAwaiting(row, map);
+        const approvers = cancellationApprovers(
+            { decidedBy: get(row, 'decidedBy'), onBehalfOf: get(row, 'onBehalfOf'), employeeEmail: get(row, 'employeeEmail') },
+            readDirectory(wb)
+        );
+        withDelegates(wb, approvers).forEach((to) =>
+            sendMail(
+                to,
+                `Leave cancellation requested by ${get(row, 'employeeName')}`,
+                `${get(row, 'employeeName')} asked to cancel approved leave.\n\nReason: ${reason}\n\nRequest ID: ${requestId}`
+            )
+        );
+        return { ok: true, requestId, row: rowIndex + 1 };
+    }
+
+    if (payloadType === 'delete_request') {
+        const requestId = str(data.requestId).trim();
+        if (!requestId) return fail('MISSING_REQUEST_ID', 'Missing requestId');
+        const rowIndex = findLogRow(logSheet, map, requestId);
+        if (rowIndex === -1) return fail('NOT_FOUND', 'Request ID not found', requestId);
+        const notOwner = ownerFailure(logSheet[rowIndex], map, data.requestedBy, requestId);
+        if (notOwner) return notOwner;
+        const current = get(logSheet[rowIndex], 'status');
+        if (!canTransition(current, 'withdraw')) return transitionFailure(current, 'withdraw', requestId);
+        setCell(logSheet[rowIndex], map, 'status', nextStatus(current, 'withdraw')!);
+        return { ok: true, requestId, row: rowIndex + 1 };
+    }
+
+    const violation = policyBlocker(wb, data);
+    if (violation) return violation;
+    const conflict = findOverlappingRequest(parseLogSheetRecords(logSheet), {
+        employeeEmail: str(data.employeeEmail),
+        startDate: str(data.startDate),
+        endDate: str(data.endDate || data.startDate),
+    });
+    if (conflict) return overlapFailure(conflict);
+    const alternateEmail = data.alternateStaff ? alternateEmailFor(wb, data) : '';
+    const unavailable = alternateBlocker(logSheet, alternateEmail, data);
+    if (unavailable) return unavailable;
+
+    const requestId = newRequestId();
+    const directory = readDirectory(wb);
+    const chain = chainFor(parseApprovalChains(readRange(wb, 'ApprovalChains') || []), str(data.leaveType));
+    const steps = buildApprovalSteps(chain, directory, str(data.employeeEmail));
+    const submittedAt = new Date().toISOString();
+    logSheet.push(buildRow(map, logSheet[0].length, {
+        timestamp: submittedAt,
+        requestId,
+        type: 'request',
+        // New requests always wait for a decision, whatever the client sent.
+        status: 'PENDING',
+        employeeName: str(data.employeeName),
+        employeeEmail: str(data.employeeEmail),
+        employeeId: str(data.employeeId),
+        startDate: str(data.startDate),
+        endDate: str(data.endDate || data.startDate),
+        reason: str(data.reason),
+        managerComment: '',
+        managerAction: '',
+        permissionType: str(data.permissionType),
+        leaveType: str(data.leaveType),
+        requestedInTime: str(data.requestedInTime),
+        requestedOutTime: str(data.requestedOutTime),
+        alternateStaff: str(data.alternateStaff),
+        approvalSteps: serializeApprovalSteps(steps),
+        alternateEmail,
+        coverageStatus: alternateEmail ? 'PENDING' : '',
+        awaitingSince: submittedAt,
+        attachmentUrl: str(data.attachmentUrl).trim(),
+    }));
+    if (alternateEmail) {
+        notifyAlternate(sendMail, alternateEmail, str(data.employeeName), str(data.startDate), str(data.endDate || data.startDate), requestId);
+    }
+    withDelegates(wb, approverAddresses(steps[0].approver, directory)).forEach((approver) =>
+        sendMail(approver, `New leave request from ${str(data.employeeName)}`, `A new leave request has been submitted.\n\nRequest ID: ${requestId}`)
+    );
+    return { ok: true, requestId, row: logSheet.length };
+};
+
+const LINK_REFUSED_MESSAGE = 'Email links only decide single-approver leave requests. Open Manage Leave to decide this one.';
+
+/**
+ * Applies a manager's emailed approve/reject link, mirroring `doGet` in code.gs.
+ * `action` is the link's `action` parameter (APPROVE or REJECT).
+ */
+export const applyApprovalLink = (
+    wb: Workbook,
+    action: string,
+    requestId: string,
+    sendMail: MailHandler = defaultMail
+): WriteResult => {
+    const { sheet: logSheet, map } = ensureSheet(wb, LOG_SCHEMA);
+    const rowIndex = findLogRow(logSheet, map, requestId);
+    if (rowIndex === -1) return fail('NOT_FOUND', 'Request ID not found', requestId);
+    // A link names no approver, so it cannot tell whose step it decides: chains and cancellations need the app.
+    const row = logSheet[rowIndex];
+    if (
+        normalizeStatus(str(row[map.index.status])) === 'CANCEL_REQUESTED' ||
+        parseApprovalSteps(str(row[map.index.approvalSteps])).length > 1
+    ) {
+        return fail('NOT_AUTHORIZED', LINK_REFUSED_MESSAGE, requestId);
+    }
+    const status = action.toUpperCase() === 'APPROVE' ? 'APPROVED' : 'REJECTED';
+    const failure = decideRequest(wb, row, map, requestId, status, '', '', sendMail);
+    return failure || { ok: true, requestId, row: rowIndex + 1 };
+};
+
+/**
+ * One run of the SLA job, mirroring `sendSlaReminders` in code.gs. Approvers of requests that have waited past
+ * the reminder threshold, or whose leave starts soon, are reminded once; requests still undecided past the
+ * escalation threshold are then escalated once. Returns how many of each were sent.
+ */
+export const runSlaReminders = (
+    wb: Workbook,
+    sendMail: MailHandler = defaultMail,
+    now: Date = new Date()
+): { reminded: number; escalated: number } => {
+    const { sheet: logSheet, map } = ensureSheet(wb, LOG_SCHEMA);
+    const directory = readDirectory(wb);
+    const settings = getSlaSettings();
+    const today = now.toLocaleDateString('en-CA');
+    const sent = { reminded: 0, escalated: 0 };
+    parseLogSheetRecords(logSheet).forEach((record) => {
+        const approvers = awaitingApprovers(record, directory);
+        if (!approvers.length) return;
+        const sla = slaStatus(record, settings, now, today);
+        const action = dueSlaAction(record, sla);
+        if (!action) return;
+        const row = logSheet[findLogRow(logSheet, map, record.requestId)];
+        const name = record.employeeName || record.employeeEmail;
+        const what = `${name}'s ${record.status === 'CANCEL_REQUESTED' ? 'cancellation request' : 'leave request'} for ${formatDateRange(record.startDate, record.endDate)}`;
+        if (action === 'remind') {
+            const starts = sla.startsSoon ? ` The leave starts on ${record.startDate}.` : '';
+            withDelegates(wb, approvers).forEach((to) =>
+                sendMail(
+                    to,
+                    `Reminder: leave request from ${name} awaiting your decision`,
+                    `${what} has waited ${formatWaiting(sla.hoursWaiting)} for your decision.${starts}\n\nRequest ID: ${record.requestId}`
+                )
+            );
+            setCell(row, map, 'remindedAt', now.toISOString());
+            sent.reminded++;
+            return;
+        }
+        const waitingOn = approvers.map((a) => describeApprover(a, directory)).join(', ');
+        escalationTargets(approvers, directory).forEach((to) =>
+            sendMail(
+                to,
+                `Overdue leave request from ${name}`,
+                `${what} has waited ${formatWaiting(sla.hoursWaiting)} on ${waitingOn} without a decision. Please follow up.\n\nRequest ID: ${record.requestId}`
+            )
+        );
+        setCell(row, map, 'escalatedAt', now.toISOString());
+        sent.escalated++;
+    });
+    return sent;
+};
@@ -0,0 +1,237 @@
+import { v4 as uuidv4 } from 'uuid';
+import { WriteResult } from '../types';
+import { idbGet, idbSet } from './idbStore';
+
+// Durable outbox for webhook mutations. Writes that fail for transient reasons (offline, network
+// drop, unreadable response) are stored in IndexedDB and replayed with exponential backoff.
+// Items sharing a request ID are replayed strictly in the order they were queued; a bulk decision waits behind
+// (and holds up) every request it names.
+
+export type OutboxKind =
+    | 'task'
+    | 'request'
+    | 'edit_request'
+    | 'delete_request'
+    | 'cancel_request'
+    | 'coverage_response'
+    | 'decision'
+    | 'delegation'
+    | 'revoke_delegation'
+    | 'comment_template'
+    | 'delete_comment_template';
+
+export type OutboxItem = {
+    id: string;
+    kind: OutboxKind;
+    payload: Record<string, any>;
+    orderKeys: string[]; // the request IDs it touches, otherwise just the item ID
+    createdAt: number;
+    attempts: number;
+    nextAttemptAt: number;
+    status: 'pending' | 'failed';
+    lastError?: string;
+};
+
+export type OutboxStatus = {
+    pending: number;
+    failed: number;
+    rejected: { kind: OutboxKind; requestId?: string; error?: string }[]; // the failed items, oldest first
+    isFlushing: boolean;
+};
+
+export type OutboxSender = (kind: OutboxKind, payload: Record<string, any>) => Promise<WriteResult>;
+
+const OUTBOX_KEY = 'outbox_v1';
+const BASE_DELAY_MS = 5_000;
+const MAX_DELAY_MS = 5 * 60_000;
+const TRANSIENT_CODES = new Set(['NETWORK_ERROR', 'INVALID_RESPONSE']);
+
+export const isTransientFailure = (result: WriteResult) => !result.ok && TRANSIENT_CODES.has(result.code || '');
+
+const backoffDelay = (attempts: number) => Math.min(BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_DELAY_MS);
+
+let sender: OutboxSender | null = null;
+let items: OutboxItem[] | null = null;
+let isFlushing = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<(status: OutboxStatus) => void>();
+
+/** The requests a payload touches: a bulk decision's `requestIds`, or its `requestId`. */
+export const requestIdsOf = (payload: Record<string, any>): string[] =>
+    (Array.isArray(payload.requestIds) ? payload.requestIds : [payload.requestId]).map((id: unknown) => String(id || '')).filter(Boolean);
+
+const loadItems = async () => {
+    if (!items) {
+        // Items queued before bulk decisions were ordered by every request they name carry a single orderKey.
+        const stored = (await idbGet<(OutboxItem & { orderKey?: string })[]>(OUTBOX_KEY)) || [];
+        items = stored.map(({ orderKey, ...item }) => ({ ...item, orderKeys: item.orderKeys || [orderKey || item.id] }));
+    }
+    return items;
+};
+
+const sharesKey = (item: OutboxItem, keys: string[]) => item.orderKeys.some((k) => keys.includes(k));
+
+const persist = async () => {
+    await idbSet(OUTBOX_KEY, items || []);
+    notify();
+};
+
+const currentStatus = (): OutboxStatus => {
+    const failed = (items || []).filter((i) => i.status === 'failed');
+    return {
+        pending: (items || []).filter((i) => i.status === 'pending').length,
+        failed: failed.length,
+        rejected: failed.map((i) => ({ kind: i.kind, requestId: requestIdsOf(i.payload).join(', ') || undefined, error: i.lastError })),
+        isFlushing,
+    };
+};
+
+const notify = () => {
+    const status = currentStatus();
+    listeners.forEach((fn) => fn(status));
+};
+
+export const subscribeOutbox = (fn: (status: OutboxStatus) => void) => {
+    listeners.add(fn);
+    loadItems().then(() => fn(currentStatus()));
+    return () => {
+        listeners.delete(fn);
+    };
+};
+
+/** True when an earlier mutation for any of these requests is still waiting to sync, so this one must wait behind it. */
+export const hasQueuedFor = async (requestIds: string[]) => {
+    if (!requestIds.length) return false;
+    return (await loadItems()).some((i) => i.status === 'pending' && sharesKey(i, requestIds));
+};
+
+/**
+ * The server-rejected item holding up a request, if any. Nothing behind it can be sent until it is discarded,
+ * so new writes for that request are refused rather than queued.
+ */
+export const failedItemFor = async (requestIds: string[]) => {
+    if (!requestIds.length) return undefined;
+    return (await loadItems()).find((i) => i.status === 'failed' && sharesKey(i, requestIds));
+};
+
+export const enqueue = async (kind: OutboxKind, payload: Record<string, any>, lastError?: string): Promise<OutboxItem> => {
+    await loadItems();
+    const id = uuidv4();
+    const requestIds = requestIdsOf(payload);
+    const item: OutboxItem = {
+        id,
+        kind,
+        payload,
+        orderKeys: requestIds.length ? requestIds : [id],
+        createdAt: Date.now(),
+        attempts: lastError ? 1 : 0,
+        nextAttemptAt: Date.now() + (lastError ? backoffDelay(1) : 0),
+        status: 'pending',
+        lastError,
+    };
+    items!.push(item);
+    await persist();
+    scheduleRetry();
+    return item;
+};
+
+const scheduleRetry = () => {
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+    // Only an item at the head of every request queue it is in can run next; items behind it wait for it.
+    const seen = new Set<string>();
+    const heads: OutboxItem[] = [];
+    [...(items || [])]
+        .sort((a, b) => a.createdAt - b.createdAt)
+        .forEach((i) => {
+            if (!i.orderKeys.some((k) => seen.has(k))) heads.push(i);
+            i.orderKeys.forEach((k) => seen.add(k));
+        });
+    const due = heads.filter((i) => i.status === 'pending');
+    if (!due.length) return;
+    const soonest = Math.min(...due.map((i) => i.nextAttemptAt));
+    retryTimer = setTimeout(() => {
+        void flushOutbox();
+    }, Math.max(0, soonest - Date.now()));
+};
+
+/** Replays due items. The head of each request's queue blocks the items behind it until it succeeds. */
+export const flushOutbox = async () => {
+    if (isFlushing || !sender) return;
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) return;
+    await loadItems();
+    isFlushing = true;
+    notify();
+
+    try {
+        const blockedKeys = new Set<string>();
+        const block = (item: OutboxItem) => item.orderKeys.forEach((k) => blockedKeys.add(k));
+        const queue = [...items!].sort((a, b) => a.createdAt - b.createdAt);
+        for (const item of queue) {
+            // A waiting item also holds up its other requests, so nothing overtakes it on any of them.
+            if (item.orderKeys.some((k) => blockedKeys.has(k)) || item.status === 'failed' || item.nextAttemptAt > Date.now()) {
+                block(item);
+                continue;
+            }
+
+            let result: WriteResult;
+            try {
+                result = await sender(item.kind, item.payload);
+            } catch (err) {
+                // A sender that throws (e.g. storage errors in the local backend) is retried like a network drop.
+                console.error('Outbox item could not be sent', item.kind, err);
+                result = { ok: false, code: 'NETWORK_ERROR', message: err instanceof Error ? err.message : String(err) };
+            }
+            if (result.ok) {
+                items = items!.filter((i) => i.id !== item.id);
+            } else if (isTransientFailure(result)) {
+                item.attempts += 1;
+                item.nextAttemptAt = Date.now() + backoffDelay(item.attempts);
+                item.lastError = result.message || result.code;
+                block(item);
+            } else {
+                // The server rejected it outright; retrying will not help, keep it visible instead.
+                console.error('Outbox item rejected by server', item.kind, result.code, result.message);
+                item.status = 'failed';
+                item.lastError = result.message || result.code;
+                block(item);
+            }
+            await persist();
+        }
+    } finally {
+        isFlushing = false;
+        notify();
+        scheduleRetry();
+    }
+};
+
+/** Makes every pending item due now and replays them; used when connectivity returns and by the Retry button. */
+export const retryOutboxNow = async () => {
+    (await loadItems()).forEach((i) => {
+        if (i.status === 'pending') i.nextAttemptAt = Date.now();
+    });
+    await flushOutbox();
+};
+
+export const discardFailedOutboxItems = async () => {
+    await loadItems();
+    items = items!.filter((i) => i.status !== 'failed');
+    await persist();
+    scheduleRetry();
+};
+
+/** Starts background replay; connectivity returning makes every pending item due immediately. */
+export const startOutboxSync = (send: OutboxSender) => {
+    sender = send;
+    const handleOnline = () => {
+        void retryOutboxNow();
+    };
+    window.addEventListener('online', handleOnline);
+    void flushOutbox();
+    return () => {
+        window.removeEventListener('online', handleOnline);
+        if (retryTimer) clearTimeout(retryTimer);
+        retryTimer = null;
+        sender = null;
+    };
+};
@@ -0,0 +1,115 @@
+import { EmployeeRecord, LogSheetRecord } from '../types';
+import { isOpenStatus, isTakenStatus } from './leaveStatus';
+import { HolidayCalendar, countWorkingDays } from './workingDays';
+
+// Hour accounting for permissions (partial-day absences). The hours come from the requested in/out
+// times measured against office hours, and are capped by a monthly quota per employee.
+
+export type PermissionSettings = {
+    officeStart: number; // minutes after midnight
+    officeEnd: number;
+    hoursPerMonth: number; // default quota; an employee's PERMISSION_HOURS column overrides it
+    enforcement: 'warn' | 'block';
+};
+
+/** Parses "09:30", "9:30:00" or "9:30 AM" into minutes after midnight; null when not a time. */
+export const parseTimeToMinutes = (value: string): number | null => {
+    const m = /^(\d{1,2}):(\d{2})(?::\d{2})?\s*([ap]\.?m\.?)?$/i.exec((value || '').trim());
+    if (!m) return null;
+    let hours = Number(m[1]);
+    const minutes = Number(m[2]);
+    const meridiem = m[3]?.toLowerCase().replace(/\./g, '');
+    if (meridiem === 'pm' && hours < 12) hours += 12;
+    if (meridiem === 'am' && hours === 12) hours = 0;
+    if (hours > 23 || minutes > 59) return null;
+    return hours * 60 + minutes;
+};
+
+export const getPermissionSettings = (): PermissionSettings => {
+    const quota = Number(process.env.PERMISSION_HOURS_PER_MONTH);
+    return {
+        officeStart: parseTimeToMinutes(process.env.OFFICE_START_TIME || '') ?? 9 * 60,
+        officeEnd: parseTimeToMinutes(process.env.OFFICE_END_TIME || '') ?? 18 * 60,
+        hoursPerMonth: Number.isFinite(quota) && quota > 0 ? quota : 4,
+        enforcement: (process.env.PERMISSION_QUOTA_MODE || '').trim().toLowerCase() === 'block' ? 'block' : 'warn',
+    };
+};
+
+const normalize = (v: string) => (v || '').trim().toLowerCase();
+
+export const isPermissionRequest = (r: Pick<LogSheetRecord, 'permissionType'>) => normalize(r.permissionType) === 'permission';
+
+type PermissionFields = Pick<
+    LogSheetRecord,
+    'permissionType' | 'leaveType' | 'requestedInTime' | 'requestedOutTime' | 'startDate' | 'endDate'
+>;
+
+/**
+ * Hours away from the office for one permission day:
+ * FN Permission runs from office start to the in-time, AN Permission from the out-time to office end,
+ * and In Between Permission from the out-time to the in-time. Times outside office hours are clamped.
+ */
+export const permissionHoursPerDay = (r: PermissionFields, settings = getPermissionSettings()) => {
+    if (!isPermissionRequest(r)) return 0;
+    const clamp = (m: number) => Math.min(Math.max(m, settings.officeStart), settings.officeEnd);
+    const inTime = parseTimeToMinutes(r.requestedInTime);
+    const outTime = parseTimeToMinutes(r.requestedOutTime);
+    const type = normalize(r.leaveType);
+
+    let from: number | null = null;
+    let to: number | null = null;
+    if (type === 'fn permission') [from, to] = [settings.officeStart, inTime];
+    else if (type === 'an permission') [from, to] = [outTime, settings.officeEnd];
+    else [from, to] = [outTime, inTime];
+    if (from === null || to === null) return 0;
+
+    return Math.max(0, clamp(to) - clamp(from)) / 60;
+};
+
+/** Total permission hours of a request; a permission spanning several working days counts each of them. */
+export const permissionHours = (r: PermissionFields, holidays?: HolidayCalendar, settings = getPermissionSettings()) => {
+    const perDay = permissionHoursPerDay(r, settings);
+    if (!perDay) return 0;
+    return perDay * Math.max(1, countWorkingDays(r.startDate, r.endDate || r.startDate, holidays));
+};
+
+export const quotaFor = (employee: EmployeeRecord | undefined, settings = getPermissionSettings()) =>
+    employee?.permissionHoursPerMonth ?? settings.hoursPerMonth;
+
+export type PermissionUsage = { approved: number; pending: number };
+
+/** Permission hours an employee has taken (approved) or requested (pending) in a calendar month (`yyyy-mm`). */
+export const monthlyPermissionUsage = (
+    records: LogSheetRecord[],
+    employeeEmail: string,
+    month: string,
+    options: { excludeRequestId?: string; holidays?: HolidayCalendar } = {}
+): PermissionUsage => {
+    const email = normalize(employeeEmail);
+    const settings = getPermissionSettings();
+    return records
+        .filter(
+            (r) =>
+                r.employeeEmail === email &&
+                normalize(r.type || 'request') === 'request' &&
+                r.requestId !== options.excludeRequestId &&
+                (r.startDate || '').startsWith(month)
+        )
+        .reduce<PermissionUsage>(
+            (usage, r) => {
+                const hours = permissionHours(r, options.holidays, settings);
+                if (isTakenStatus(r.status)) usage.approved += hours;
+                if (isOpenStatus(r.status)) usage.pending += hours;
+                return usage;
+            },
+            { approved: 0, pending: 0 }
+        );
+};
+
+export const formatHours = (hours: number) => {
+    const totalMinutes = Math.round(hours * 60);
+    const h = Math.floor(totalMinutes / 60);
+    const m = totalMinutes % 60;
+    if (!h && m) return `${m} min`;
+    return m ? `${h} h ${m} min` : `${h} h`;
+};
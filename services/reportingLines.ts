@@ -0,0 +1,30 @@
+import { EmployeeRecord } from '../types';
+
+// Who approves whose requests, from the REPORTING_MANAGER column of the employee directory.
+// The webhook (code.gs) and the local workbook route approval mail the same way.
+
+const normalize = (v: string | undefined) => (v || '').trim().toLowerCase();
+
+const findEmployee = (directory: EmployeeRecord[], email: string) =>
+    directory.find((emp) => emp.email === normalize(email));
+
+/**
+ * Addresses that receive a new request from `employeeEmail`: the employee's reporting manager, or every admin
+ * when the directory names none.
+ */
+export const approverEmailsFor = (directory: EmployeeRecord[], employeeEmail: string): string[] => {
+    const manager = normalize(findEmployee(directory, employeeEmail)?.reportingManagerEmail);
+    if (manager) return [manager];
+    return directory.filter((emp) => emp.role === 'admin').map((emp) => emp.email);
+};
+
+/** Employees whose reporting manager is `managerEmail`. */
+export const directReportEmails = (directory: EmployeeRecord[], managerEmail: string): Set<string> =>
+    new Set(
+        directory
+            .filter((emp) => normalize(emp.reportingManagerEmail) === normalize(managerEmail))
+            .map((emp) => emp.email)
+    );
+
+/** Whether the directory records reporting lines at all; without them every manager sees every request. */
+export const hasReportingLines = (directory: EmployeeRecord[]) => directory.some((emp) => !!emp.reportingManagerEmail);
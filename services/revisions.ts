@@ -0,0 +1,69 @@
+import { LogSheetRecord, RevisionRecord } from '../types';
+
+// Revision history for edited leave requests. Each edit appends one Revisions row per changed field, numbered
+// per request, so approvers can see what changed after the request was first submitted. The webhook (code.gs)
+// and the local workbook record edits against the same field list.
+
+/** Logs fields an edit can change, in the order the diff view lists them. */
+export const REVISED_FIELDS: { key: keyof LogSheetRecord; label: string }[] = [
+    { key: 'startDate', label: 'Start Date' },
+    { key: 'endDate', label: 'End Date' },
+    { key: 'permissionType', label: 'Permission Type' },
+    { key: 'leaveType', label: 'Leave Type' },
+    { key: 'requestedInTime', label: 'Requested InTime' },
+    { key: 'requestedOutTime', label: 'Requested OutTime' },
+    { key: 'alternateStaff', label: 'Alternate Staff' },
+    { key: 'reason', label: 'Reason' },
+    { key: 'attachmentUrl', label: 'Attachment' },
+];
+
+export type FieldChange = { field: string; before: string; after: string };
+
+export type Revision = {
+    requestId: string;
+    revision: number;
+    timestamp: string;
+    editedBy: string;
+    changes: FieldChange[];
+};
+
+const clean = (v: unknown) => String(v ?? '').trim();
+
+/** Fields whose value differs between the stored row and the edit. */
+export const diffFields = (before: Record<string, unknown>, after: Record<string, unknown>): FieldChange[] =>
+    REVISED_FIELDS.filter(({ key }) => clean(before[key]) !== clean(after[key])).map(({ key }) => ({
+        field: key,
+        before: clean(before[key]),
+        after: clean(after[key]),
+    }));
+
+export const nextRevisionNumber = (records: RevisionRecord[], requestId: string) =>
+    records.filter((r) => r.requestId === requestId).reduce((max, r) => Math.max(max, r.revision), 0) + 1;
+
+/** A request's edits, oldest first, with the field rows of each edit grouped together. */
+export const revisionsFor = (records: RevisionRecord[], requestId: string): Revision[] => {
+    const byNumber = new Map<number, Revision>();
+    records
+        .filter((r) => r.requestId === requestId)
+        .forEach((r) => {
+            const revision = byNumber.get(r.revision) || {
+                requestId,
+                revision: r.revision,
+                timestamp: r.timestamp,
+                editedBy: r.editedBy,
+                changes: [],
+            };
+            revision.changes.push({ field: r.field, before: r.before, after: r.after });
+            byNumber.set(r.revision, revision);
+        });
+    return Array.from(byNumber.values()).sort((a, b) => a.revision - b.revision);
+};
+
+/** Number of edits per request ID, for showing which requests have a history. */
+export const revisionCounts = (records: RevisionRecord[]) => {
+    const counts = new Map<string, number>();
+    records.forEach((r) => counts.set(r.requestId, Math.max(counts.get(r.requestId) || 0, r.revision)));
+    return counts;
+};
+
+export const fieldLabel = (field: string) => REVISED_FIELDS.find((f) => f.key === field)?.label || field;
@@ -0,0 +1,332 @@
+import {
+    ApprovalChainRecord,
+    CommentTemplateRecord,
+    DelegationRecord,
+    EmployeeRecord,
+    EntitlementEntryType,
+    EntitlementRecord,
+    Holiday,
+    LeavePolicyRecord,
+    LogSheetRecord,
+    LookupOptions,
+    RevisionRecord,
+    TaskLogRecord,
+    TaskLookups,
+} from '../types';
+import { parseApprovalSteps, parseApproverList } from './approvalChain';
+import { splitLegacyDates, toIsoDate } from './dateUtils';
+import { normalizeStatus } from './leaveStatus';
+import { parseCoverageStatus } from './coverage';
+import { parseTemplateDecision } from './commentTemplates';
+import { parseBlackoutDates, parsePolicyFlag, parsePolicyNumber } from './leavePolicy';
+import {
+    APPROVAL_CHAIN_SCHEMA,
+    COMMENT_TEMPLATE_SCHEMA,
+    ColumnMap,
+    DELEGATION_SCHEMA,
+    ENTITLEMENT_SCHEMA,
+    HOLIDAY_SCHEMA,
+    LOG_SCHEMA,
+    POLICY_SCHEMA,
+    REVISION_SCHEMA,
+    SheetSchema,
+    TASK_LOG_SCHEMA,
+    looksLikeHeaderRow,
+    positionalColumns,
+    reportSchemaIssues,
+    resolveColumns,
+} from './sheetSchema';
+
+// Parsers turning raw sheet values (header row + data rows) into app records.
+// Shared by every DataBackend so that the local workbook and Google Sheets read identically.
+
+export const normalizeOption = (v: unknown) => (typeof v === 'string' ? v.trim() : '').trim();
+export const uniq = (arr: string[]) => Array.from(new Set(arr.filter(Boolean)));
+
+export const parseEmployees = (values: string[][]): EmployeeRecord[] => {
+    if (!values || values.length < 2) return [];
+    const headers = values[0].map((h) => h.trim().toLowerCase());
+
+    const findIdx = (...keys: string[]) => {
+        for (const key of keys) {
+            const idx = headers.indexOf(key.toLowerCase());
+            if (idx !== -1) return idx;
+        }
+        return -1;
+    };
+
+    const emailIdx = findIdx('email', 'email_id', 'emailid');
+    const nameIdx = findIdx('name', 'emp_name', 'employee_name');
+    const idIdx = findIdx('employeeid', 'emp_code', 'employee_code');
+    const roleIdx = findIdx('role');
+    const quotaIdx = findIdx('permission_hours', 'permission hours', 'permissionhours');
+    const managerIdx = findIdx('reporting_manager', 'reporting manager', 'reportingmanager', 'manager_email');
+    if (emailIdx === -1 || roleIdx === -1) return [];
+
+    return values.slice(1)
+        .map((row) => {
+            const quota = parseFloat(row[quotaIdx] ?? '');
+            const reportingManagerEmail = row[managerIdx]?.trim().toLowerCase();
+            return {
+                email: row[emailIdx]?.trim().toLowerCase(),
+                name: row[nameIdx]?.trim() || '',
+                employeeId: row[idIdx]?.trim() || '',
+                role: (row[roleIdx]?.trim().toLowerCase() as EmployeeRecord['role']) || 'employee',
+                ...(Number.isFinite(quota) && quota >= 0 ? { permissionHoursPerMonth: quota } : {}),
+                ...(reportingManagerEmail ? { reportingManagerEmail } : {}),
+            };
+        })
+        .filter((emp) => !!emp.email);
+};
+
+export const parseLookup = (values: string[][]): LookupOptions => {
+    if (!values || values.length === 0) return { permissionTypes: [], leaveTypes: [] };
+
+    const normalizeHeaderKey = (v: string) => normalizeOption(v).toLowerCase().replace(/[\s_]+/g, '');
+    const firstA = normalizeHeaderKey(values[0]?.[0] || '');
+    const firstB = normalizeHeaderKey(values[0]?.[1] || '');
+    const hasHeader =
+        firstA === 'permissiontype' ||
+        firstB === 'leavetype' ||
+        (firstA === 'permissiontype' && firstB === 'leavetype');
+
+    const rows = values.slice(hasHeader ? 1 : 0);
+
+    const permissionTypes = uniq(rows.map((r) => normalizeOption(r?.[0])));
+    const leaveTypes = uniq(rows.map((r) => normalizeOption(r?.[1])));
+
+    return { permissionTypes, leaveTypes };
+};
+
+const getCellString = (row: unknown[], idx: number) => {
+    if (idx < 0) return '';
+    const v = (row as any[])?.[idx];
+    if (v === null || v === undefined) return '';
+    return String(v).trim();
+};
+
+/**
+ * Splits sheet values into a column map and data rows. Columns are resolved by header name via the
+ * shared schema; layout drift is reported instead of silently shifting values into the wrong fields.
+ */
+const mapSheet = (schema: SheetSchema, values: unknown[][]): { map: ColumnMap; rows: unknown[][] } => {
+    const hasHeader = looksLikeHeaderRow(schema, values[0]);
+    const map = hasHeader ? resolveColumns(schema, values[0]) : positionalColumns(schema);
+    reportSchemaIssues(schema.sheet, map.issues);
+    return { map, rows: values.slice(hasHeader ? 1 : 0) };
+};
+
+export const parseLogSheetRecords = (values: string[][]): LogSheetRecord[] => {
+    if (!values || values.length < 2) return [];
+
+    const { map, rows } = mapSheet(LOG_SCHEMA, values);
+    if (!map.usable) return [];
+    const cell = (r: unknown[], key: keyof LogSheetRecord | 'dates') => getCellString(r, map.index[key]);
+
+    // Rows written before the Start/End Date columns existed only carry the combined "Dates" value.
+    const dateRange = (r: unknown[]) => {
+        const startDate = toIsoDate(cell(r, 'startDate'));
+        if (startDate) return { startDate, endDate: toIsoDate(cell(r, 'endDate')) || startDate };
+        return splitLegacyDates(cell(r, 'dates'));
+    };
+
+    return rows
+        .filter((r) => r && r.length)
+        .map((r) => ({
+            timestamp: cell(r, 'timestamp'),
+            requestId: cell(r, 'requestId'),
+            type: cell(r, 'type'),
+            status: normalizeStatus(cell(r, 'status')),
+            employeeName: cell(r, 'employeeName'),
+            employeeEmail: cell(r, 'employeeEmail').toLowerCase(),
+            employeeId: cell(r, 'employeeId'),
+            ...dateRange(r),
+            reason: cell(r, 'reason'),
+            managerComment: cell(r, 'managerComment'),
+            managerAction: cell(r, 'managerAction'),
+            permissionType: cell(r, 'permissionType'),
+            leaveType: cell(r, 'leaveType'),
+            requestedInTime: cell(r, 'requestedInTime'),
+            requestedOutTime: cell(r, 'requestedOutTime'),
+            alternateStaff: cell(r, 'alternateStaff'),
+            approvalSteps: parseApprovalSteps(cell(r, 'approvalSteps')),
+            decidedBy: cell(r, 'decidedBy').toLowerCase(),
+            onBehalfOf: cell(r, 'onBehalfOf').toLowerCase(),
+            cancellationReason: cell(r, 'cancellationReason'),
+            alternateEmail: cell(r, 'alternateEmail').toLowerCase(),
+            coverageStatus: parseCoverageStatus(cell(r, 'coverageStatus')),
+            coverageNote: cell(r, 'coverageNote'),
+            awaitingSince: cell(r, 'awaitingSince'),
+            remindedAt: cell(r, 'remindedAt'),
+            escalatedAt: cell(r, 'escalatedAt'),
+            attachmentUrl: cell(r, 'attachmentUrl'),
+        }))
+        .filter((r) => r.employeeEmail || r.employeeId || r.employeeName);
+};
+
+export const parseTaskLookups = (values: string[][]): TaskLookups => {
+    if (!values || values.length < 2) return { companies: [], platforms: [], fulfillments: [], tasks: [] };
+
+    // Assuming first row is header, columns C-F are: Company, Platform, Fulfillment, Task
+    const rows = values.slice(1);
+
+    const companies = uniq(rows.map(r => normalizeOption(r?.[2]))); // Column C (index 2)
+    const platforms = uniq(rows.map(r => normalizeOption(r?.[3]))); // Column D (index 3)
+    const fulfillments = uniq(rows.map(r => normalizeOption(r?.[4]))); // Column E (index 4)
+    const tasks = uniq(rows.map(r => normalizeOption(r?.[5]))); // Column F (index 5)
+
+    return { companies, platforms, fulfillments, tasks };
+};
+
+export const parseTaskLogRecords = (values: unknown[][]): TaskLogRecord[] => {
+    if (!values || values.length < 2) return [];
+
+    const { map, rows } = mapSheet(TASK_LOG_SCHEMA, values);
+    if (!map.usable) return [];
+    const cell = (r: unknown[], key: keyof TaskLogRecord) => getCellString(r, map.index[key]);
+
+    return rows
+        .filter((r) => r && r.length)
+        .map((r) => ({
+            timestamp: cell(r, 'timestamp'),
+            employeeName: cell(r, 'employeeName'),
+            employeeEmail: cell(r, 'employeeEmail'),
+            company: cell(r, 'company'),
+            platform: cell(r, 'platform'),
+            fulfillment: cell(r, 'fulfillment'),
+            task: cell(r, 'task'),
+            quantity: Number(cell(r, 'quantity')) || 0,
+            claimedQuantity: Number(cell(r, 'claimedQuantity')) || 0,
+        }));
+};
+
+const ENTRY_TYPES: EntitlementEntryType[] = ['OPENING', 'ACCRUAL', 'ADJUSTMENT'];
+
+export const parseEntitlementRecords = (values: unknown[][]): EntitlementRecord[] => {
+    if (!values || values.length < 2) return [];
+
+    const { map, rows } = mapSheet(ENTITLEMENT_SCHEMA, values);
+    if (!map.usable) return [];
+    const cell = (r: unknown[], key: keyof EntitlementRecord) => getCellString(r, map.index[key]);
+
+    return rows
+        .filter((r) => r && r.length)
+        .map((r) => ({
+            employeeEmail: cell(r, 'employeeEmail').toLowerCase(),
+            leaveType: cell(r, 'leaveType'),
+            entryType: cell(r, 'entryType').toUpperCase() as EntitlementEntryType,
+            days: Number(cell(r, 'days')) || 0,
+            effectiveDate: toIsoDate(cell(r, 'effectiveDate')),
+            note: cell(r, 'note'),
+        }))
+        .filter((r) => r.employeeEmail && r.leaveType && ENTRY_TYPES.includes(r.entryType));
+};
+
+export const parseHolidays = (values: unknown[][]): Holiday[] => {
+    if (!values || values.length < 2) return [];
+
+    const { map, rows } = mapSheet(HOLIDAY_SCHEMA, values);
+    if (!map.usable) return [];
+    const cell = (r: unknown[], key: keyof Holiday) => getCellString(r, map.index[key]);
+
+    return rows
+        .filter((r) => r && r.length)
+        .map((r) => ({ date: toIsoDate(cell(r, 'date')), name: cell(r, 'name') }))
+        .filter((h) => !!h.date);
+};
+
+export const parseApprovalChains = (values: unknown[][]): ApprovalChainRecord[] => {
+    if (!values || values.length < 2) return [];
+
+    const { map, rows } = mapSheet(APPROVAL_CHAIN_SCHEMA, values);
+    if (!map.usable) return [];
+    const cell = (r: unknown[], key: keyof ApprovalChainRecord) => getCellString(r, map.index[key]);
+
+    return rows
+        .filter((r) => r && r.length)
+        .map((r) => ({ leaveType: cell(r, 'leaveType'), approvers: parseApproverList(cell(r, 'approvers')) }))
+        .filter((c) => !!c.leaveType);
+};
+
+export const parseDelegations = (values: unknown[][]): DelegationRecord[] => {
+    if (!values || values.length < 2) return [];
+
+    const { map, rows } = mapSheet(DELEGATION_SCHEMA, values);
+    if (!map.usable) return [];
+    const cell = (r: unknown[], key: keyof DelegationRecord) => getCellString(r, map.index[key]);
+
+    return rows
+        .filter((r) => r && r.length)
+        .map((r) => ({
+            delegationId: cell(r, 'delegationId'),
+            delegatorEmail: cell(r, 'delegatorEmail').toLowerCase(),
+            delegateEmail: cell(r, 'delegateEmail').toLowerCase(),
+            startDate: toIsoDate(cell(r, 'startDate')),
+            endDate: toIsoDate(cell(r, 'endDate')),
+            status: (cell(r, 'status').toUpperCase() === 'REVOKED' ? 'REVOKED' : 'ACTIVE') as DelegationRecord['status'],
+            createdAt: cell(r, 'createdAt'),
+        }))
+        .filter((d) => d.delegationId && d.delegatorEmail && d.delegateEmail && d.startDate);
+};
+
+export const parseRevisions = (values: unknown[][]): RevisionRecord[] => {
+    if (!values || values.length < 2) return [];
+
+    const { map, rows } = mapSheet(REVISION_SCHEMA, values);
+    if (!map.usable) return [];
+    const cell = (r: unknown[], key: keyof RevisionRecord) => getCellString(r, map.index[key]);
+
+    return rows
+        .filter((r) => r && r.length)
+        .map((r) => ({
+            timestamp: cell(r, 'timestamp'),
+            requestId: cell(r, 'requestId'),
+            revision: Number(cell(r, 'revision')) || 1,
+            editedBy: cell(r, 'editedBy').toLowerCase(),
+            field: cell(r, 'field'),
+            before: cell(r, 'before'),
+            after: cell(r, 'after'),
+        }))
+        .filter((rev) => rev.requestId && rev.field);
+};
+
+export const parseCommentTemplates = (values: unknown[][]): CommentTemplateRecord[] => {
+    if (!values || values.length < 2) return [];
+
+    const { map, rows } = mapSheet(COMMENT_TEMPLATE_SCHEMA, values);
+    if (!map.usable) return [];
+    const cell = (r: unknown[], key: keyof CommentTemplateRecord) => getCellString(r, map.index[key]);
+
+    return rows
+        .filter((r) => r && r.length)
+        .map((r) => ({
+            templateId: cell(r, 'templateId'),
+            ownerEmail: cell(r, 'ownerEmail').toLowerCase(),
+            label: cell(r, 'label'),
+            decision: parseTemplateDecision(cell(r, 'decision')),
+            text: cell(r, 'text'),
+            createdAt: cell(r, 'createdAt'),
+        }))
+        .filter((t) => t.templateId && t.ownerEmail && t.label && t.text);
+};
+
+export const parseLeavePolicies = (values: unknown[][]): LeavePolicyRecord[] => {
+    if (!values || values.length < 2) return [];
+
+    const { map, rows } = mapSheet(POLICY_SCHEMA, values);
+    if (!map.usable) return [];
+    const cell = (r: unknown[], key: keyof LeavePolicyRecord) => getCellString(r, map.index[key]);
+
+    return rows
+        .filter((r) => r && r.length)
+        .map((r) => ({
+            leaveType: cell(r, 'leaveType'),
+            minNoticeDays: parsePolicyNumber(cell(r, 'minNoticeDays')),
+            maxConsecutiveDays: parsePolicyNumber(cell(r, 'maxConsecutiveDays')),
+            maxBackdateDays: parsePolicyNumber(cell(r, 'maxBackdateDays')),
+            blackoutDates: parseBlackoutDates(cell(r, 'blackoutDates')),
+            requiresAttachment: parsePolicyFlag(cell(r, 'requiresAttachment')),
+            permissionOnly: parsePolicyFlag(cell(r, 'permissionOnly')),
+        }))
+        .filter((p) => !!p.leaveType);
+};
@@ -0,0 +1,164 @@
+import schemaSource from '../scripts/google-apps-script/sheetSchema.html?raw';
+
+// Column layout of the sheets the app reads and writes. The definition lives in one JSON document that the
+// Apps Script project also loads (see getSheetSchema_ in code.gs), so readers and writers agree
+// on header names while the physical column order is free to change.
+
+export type SheetColumn = {
+    key: string;
+    header: string;
+    required?: boolean;
+    aliases?: string[];
+    format?: 'date'; // written as a real date cell rather than text
+    replacedBy?: string[]; // legacy columns only: the keys that superseded this column
+};
+
+export type SheetSchema = {
+    sheet: string;
+    columns: SheetColumn[];
+    // Columns older layouts wrote. They are read when present but never written, added or reported missing.
+    legacyColumns?: SheetColumn[];
+};
+
+export type SchemaIssue = {
+    sheet: string;
+    severity: 'error' | 'warning' | 'info';
+    message: string;
+};
+
+export type ColumnMap = {
+    index: Record<string, number>; // key -> 0-based column, -1 when absent
+    issues: SchemaIssue[];
+    usable: boolean; // false when a required column is missing
+};
+
+const schemas = JSON.parse(schemaSource) as Record<
+    'Logs' | 'TaskLogs' | 'Entitlements' | 'Holidays' | 'ApprovalChains' | 'Delegations' | 'Revisions' | 'CommentTemplates' | 'Policies',
+    SheetSchema
+>;
+
+export const LOG_SCHEMA = schemas.Logs;
+export const TASK_LOG_SCHEMA = schemas.TaskLogs;
+export const ENTITLEMENT_SCHEMA = schemas.Entitlements;
+export const HOLIDAY_SCHEMA = schemas.Holidays;
+export const APPROVAL_CHAIN_SCHEMA = schemas.ApprovalChains;
+export const DELEGATION_SCHEMA = schemas.Delegations;
+export const REVISION_SCHEMA = schemas.Revisions;
+export const COMMENT_TEMPLATE_SCHEMA = schemas.CommentTemplates;
+export const POLICY_SCHEMA = schemas.Policies;
+
+export const schemaHeaders = (schema: SheetSchema) => schema.columns.map((c) => c.header);
+
+// "Requested InTime", "requested_in_time" and "REQUESTED IN TIME" all match.
+export const normalizeHeader = (v: unknown) => String(v ?? '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const looksLikeHeaderRow = (schema: SheetSchema, row: unknown[] | undefined) => {
+    const first = normalizeHeader(row?.[0]);
+    return !!first && schema.columns.some((c) => normalizeHeader(c.header) === first);
+};
+
+/** Resolves every schema column against an actual header row and describes any drift from the schema. */
+export const resolveColumns = (schema: SheetSchema, headerRow: unknown[]): ColumnMap => {
+    const headers = headerRow.map(normalizeHeader);
+    const index: Record<string, number> = {};
+    const issues: SchemaIssue[] = [];
+    const claimed = new Set<number>();
+    let usable = true;
+
+    const find = (col: SheetColumn) => {
+        const names = [col.header, ...(col.aliases || [])].map(normalizeHeader);
+        return headers.findIndex((h, i) => !claimed.has(i) && names.includes(h));
+    };
+
+    // Legacy columns first, so a missing replacement can fall back to them quietly.
+    const covered = new Map<string, SheetColumn>();
+    (schema.legacyColumns || []).forEach((col) => {
+        const idx = find(col);
+        index[col.key] = idx;
+        if (idx === -1) return;
+        claimed.add(idx);
+        (col.replacedBy || []).forEach((key) => covered.set(key, col));
+    });
+
+    schema.columns.forEach((col) => {
+        const idx = find(col);
+        index[col.key] = idx;
+        const legacy = covered.get(col.key);
+        if (idx === -1 && legacy) {
+            issues.push({
+                sheet: schema.sheet,
+                severity: 'info',
+                message: `Missing column "${col.header}"; reading the legacy "${legacy.header}" column instead.`,
+            });
+        } else if (idx === -1) {
+            issues.push({
+                sheet: schema.sheet,
+                severity: col.required ? 'error' : 'warning',
+                message: `Missing column "${col.header}"${col.required ? ' (required)' : '; its values will be blank'}.`,
+            });
+            if (col.required) usable = false;
+        } else {
+            claimed.add(idx);
+        }
+    });
+
+    const extras = headerRow
+        .map((h, i) => ({ h: String(h ?? '').trim(), i }))
+        .filter(({ h, i }) => h && !claimed.has(i));
+    if (extras.length) {
+        issues.push({
+            sheet: schema.sheet,
+            severity: 'info',
+            message: `Ignoring extra column${extras.length > 1 ? 's' : ''}: ${extras.map((e) => `"${e.h}"`).join(', ')}.`,
+        });
+    }
+
+    const found = schema.columns.filter((c) => index[c.key] !== -1);
+    const inOrder = found.every((c, i) => i === 0 || index[c.key] > index[found[i - 1].key]);
+    if (!inOrder) {
+        issues.push({
+            sheet: schema.sheet,
+            severity: 'info',
+            message: 'Columns are in a different order than the schema; values are matched by header name.',
+        });
+    }
+
+    return { index, issues, usable };
+};
+
+/** Column map for data without a header row: assume the schema order. */
+export const positionalColumns = (schema: SheetSchema): ColumnMap => ({
+    index: Object.fromEntries(schema.columns.map((c, i) => [c.key, i])),
+    issues: [{
+        sheet: schema.sheet,
+        severity: 'warning',
+        message: 'No header row found; assuming the default column order.',
+    }],
+    usable: true,
+});
+
+// Latest issues per sheet, so screens can explain why data looks incomplete.
+const latestIssues = new Map<string, SchemaIssue[]>();
+
+export const reportSchemaIssues = (sheet: string, issues: SchemaIssue[]) => {
+    const previous = JSON.stringify(latestIssues.get(sheet) || []);
+    latestIssues.set(sheet, issues);
+    if (previous === JSON.stringify(issues)) return;
+    issues.forEach((issue) => {
+        const log = issue.severity === 'error' ? console.error : issue.severity === 'warning' ? console.warn : console.info;
+        log(`[${issue.sheet} sheet] ${issue.message}`);
+    });
+};
+
+export const getSchemaIssues = (sheet?: string): SchemaIssue[] =>
+    sheet ? latestIssues.get(sheet) || [] : Array.from(latestIssues.values()).flat();
+
+/** Builds a row in the sheet's physical column order from values keyed by schema key. */
+export const buildRow = (map: ColumnMap, width: number, values: Record<string, string>): string[] => {
+    const row = new Array<string>(width).fill('');
+    Object.entries(values).forEach(([key, value]) => {
+        const idx = map.index[key];
+        if (idx !== undefined && idx !== -1) row[idx] = value;
+    });
+    return row;
+};
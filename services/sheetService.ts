@@ -1,83 +1,121 @@
-import { EmployeeRecord, LogEntry, UserProfile } from '../types';
-
-const CACHE_KEY = 'swiftleave_user_roles_cache';
-const DIRECTORY_CACHE_KEY = 'swiftleave_employee_directory_cache';
-const LOOKUP_CACHE_KEY = 'swiftleave_lookup_cache_v1';
-
-const getEnv = () => ({
-    sheetId: process.env.SHEET_ID,
-    apiKey: process.env.SHEETS_API_KEY,
-    employeeRange: process.env.SHEET_EMPLOYEE_RANGE || 'employeedetails!A:E', // Headers: S_NO, EMP_CODE, EMP_NAME, ROLE, EMAIL_ID
-    logRange: process.env.SHEET_LOG_RANGE || 'Logs!A:P', // Logs sheet (A:P) as written by Apps Script
-    logWebhook: process.env.SHEET_LOG_WEBHOOK, // Apps Script / API endpoint to append rows securely
-    lookupRange: (process.env.SHEET_LOOKUP_RANGE as string | undefined) || 'LookUp!A:B', // Col A: Permission Type, Col B: Leave Type
-});
-
-const loadCache = <T>(key: string): Record<string, T> => {
-    const raw = localStorage.getItem(key);
-    return raw ? JSON.parse(raw) : {};
-};
-
-const saveCache = <T>(key: string, cache: Record<string, T>) => {
-    localStorage.setItem(key, JSON.stringify(cache));
+import {
+    BulkDecisionParams,
+    CommentTemplateParams,
+    CommentTemplateRecord,
+    CoverageResponseParams,
+    DecisionParams,
+    DelegationParams,
+    DelegationRecord,
+    EmployeeRecord,
+    EntitlementRecord,
+    Holiday,
+    LeaveBalance,
+    LeavePolicyRecord,
+    LogEntry,
+    LogSheetRecord,
+    LookupOptions,
+    RevisionRecord,
+    TaskLogEntry,
+    TaskLogRecord,
+    TaskLookups,
+    UserProfile,
+    WriteResult,
+} from '../types';
+import { v4 as uuidv4 } from 'uuid';
+import { DataTopic, getDataBackend } from './dataBackend';
+import { OutboxKind, OutboxSender, enqueue, failedItemFor, hasQueuedFor, isTransientFailure, requestIdsOf } from './outboxService';
+import { BalanceOptions, computeLeaveBalances } from './leaveBalance';
+import { toHolidayCalendar } from './workingDays';
+import { CACHE_KEY, DIRECTORY_CACHE_KEY, LOOKUP_CACHE_KEY, loadCache, saveCache } from './localCache';
+
+export type { CommentTemplateRecord, DelegationRecord, EntitlementRecord, Holiday, LeaveBalance, LeavePolicyRecord, LogSheetRecord, LookupOptions, RevisionRecord, TaskLogEntry, TaskLogRecord, TaskLookups, WriteResult } from '../types';
+
+// Sort newest-first when possible
+const sortNewestFirst = <T extends { timestamp: string }>(records: T[]): T[] =>
+    records.sort((a, b) => {
+        const ta = Date.parse(a.timestamp);
+        const tb = Date.parse(b.timestamp);
+        if (Number.isNaN(ta) || Number.isNaN(tb)) return 0;
+        return tb - ta;
+    });
+
+// Replays a stored mutation against whichever backend is active; also used by the outbox.
+export const sendMutation: OutboxSender = (kind, payload) => {
+    const backend = getDataBackend();
+    switch (kind) {
+        case 'task':
+            return backend.submitTask(payload as TaskLogEntry);
+        case 'request':
+            return backend.appendLogEntry(payload as LogEntry);
+        case 'edit_request':
+            return backend.updateLogEntry(payload as LogEntry & { requestId: string });
+        case 'delete_request':
+            return backend.deleteLogEntry(payload.requestId, payload.requestedBy);
+        case 'cancel_request':
+            return backend.requestCancellation(payload.requestId, payload.cancellationReason, payload.requestedBy);
+        case 'decision':
+            return Array.isArray(payload.requestIds)
+                ? backend.submitDecisions(payload as BulkDecisionParams)
+                : backend.submitDecision(payload as DecisionParams);
+        case 'coverage_response':
+            return backend.respondToCoverage(payload as CoverageResponseParams);
+        case 'delegation':
+            return backend.saveDelegation(payload as DelegationParams);
+        case 'revoke_delegation':
+            return backend.revokeDelegation(payload.delegationId, payload.requestedBy);
+        case 'comment_template':
+            return backend.saveCommentTemplate(payload as CommentTemplateParams);
+        case 'delete_comment_template':
+            return backend.deleteCommentTemplate(payload.templateId, payload.ownerEmail);
+    }
 };
 
-const parseEmployees = (values: string[][]): EmployeeRecord[] => {
-    if (!values || values.length < 2) return [];
-    const headers = values[0].map((h) => h.trim().toLowerCase());
-
-    const findIdx = (...keys: string[]) => {
-        for (const key of keys) {
-            const idx = headers.indexOf(key.toLowerCase());
-            if (idx !== -1) return idx;
-        }
-        return -1;
-    };
-
-    const emailIdx = findIdx('email', 'email_id', 'emailid');
-    const nameIdx = findIdx('name', 'emp_name', 'employee_name');
-    const idIdx = findIdx('employeeid', 'emp_code', 'employee_code');
-    const roleIdx = findIdx('role');
-    if (emailIdx === -1 || roleIdx === -1) return [];
-
-    return values.slice(1)
-        .map((row) => ({
-            email: row[emailIdx]?.trim().toLowerCase(),
-            name: row[nameIdx]?.trim() || '',
-            employeeId: row[idIdx]?.trim() || '',
-            role: (row[roleIdx]?.trim().toLowerCase() as EmployeeRecord['role']) || 'employee',
-        }))
-        .filter((emp) => !!emp.email);
-};
+// Sends now when possible; otherwise (offline, transient failure, or an earlier write for the same
+// request still queued) parks the mutation in the outbox and reports it as queued. A write stuck behind
+// one the server rejected could never be sent, so it is refused instead.
+const sendOrQueue = async (kind: OutboxKind, data: Record<string, any>): Promise<WriteResult> => {
+    const payload: Record<string, any> = { ...data, clientRequestId: uuidv4() };
+    const queued = (): WriteResult => ({
+        ok: true,
+        queued: true,
+        requestId: payload.requestId,
+        message: 'Saved offline; it will sync automatically when the connection returns.',
+    });
+
+    // Bulk decisions are ordered behind (and block) every request they name.
+    const requestIds = requestIdsOf(payload);
+    const blocker = await failedItemFor(requestIds);
+    if (blocker) {
+        const stuck = blocker.orderKeys.find((k) => requestIds.includes(k));
+        return {
+            ok: false,
+            code: 'OUTBOX_BLOCKED',
+            requestId: stuck,
+            message: `An earlier change to ${stuck} was rejected by the server (${blocker.lastError || 'no reason given'}). Discard the rejected change first.`,
+        };
+    }
 
-export const fetchEmployeeDirectory = async (): Promise<EmployeeRecord[]> => {
-    const { sheetId, apiKey, employeeRange } = getEnv();
-    if (!sheetId || !apiKey) {
-        console.warn('Sheets env missing. Provide SHEET_ID and SHEETS_API_KEY to enable employee lookup.');
-        return [];
+    const isOffline = typeof navigator !== 'undefined' && navigator.onLine === false;
+    if (isOffline || (await hasQueuedFor(requestIds))) {
+        await enqueue(kind, payload);
+        return queued();
     }
 
-    try {
-        const url = `https://sheets.googleapis.com/v4/spreadsheets/${sheetId}/values/${encodeURIComponent(employeeRange)}?key=${apiKey}`;
-        const res = await fetch(url);
-        if (!res.ok) {
-            console.error('Sheets API error', res.status, await res.text());
-            return [];
-        }
-        const data = await res.json();
-        const directory = parseEmployees(data.values);
-        saveCache(DIRECTORY_CACHE_KEY, directory.reduce<Record<string, EmployeeRecord>>((acc, emp) => {
-            acc[emp.email] = emp;
-            return acc;
-        }, {}));
-        return directory;
-    } catch (err) {
-        console.error('Failed to fetch employee directory from Sheets', err);
-        const cached = loadCache<EmployeeRecord>(DIRECTORY_CACHE_KEY);
-        return Object.values(cached);
+    const result = await sendMutation(kind, payload);
+    if (isTransientFailure(result)) {
+        await enqueue(kind, payload, result.message || result.code);
+        return queued();
     }
+    return result;
 };
 
+/** Subscribes to background refreshes of cached data; returns an unsubscribe function. */
+export const subscribeDataRefresh = (topic: DataTopic, listener: () => void): (() => void) =>
+    getDataBackend().subscribe?.(topic, listener) ?? (() => {});
+
+export const fetchEmployeeDirectory = (): Promise<EmployeeRecord[]> =>
+    getDataBackend().fetchEmployeeDirectory();
+
 export const fetchUserRole = async (email: string): Promise<UserProfile | null> => {
     const normalizedEmail = email.trim().toLowerCase();
     if (!normalizedEmail) return null;
@@ -99,477 +137,186 @@ export const fetchUserRole = async (email: string): Promise<UserProfile | null>
     return null;
 };
 
-export const appendLogEntry = async (entry: LogEntry): Promise<boolean> => {
-    const { logWebhook } = getEnv();
-    if (!logWebhook) {
-        console.warn('No log webhook configured; skipping remote log.');
-        return false;
-    }
+export const appendLogEntry = (entry: LogEntry): Promise<WriteResult> =>
+    sendOrQueue('request', entry);
 
-    try {
-        // Fire-and-forget; avoid browser CORS enforcement by using no-cors + simple header
-        await fetch(logWebhook, {
-            method: 'POST',
-            mode: 'no-cors',
-            headers: { 'Content-Type': 'text/plain' },
-            body: JSON.stringify(entry),
-        });
-        return true; // response is opaque in no-cors mode
-    } catch (err) {
-        console.error('Network or CORS error during log submission. Check deployed script permissions and URL.', err);
-        return false;
-    }
-};
+export const updateLogEntry = (entry: LogEntry & { requestId: string }): Promise<WriteResult> =>
+    sendOrQueue('edit_request', entry);
 
-export const updateLogEntry = async (entry: LogEntry & { requestId: string }): Promise<boolean> => {
-    const { logWebhook } = getEnv();
-    if (!logWebhook) return false;
-    try {
-        await fetch(logWebhook, {
-            method: 'POST',
-            mode: 'no-cors',
-            headers: { 'Content-Type': 'text/plain' },
-            body: JSON.stringify({ ...entry, type: 'edit_request' }),
-        });
-        return true;
-    } catch { return false; }
-};
+/** Withdraws a request that is still pending. Approved leave goes through `requestCancellation` instead. */
+export const deleteLogEntry = (requestId: string, requestedBy: string): Promise<WriteResult> =>
+    sendOrQueue('delete_request', { requestId, requestedBy });
 
-export const deleteLogEntry = async (requestId: string): Promise<boolean> => {
-    const { logWebhook } = getEnv();
-    if (!logWebhook) return false;
-    try {
-        await fetch(logWebhook, {
-            method: 'POST',
-            mode: 'no-cors',
-            headers: { 'Content-Type': 'text/plain' },
-            body: JSON.stringify({ type: 'delete_request', requestId }),
-        });
-        return true;
-    } catch { return false; }
-};
+/** Asks the approver to cancel approved leave; the leave stays approved until they decide. */
+export const requestCancellation = (requestId: string, cancellationReason: string, requestedBy: string): Promise<WriteResult> =>
+    sendOrQueue('cancel_request', { requestId, cancellationReason, requestedBy });
 
-export const clearRoleCache = () => {
+export const clearRoleCache = async (): Promise<void> => {
     localStorage.removeItem(CACHE_KEY);
     localStorage.removeItem(DIRECTORY_CACHE_KEY);
     localStorage.removeItem(LOOKUP_CACHE_KEY);
-};
-
-export type LookupOptions = {
-    permissionTypes: string[];
-    leaveTypes: string[];
-};
-
-const normalizeOption = (v: unknown) => (typeof v === 'string' ? v.trim() : '').trim();
-const uniq = (arr: string[]) => Array.from(new Set(arr.filter(Boolean)));
-
-const parseLookup = (values: string[][]): LookupOptions => {
-    if (!values || values.length === 0) return { permissionTypes: [], leaveTypes: [] };
-
-    const normalizeHeaderKey = (v: string) => normalizeOption(v).toLowerCase().replace(/[\s_]+/g, '');
-    const firstA = normalizeHeaderKey(values[0]?.[0] || '');
-    const firstB = normalizeHeaderKey(values[0]?.[1] || '');
-    const hasHeader =
-        firstA === 'permissiontype' ||
-        firstB === 'leavetype' ||
-        (firstA === 'permissiontype' && firstB === 'leavetype');
-
-    const rows = values.slice(hasHeader ? 1 : 0);
-
-    const permissionTypes = uniq(rows.map((r) => normalizeOption(r?.[0])));
-    const leaveTypes = uniq(rows.map((r) => normalizeOption(r?.[1])));
-
-    return { permissionTypes, leaveTypes };
-};
-
-export const fetchLookupOptions = async (): Promise<LookupOptions> => {
-    const { sheetId, apiKey, lookupRange } = getEnv();
-    if (!sheetId || !apiKey) {
-        console.warn('Sheets env missing. Provide SHEET_ID and SHEETS_API_KEY to enable lookup dropdowns.');
-        const cached = loadCache<LookupOptions>(LOOKUP_CACHE_KEY);
-        return (cached['options'] as LookupOptions) || { permissionTypes: [], leaveTypes: [] };
-    }
-
     try {
-        const url = `https://sheets.googleapis.com/v4/spreadsheets/${sheetId}/values/${encodeURIComponent(lookupRange)}?key=${apiKey}`;
-        const res = await fetch(url);
-        if (!res.ok) {
-            console.error('Sheets API error (lookup)', res.status, await res.text());
-            const cached = loadCache<LookupOptions>(LOOKUP_CACHE_KEY);
-            return (cached['options'] as LookupOptions) || { permissionTypes: [], leaveTypes: [] };
-        }
-        const data = await res.json();
-        const parsed = parseLookup(data.values);
-        saveCache(LOOKUP_CACHE_KEY, { options: parsed } as unknown as Record<string, LookupOptions>);
-        return parsed;
+        await getDataBackend().clearCache?.();
     } catch (err) {
-        console.error('Failed to fetch lookup options from Sheets', err);
-        const cached = loadCache<LookupOptions>(LOOKUP_CACHE_KEY);
-        return (cached['options'] as LookupOptions) || { permissionTypes: [], leaveTypes: [] };
+        console.warn('Could not clear the sheet cache', err);
     }
 };
 
-export type LogSheetRecord = {
-    timestamp: string;
-    requestId: string;
-    type: string;
-    status: string;
-    employeeName: string;
-    employeeEmail: string;
-    employeeId: string;
-    dates: string;
-    reason: string;
-    managerComment: string;
-    managerAction: string;
-    permissionType: string;
-    leaveType: string;
-
-    requestedInTime: string;
-    requestedOutTime: string;
-    alternateStaff: string;
-};
-
-const getCellString = (row: unknown[], idx: number) => {
-    const v = (row as any[])?.[idx];
-    if (v === null || v === undefined) return '';
-    return String(v).trim();
-};
+export const fetchLookupOptions = (): Promise<LookupOptions> =>
+    getDataBackend().fetchLookupOptions();
 
-const parseLogSheetRecords = (values: string[][]): LogSheetRecord[] => {
-    if (!values || values.length < 2) return [];
-
-    // Apps Script writes a header row; we’ll treat the first row as header if it looks like one.
-    const firstRow = values[0] || [];
-    const firstA = (firstRow[0] || '').toString().trim().toLowerCase();
-    const hasHeader = firstA === 'timestamp';
-
-    const rows = values.slice(hasHeader ? 1 : 0);
-
-    return rows
-        .filter((r) => r && r.length)
-        .map((r) => ({
-            timestamp: getCellString(r, 0),
-            requestId: getCellString(r, 1),
-            type: getCellString(r, 2),
-            status: getCellString(r, 3),
-            employeeName: getCellString(r, 4),
-            employeeEmail: getCellString(r, 5).toLowerCase(),
-            employeeId: getCellString(r, 6),
-            dates: getCellString(r, 7),
-            reason: getCellString(r, 8),
-            managerComment: getCellString(r, 9),
-            managerAction: getCellString(r, 10),
-            permissionType: getCellString(r, 11),
-            leaveType: getCellString(r, 12),
-            requestedInTime: getCellString(r, 13),
-            requestedOutTime: getCellString(r, 14),
-            alternateStaff: getCellString(r, 15),
-        }))
-        .filter((r) => r.employeeEmail || r.employeeId || r.employeeName);
+export const fetchHolidays = async (): Promise<Holiday[]> => {
+    try {
+        return await getDataBackend().fetchHolidays();
+    } catch (err) {
+        console.error('Failed to fetch holidays', err);
+        return [];
+    }
 };
 
-const tryFetchSheetValues_ = async (range: string): Promise<string[][] | null> => {
-    const { sheetId, apiKey } = getEnv();
-    const url = `https://sheets.googleapis.com/v4/spreadsheets/${sheetId}/values/${encodeURIComponent(range)}?key=${apiKey}`;
-    const res = await fetch(url);
-    if (!res.ok) return null;
-    const data = await res.json();
-    return (data.values as string[][]) || [];
+/** Rows of the Policies sheet; combine them with the built-in defaults through services/leavePolicy.ts. */
+export const fetchLeavePolicies = async (): Promise<LeavePolicyRecord[]> => {
+    try {
+        return await getDataBackend().fetchLeavePolicies();
+    } catch (err) {
+        console.error('Failed to fetch leave policies', err);
+        return [];
+    }
 };
 
 export const fetchEmployeeLogHistory = async (employeeEmail: string): Promise<LogSheetRecord[]> => {
-    const { sheetId, apiKey, logRange } = getEnv();
     const normalizedEmail = employeeEmail.trim().toLowerCase();
     if (!normalizedEmail) return [];
 
-    if (!sheetId || !apiKey) {
-        console.warn('Sheets env missing. Provide SHEET_ID and SHEETS_API_KEY to enable Leave History.');
-        return [];
-    }
-
     try {
-        // Try configured range first; then common fallbacks (case + width).
-        const rangesToTry = [
-            logRange,
-            'Logs!A:P',
-            'logs!A:P',
-            'Logs!A:O',
-            'logs!A:O',
-        ];
-
-        let values: string[][] | null = null;
-        for (const r of rangesToTry) {
-            values = await tryFetchSheetValues_(r);
-            if (values) break;
-        }
-
-        const records = parseLogSheetRecords(values || []);
-        const filtered = records.filter((r) => r.employeeEmail === normalizedEmail);
-
-        // Sort newest-first when possible
-        filtered.sort((a, b) => {
-            const ta = Date.parse(a.timestamp);
-            const tb = Date.parse(b.timestamp);
-            if (Number.isNaN(ta) || Number.isNaN(tb)) return 0;
-            return tb - ta;
-        });
-
-        return filtered;
+        const records = await getDataBackend().fetchLogRecords();
+        return sortNewestFirst(records.filter((r) => r.employeeEmail === normalizedEmail));
     } catch (err) {
-        console.error('Failed to fetch employee log history from Sheets', err);
+        console.error('Failed to fetch employee log history', err);
         return [];
     }
 };
 
 export const fetchLogRecords = async (): Promise<LogSheetRecord[]> => {
-    const { sheetId, apiKey, logRange } = getEnv();
-
-    if (!sheetId || !apiKey) {
-        console.warn('Sheets env missing. Provide SHEET_ID and SHEETS_API_KEY to enable Manager approvals.');
-        return [];
-    }
-
     try {
-        const rangesToTry = [
-            logRange,
-            'Logs!A:P',
-            'logs!A:P',
-            'Logs!A:O',
-            'logs!A:O',
-        ];
-
-        let values: string[][] | null = null;
-        for (const r of rangesToTry) {
-            values = await tryFetchSheetValues_(r);
-            if (values) break;
-        }
-
-        const records = parseLogSheetRecords(values || []);
-
-        // Sort newest-first when possible
-        records.sort((a, b) => {
-            const ta = Date.parse(a.timestamp);
-            const tb = Date.parse(b.timestamp);
-            if (Number.isNaN(ta) || Number.isNaN(tb)) return 0;
-            return tb - ta;
-        });
-
-        return records;
+        return sortNewestFirst(await getDataBackend().fetchLogRecords());
     } catch (err) {
-        console.error('Failed to fetch log records from Sheets', err);
+        console.error('Failed to fetch log records', err);
         return [];
     }
 };
 
-export const submitDecisionToLogs = async (params: {
-    requestId: string;
-    status: 'APPROVED' | 'REJECTED';
-    managerComment?: string;
-}): Promise<boolean> => {
-    const { logWebhook } = getEnv();
-    if (!logWebhook) {
-        console.warn('No log webhook configured; cannot submit manager decision.');
-        return false;
-    }
-
+export const fetchEntitlements = async (): Promise<EntitlementRecord[]> => {
     try {
-        // Keep it "simple request" to avoid browser preflight.
-        await fetch(logWebhook, {
-            method: 'POST',
-            mode: 'no-cors',
-            headers: { 'Content-Type': 'text/plain' },
-            body: JSON.stringify({
-                type: 'decision',
-                requestId: params.requestId,
-                status: params.status,
-                managerComment: params.managerComment || '',
-                timestamp: Date.now(),
-            }),
-        });
-        return true;
+        return await getDataBackend().fetchEntitlements();
     } catch (err) {
-        console.error('Network or CORS error during decision submission. Check deployed script permissions and URL.', err);
-        return false;
+        console.error('Failed to fetch leave entitlements', err);
+        return [];
     }
 };
 
-// Task Manager Service Functions
-const TASK_LOOKUP_CACHE_KEY = 'task_lookup_cache';
-const TASK_LOGS_CACHE_KEY = 'task_logs_cache';
-
-export type TaskLookups = {
-    companies: string[];
-    platforms: string[];
-    fulfillments: string[];
-    tasks: string[];
-};
-
-const parseTaskLookups = (values: string[][]): TaskLookups => {
-    if (!values || values.length < 2) return { companies: [], platforms: [], fulfillments: [], tasks: [] };
-
-    // Assuming first row is header, columns C-F are: Company, Platform, Fulfillment, Task
-    const rows = values.slice(1);
-
-    const companies = uniq(rows.map(r => normalizeOption(r?.[2]))); // Column C (index 2)
-    const platforms = uniq(rows.map(r => normalizeOption(r?.[3]))); // Column D (index 3)
-    const fulfillments = uniq(rows.map(r => normalizeOption(r?.[4]))); // Column E (index 4)
-    const tasks = uniq(rows.map(r => normalizeOption(r?.[5]))); // Column F (index 5)
-
-    return { companies, platforms, fulfillments, tasks };
+/** Current balances for one employee; pass `excludeRequestId` when the balance is shown while editing that request. */
+export const fetchLeaveBalances = async (
+    employeeEmail: string,
+    options: BalanceOptions = {}
+): Promise<LeaveBalance[]> => {
+    const [entitlements, records, holidays] = await Promise.all([
+        fetchEntitlements(),
+        fetchEmployeeLogHistory(employeeEmail),
+        fetchHolidays(),
+    ]);
+    return computeLeaveBalances(entitlements, records, employeeEmail, {
+        holidays: toHolidayCalendar(holidays),
+        ...options,
+    });
 };
 
-export const fetchTaskLookups = async (): Promise<TaskLookups> => {
-    const { sheetId, apiKey } = getEnv();
-    const taskLookupRange = 'LookUp!A:F'; // Fetch columns A-F to get C-F
-
-    if (!sheetId || !apiKey) {
-        console.warn('Sheets env missing. Provide SHEET_ID and SHEETS_API_KEY to enable task lookups.');
-        const cached = loadCache<TaskLookups>(TASK_LOOKUP_CACHE_KEY);
-        return (cached['options'] as TaskLookups) || { companies: [], platforms: [], fulfillments: [], tasks: [] };
+/**
+ * Records an approve/reject decision. `approverEmail` is checked against the request's current step; the
+ * step's approver, their active delegate or an admin may decide it.
+ */
+export const submitDecisionToLogs = (params: DecisionParams): Promise<WriteResult> =>
+    sendOrQueue('decision', params);
+
+/**
+ * Applies one decision and comment to several requests in a single webhook call. Each request is checked on its
+ * own; `results` reports them in order, so a batch can be acknowledged while some of its requests were refused.
+ */
+export const submitDecisions = (params: BulkDecisionParams): Promise<WriteResult> =>
+    sendOrQueue('decision', params);
+
+/** Records the nominated alternate's accept/decline; the employee is mailed either way. */
+export const respondToCoverage = (params: CoverageResponseParams): Promise<WriteResult> =>
+    sendOrQueue('coverage_response', params);
+
+export const fetchDelegations = async (): Promise<DelegationRecord[]> => {
+    try {
+        return await getDataBackend().fetchDelegations();
+    } catch (err) {
+        console.error('Failed to fetch delegations', err);
+        return [];
     }
+};
 
+/** Field-level edit history; pass a request ID to get only that request's rows. */
+export const fetchRevisions = async (requestId?: string): Promise<RevisionRecord[]> => {
     try {
-        const url = `https://sheets.googleapis.com/v4/spreadsheets/${sheetId}/values/${encodeURIComponent(taskLookupRange)}?key=${apiKey}`;
-        const res = await fetch(url);
-        if (!res.ok) {
-            console.error('Sheets API error (task lookup)', res.status, await res.text());
-            const cached = loadCache<TaskLookups>(TASK_LOOKUP_CACHE_KEY);
-            return (cached['options'] as TaskLookups) || { companies: [], platforms: [], fulfillments: [], tasks: [] };
-        }
-        const data = await res.json();
-        const parsed = parseTaskLookups(data.values);
-        saveCache(TASK_LOOKUP_CACHE_KEY, { options: parsed } as unknown as Record<string, TaskLookups>);
-        return parsed;
+        const revisions = await getDataBackend().fetchRevisions();
+        return requestId ? revisions.filter((r) => r.requestId === requestId) : revisions;
     } catch (err) {
-        console.error('Failed to fetch task lookups from Sheets', err);
-        const cached = loadCache<TaskLookups>(TASK_LOOKUP_CACHE_KEY);
-        return (cached['options'] as TaskLookups) || { companies: [], platforms: [], fulfillments: [], tasks: [] };
+        console.error('Failed to fetch revisions', err);
+        return [];
     }
 };
 
-export type TaskLogEntry = {
-    employeeEmail: string;
-    employeeName: string;
-    company: string;
-    platform: string;
-    fulfillment: string;
-    task: string;
-    quantity: number;
-    claimedQuantity: number;
-    timestamp: number;
-};
+export const saveDelegation = (params: DelegationParams): Promise<WriteResult> =>
+    sendOrQueue('delegation', params);
 
-export const submitTask = async (entry: TaskLogEntry): Promise<boolean> => {
-    const { logWebhook } = getEnv();
-    if (!logWebhook) {
-        console.warn('No log webhook configured; skipping task submission.');
-        return false;
-    }
+export const revokeDelegation = (delegationId: string, requestedBy: string): Promise<WriteResult> =>
+    sendOrQueue('revoke_delegation', { delegationId, requestedBy });
 
+/** The signed-in manager's saved decision comments. */
+export const fetchCommentTemplates = async (ownerEmail: string): Promise<CommentTemplateRecord[]> => {
+    const owner = ownerEmail.trim().toLowerCase();
     try {
-        await fetch(logWebhook, {
-            method: 'POST',
-            mode: 'no-cors',
-            headers: { 'Content-Type': 'text/plain' },
-            body: JSON.stringify({
-                type: 'task',
-                ...entry
-            }),
-        });
-        return true;
+        return (await getDataBackend().fetchCommentTemplates()).filter((t) => t.ownerEmail === owner);
     } catch (err) {
-        console.error('Network error during task submission.', err);
-        return false;
+        console.error('Failed to fetch comment templates', err);
+        return [];
     }
 };
 
-export type TaskLogRecord = {
-    timestamp: string;
-    employeeName: string;
-    employeeEmail: string;
-    company: string;
-    platform: string;
-    fulfillment: string;
-    task: string;
-    quantity: number;
-    claimedQuantity: number;
-};
+export const saveCommentTemplate = (params: CommentTemplateParams): Promise<WriteResult> =>
+    sendOrQueue('comment_template', params);
 
-function parseTaskLogRecords(rows: any[][]): TaskLogRecord[] {
-    if (!rows || rows.length < 2) return [];
-    const records: TaskLogRecord[] = [];
-    for (let i = 1; i < rows.length; i++) {
-        const r = rows[i];
-        records.push({
-            timestamp: String(r[0] || ''),
-            employeeName: String(r[1] || ''),
-            employeeEmail: String(r[2] || ''),
-            company: String(r[3] || ''),
-            platform: String(r[4] || ''),
-            fulfillment: String(r[5] || ''),
-            task: String(r[6] || ''),
-            quantity: Number(r[7]) || 0,
-            claimedQuantity: Number(r[8]) || 0,
-        });
-    }
-    return records;
-}
+export const deleteCommentTemplate = (templateId: string, ownerEmail: string): Promise<WriteResult> =>
+    sendOrQueue('delete_comment_template', { templateId, ownerEmail });
+
+// Task Manager Service Functions
+export const fetchTaskLookups = (): Promise<TaskLookups> =>
+    getDataBackend().fetchTaskLookups();
+
+export const submitTask = (entry: TaskLogEntry): Promise<WriteResult> =>
+    sendOrQueue('task', entry);
 
 export const fetchUserTasks = async (employeeEmail: string): Promise<TaskLogRecord[]> => {
-    const { sheetId, apiKey } = getEnv();
-    const taskLogsRange = 'TaskLogs!A:I';
     const normalizedEmail = employeeEmail.trim().toLowerCase();
-
     if (!normalizedEmail) return [];
-    if (!sheetId || !apiKey) {
-        console.warn('Sheets env missing. Provide SHEET_ID and SHEETS_API_KEY to enable Task History.');
-        return [];
-    }
 
     try {
-        const values = await tryFetchSheetValues_(taskLogsRange);
-        const records = parseTaskLogRecords(values || []);
-        const filtered = records.filter(r => r.employeeEmail === normalizedEmail);
-
-        // Sort newest-first
-        filtered.sort((a, b) => {
-            const ta = Date.parse(a.timestamp);
-            const tb = Date.parse(b.timestamp);
-            if (Number.isNaN(ta) || Number.isNaN(tb)) return 0;
-            return tb - ta;
-        });
-
-        return filtered;
+        const records = await getDataBackend().fetchTaskLogs();
+        return sortNewestFirst(records.filter(r => r.employeeEmail === normalizedEmail));
     } catch (err) {
-        console.error('Failed to fetch user tasks from Sheets', err);
+        console.error('Failed to fetch user tasks', err);
         return [];
     }
 };
 
 export const fetchAllTaskLogs = async (): Promise<TaskLogRecord[]> => {
-    const { sheetId, apiKey } = getEnv();
-    const taskLogsRange = 'TaskLogs!A:I'; // Updated to include claimedQuantity column
-
-    if (!sheetId || !apiKey) {
-        console.warn('Sheets env missing. Provide SHEET_ID and SHEETS_API_KEY to enable Task Reports.');
-        return [];
-    }
-
     try {
-        const values = await tryFetchSheetValues_(taskLogsRange);
-        const records = parseTaskLogRecords(values || []);
-
-        // Sort newest-first
-        records.sort((a, b) => {
-            const ta = Date.parse(a.timestamp);
-            const tb = Date.parse(b.timestamp);
-            if (Number.isNaN(ta) || Number.isNaN(tb)) return 0;
-            return tb - ta;
-        });
-
-        return records;
+        return sortNewestFirst(await getDataBackend().fetchTaskLogs());
     } catch (err) {
-        console.error('Failed to fetch all task logs from Sheets', err);
+        console.error('Failed to fetch all task logs', err);
         return [];
     }
 };
@@ -0,0 +1,320 @@
+import { BulkDecisionParams, CommentTemplateParams, CoverageResponseParams, DecisionParams, DelegationParams, EmployeeRecord, LogEntry, LookupOptions, TaskLogEntry, TaskLookups, WriteResult } from '../types';
+import type { DataBackend, DataTopic } from './dataBackend';
+import { DIRECTORY_CACHE_KEY, LOOKUP_CACHE_KEY, TASK_LOOKUP_CACHE_KEY, loadCache, saveCache } from './localCache';
+import { createSheetsReader } from './sheetsReader';
+import {
+    parseCommentTemplates,
+    parseDelegations,
+    parseEmployees,
+    parseEntitlementRecords,
+    parseHolidays,
+    parseLeavePolicies,
+    parseLogSheetRecords,
+    parseLookup,
+    parseRevisions,
+    parseTaskLogRecords,
+    parseTaskLookups,
+} from './sheetParsers';
+
+const getEnv = () => ({
+    sheetId: process.env.SHEET_ID,
+    apiKey: process.env.SHEETS_API_KEY,
+    apiBase: process.env.SHEETS_API_BASE || undefined, // Sheets API origin; the dev stand-in overrides it
+    employeeRange: process.env.SHEET_EMPLOYEE_RANGE || 'employeedetails', // Headers: S_NO, EMP_CODE, EMP_NAME, ROLE, EMAIL_ID[, PERMISSION_HOURS, REPORTING_MANAGER]
+    logRange: process.env.SHEET_LOG_RANGE || 'Logs', // Whole Logs sheet; columns are matched by header name
+    logWebhook: process.env.SHEET_LOG_WEBHOOK, // Apps Script / API endpoint to append rows securely
+    lookupRange: (process.env.SHEET_LOOKUP_RANGE as string | undefined) || 'LookUp!A:B', // Col A: Permission Type, Col B: Leave Type
+    entitlementRange: process.env.SHEET_ENTITLEMENT_RANGE || 'Entitlements', // Leave ledger; columns matched by header name
+    holidayRange: process.env.SHEET_HOLIDAY_RANGE || 'Holidays', // Date, Holiday
+    delegationRange: process.env.SHEET_DELEGATION_RANGE || 'Delegations', // Approval delegations; written by the webhook
+    revisionRange: process.env.SHEET_REVISION_RANGE || 'Revisions', // Field-level edit history; written by the webhook
+    templateRange: process.env.SHEET_TEMPLATE_RANGE || 'CommentTemplates', // Saved decision comments; written by the webhook
+    policyRange: process.env.SHEET_POLICY_RANGE || 'Policies', // Leave policy rules; columns matched by header name
+});
+
+// A text/plain POST stays a CORS "simple request" (no preflight), and the Apps Script response
+// is readable cross-origin, so every write gets a real acknowledgement instead of an opaque reply.
+const postToWebhook_ = async (payload: Record<string, unknown>, context: string): Promise<WriteResult> => {
+    const { logWebhook } = getEnv();
+    if (!logWebhook) {
+        console.warn(`No log webhook configured; skipping ${context}.`);
+        return { ok: false, code: 'NO_WEBHOOK', message: 'No log webhook configured.' };
+    }
+
+    let res: Response;
+    try {
+        res = await fetch(logWebhook, {
+            method: 'POST',
+            headers: { 'Content-Type': 'text/plain' },
+            body: JSON.stringify(payload),
+        });
+    } catch (err) {
+        console.error(`Network or CORS error during ${context}. Check deployed script permissions and URL.`, err);
+        return { ok: false, code: 'NETWORK_ERROR', message: 'Could not reach the server. Check your connection.' };
+    }
+
+    try {
+        const result = (await res.json()) as WriteResult;
+        if (typeof result?.ok !== 'boolean') throw new Error('Missing ok flag');
+        if (!result.ok) console.error(`Webhook rejected ${context}:`, result.code, result.message);
+        return result;
+    } catch (err) {
+        console.error(`Unreadable webhook response during ${context} (HTTP ${res.status}).`, err);
+        return { ok: false, code: 'INVALID_RESPONSE', message: `Unexpected response from server (HTTP ${res.status}).` };
+    }
+};
+
+// Per-range freshness: reference data changes rarely, request logs change whenever someone submits or decides.
+const DIRECTORY_TTL_MS = 10 * 60_000;
+const LOOKUP_TTL_MS = 10 * 60_000;
+const LOG_TTL_MS = 30_000;
+
+const TASK_LOOKUP_RANGE = 'LookUp!A:F'; // Fetch columns A-F to get C-F
+const TASK_LOGS_RANGE = 'TaskLogs'; // Whole sheet; columns are matched by header name
+
+export const createSheetsBackend = (): DataBackend => {
+    const reader = createSheetsReader(getEnv);
+    const { employeeRange, lookupRange, logRange, entitlementRange, holidayRange, delegationRange, revisionRange, templateRange, policyRange } = getEnv();
+    const topics = new Map<string, DataTopic>([ // range -> topic
+        [employeeRange, 'directory'],
+        [lookupRange, 'lookups'],
+        [TASK_LOOKUP_RANGE, 'taskLookups'],
+        ['Logs', 'logs'],
+        [logRange, 'logs'],
+        [TASK_LOGS_RANGE, 'taskLogs'],
+        [entitlementRange, 'entitlements'],
+        [holidayRange, 'holidays'],
+        [delegationRange, 'delegations'],
+        [revisionRange, 'revisions'],
+        [templateRange, 'templates'],
+        [policyRange, 'policies'],
+    ]);
+
+    const read = (range: string, ttlMs: number) => reader.read(range, { ttlMs });
+
+    const rangesFor = (topic: DataTopic) =>
+        Array.from(topics.entries()).filter(([, t]) => t === topic).map(([range]) => range);
+
+    // Writes go through the webhook, so drop the affected cached ranges once a write is acknowledged.
+    const writeThen = (topic: DataTopic) => (result: WriteResult) => {
+        if (result.ok) reader.invalidate(rangesFor(topic));
+        return result;
+    };
+
+    const fetchEmployeeDirectory = async (): Promise<EmployeeRecord[]> => {
+        const { sheetId, apiKey, employeeRange } = getEnv();
+        if (!sheetId || !apiKey) {
+            console.warn('Sheets env missing. Provide SHEET_ID and SHEETS_API_KEY to enable employee lookup.');
+            return [];
+        }
+
+        const values = await read(employeeRange, DIRECTORY_TTL_MS);
+        if (!values) {
+            const cached = loadCache<EmployeeRecord>(DIRECTORY_CACHE_KEY);
+            return Object.values(cached);
+        }
+        const directory = parseEmployees(values);
+        saveCache(DIRECTORY_CACHE_KEY, directory.reduce<Record<string, EmployeeRecord>>((acc, emp) => {
+            acc[emp.email] = emp;
+            return acc;
+        }, {}));
+        return directory;
+    };
+
+    const fetchLookupOptions = async (): Promise<LookupOptions> => {
+        const { sheetId, apiKey, lookupRange } = getEnv();
+        const fromCache = () => {
+            const cached = loadCache<LookupOptions>(LOOKUP_CACHE_KEY);
+            return (cached['options'] as LookupOptions) || { permissionTypes: [], leaveTypes: [] };
+        };
+        if (!sheetId || !apiKey) {
+            console.warn('Sheets env missing. Provide SHEET_ID and SHEETS_API_KEY to enable lookup dropdowns.');
+            return fromCache();
+        }
+
+        const values = await read(lookupRange, LOOKUP_TTL_MS);
+        if (!values) return fromCache();
+        const parsed = parseLookup(values);
+        saveCache(LOOKUP_CACHE_KEY, { options: parsed } as unknown as Record<string, LookupOptions>);
+        return parsed;
+    };
+
+    const fetchTaskLookups = async (): Promise<TaskLookups> => {
+        const { sheetId, apiKey } = getEnv();
+        const fromCache = () => {
+            const cached = loadCache<TaskLookups>(TASK_LOOKUP_CACHE_KEY);
+            return (cached['options'] as TaskLookups) || { companies: [], platforms: [], fulfillments: [], tasks: [] };
+        };
+
+        if (!sheetId || !apiKey) {
+            console.warn('Sheets env missing. Provide SHEET_ID and SHEETS_API_KEY to enable task lookups.');
+            return fromCache();
+        }
+
+        const values = await read(TASK_LOOKUP_RANGE, LOOKUP_TTL_MS);
+        if (!values) return fromCache();
+        const parsed = parseTaskLookups(values);
+        saveCache(TASK_LOOKUP_CACHE_KEY, { options: parsed } as unknown as Record<string, TaskLookups>);
+        return parsed;
+    };
+
+    const fetchLogRecords = async () => {
+        const { sheetId, apiKey, logRange } = getEnv();
+        if (!sheetId || !apiKey) {
+            console.warn('Sheets env missing. Provide SHEET_ID and SHEETS_API_KEY to enable Leave History and approvals.');
+            return [];
+        }
+
+        // Configured range first; the default sheet name only if that range does not resolve.
+        let values = await read(logRange, LOG_TTL_MS);
+        if (!values && logRange !== 'Logs') values = await read('Logs', LOG_TTL_MS);
+        return parseLogSheetRecords(values || []);
+    };
+
+    const fetchTaskLogs = async () => {
+        const { sheetId, apiKey } = getEnv();
+        if (!sheetId || !apiKey) {
+            console.warn('Sheets env missing. Provide SHEET_ID and SHEETS_API_KEY to enable Task History.');
+            return [];
+        }
+
+        const values = await read(TASK_LOGS_RANGE, LOG_TTL_MS);
+        return parseTaskLogRecords(values || []);
+    };
+
+    const fetchEntitlements = async () => {
+        const { sheetId, apiKey, entitlementRange } = getEnv();
+        if (!sheetId || !apiKey) {
+            console.warn('Sheets env missing. Provide SHEET_ID and SHEETS_API_KEY to enable leave balances.');
+            return [];
+        }
+
+        // A spreadsheet without the Entitlements sheet simply has no balances to show.
+        const values = await read(entitlementRange, LOOKUP_TTL_MS);
+        return parseEntitlementRecords(values || []);
+    };
+
+    const fetchHolidays = async () => {
+        const { sheetId, apiKey, holidayRange } = getEnv();
+        if (!sheetId || !apiKey) {
+            console.warn('Sheets env missing. Provide SHEET_ID and SHEETS_API_KEY to enable the holiday calendar.');
+            return [];
+        }
+
+        // Without a Holidays sheet only weekends are excluded from durations.
+        const values = await read(holidayRange, LOOKUP_TTL_MS);
+        return parseHolidays(values || []);
+    };
+
+    const fetchDelegations = async () => {
+        const { sheetId, apiKey, delegationRange } = getEnv();
+        if (!sheetId || !apiKey) {
+            console.warn('Sheets env missing. Provide SHEET_ID and SHEETS_API_KEY to enable approval delegation.');
+            return [];
+        }
+
+        // The webhook creates the Delegations sheet with the first delegation.
+        const values = await read(delegationRange, LOG_TTL_MS);
+        return parseDelegations(values || []);
+    };
+
+    const fetchRevisions = async () => {
+        const { sheetId, apiKey, revisionRange } = getEnv();
+        if (!sheetId || !apiKey) {
+            console.warn('Sheets env missing. Provide SHEET_ID and SHEETS_API_KEY to enable revision history.');
+            return [];
+        }
+
+        // The webhook creates the Revisions sheet with the first edit.
+        const values = await read(revisionRange, LOG_TTL_MS);
+        return parseRevisions(values || []);
+    };
+
+    const fetchCommentTemplates = async () => {
+        const { sheetId, apiKey, templateRange } = getEnv();
+        if (!sheetId || !apiKey) {
+            console.warn('Sheets env missing. Provide SHEET_ID and SHEETS_API_KEY to enable comment templates.');
+            return [];
+        }
+
+        // The webhook creates the CommentTemplates sheet with the first saved template.
+        const values = await read(templateRange, LOG_TTL_MS);
+        return parseCommentTemplates(values || []);
+    };
+
+    const fetchLeavePolicies = async () => {
+        const { sheetId, apiKey, policyRange } = getEnv();
+        if (!sheetId || !apiKey) {
+            console.warn('Sheets env missing. Provide SHEET_ID and SHEETS_API_KEY to enable leave policies.');
+            return [];
+        }
+
+        // Without a Policies sheet only the built-in defaults apply.
+        const values = await read(policyRange, LOOKUP_TTL_MS);
+        return parseLeavePolicies(values || []);
+    };
+
+    const subscribe = (topic: DataTopic, listener: () => void) =>
+        reader.subscribe((range) => {
+            if (topics.get(range) === topic) listener();
+        });
+
+    return {
+        fetchEmployeeDirectory,
+        fetchLookupOptions,
+        fetchTaskLookups,
+        fetchLogRecords,
+        fetchTaskLogs,
+        fetchEntitlements,
+        fetchHolidays,
+        fetchDelegations,
+        fetchRevisions,
+        fetchCommentTemplates,
+        fetchLeavePolicies,
+        appendLogEntry: (entry: LogEntry) =>
+            postToWebhook_({ ...entry }, 'log submission').then(writeThen('logs')),
+        updateLogEntry: (entry) =>
+            postToWebhook_({ ...entry, type: 'edit_request' }, 'request edit')
+                .then(writeThen('logs'))
+                .then(writeThen('revisions')),
+        deleteLogEntry: (requestId, requestedBy) =>
+            postToWebhook_({ type: 'delete_request', requestId, requestedBy }, 'request deletion').then(writeThen('logs')),
+        requestCancellation: (requestId, cancellationReason, requestedBy) =>
+            postToWebhook_({ type: 'cancel_request', requestId, cancellationReason, requestedBy }, 'cancellation request').then(
+                writeThen('logs')
+            ),
+        submitDecision: (params: DecisionParams) =>
+            postToWebhook_({
+                type: 'decision',
+                requestId: params.requestId,
+                status: params.status,
+                managerComment: params.managerComment || '',
+                approverEmail: params.approverEmail || '',
+                alternateNote: params.alternateNote || '',
+                timestamp: Date.now(),
+            }, 'decision submission').then(writeThen('logs')),
+        submitDecisions: (params: BulkDecisionParams) =>
+            postToWebhook_({
+                type: 'decision',
+                requestIds: params.requestIds,
+                status: params.status,
+                managerComment: params.managerComment || '',
+                approverEmail: params.approverEmail || '',
+                timestamp: Date.now(),
+            }, 'bulk decision').then(writeThen('logs')),
+        respondToCoverage: (params: CoverageResponseParams) =>
+            postToWebhook_({ type: 'coverage_response', ...params }, 'coverage response').then(writeThen('logs')),
+        submitTask: (entry: TaskLogEntry) =>
+            postToWebhook_({ type: 'task', ...entry }, 'task submission').then(writeThen('taskLogs')),
+        saveDelegation: (params: DelegationParams) =>
+            postToWebhook_({ type: 'delegation', ...params }, 'delegation').then(writeThen('delegations')),
+        revokeDelegation: (delegationId: string, requestedBy: string) =>
+            postToWebhook_({ type: 'revoke_delegation', delegationId, requestedBy }, 'delegation revocation').then(writeThen('delegations')),
+        saveCommentTemplate: (params: CommentTemplateParams) =>
+            postToWebhook_({ type: 'comment_template', ...params }, 'comment template').then(writeThen('templates')),
+        deleteCommentTemplate: (templateId: string, ownerEmail: string) =>
+            postToWebhook_({ type: 'delete_comment_template', templateId, ownerEmail }, 'comment template deletion').then(writeThen('templates')),
+        subscribe,
+        clearCache: reader.clear,
+    };
+};
@@ -0,0 +1,165 @@
+import { idbDeletePrefix, idbGet, idbSet } from './idbStore';
+
+// Read layer for the Sheets values API. Every range read goes through here so that:
+//  - ranges requested in the same moment share one `values:batchGet` call,
+//  - a range already being fetched is never fetched twice concurrently,
+//  - each range is cached (in memory and IndexedDB) with its own TTL, and
+//  - stale data is served immediately while a background refresh runs (stale-while-revalidate).
+// Listeners hear about ranges whose values changed in a background refresh.
+
+export type SheetsReaderConfig = { sheetId?: string; apiKey?: string; apiBase?: string };
+
+export type ReadOptions = {
+    ttlMs?: number;
+};
+
+type CacheEntry = {
+    values: string[][];
+    fetchedAt: number;
+};
+
+type RefreshListener = (range: string) => void;
+
+export type SheetsReader = {
+    read(range: string, options?: ReadOptions): Promise<string[][] | null>;
+    invalidate(ranges: string[]): void;
+    subscribe(listener: RefreshListener): () => void;
+    /** Forgets every cached range, in memory and in IndexedDB (e.g. on sign-out). */
+    clear(): Promise<void>;
+};
+
+const DEFAULT_TTL_MS = 60_000;
+const BATCH_WINDOW_MS = 10;
+const PERSIST_PREFIX = 'sheets_range_v2:';
+const DEFAULT_API_BASE = 'https://sheets.googleapis.com';
+
+export const createSheetsReader = (getConfig: () => SheetsReaderConfig): SheetsReader => {
+    const cache = new Map<string, CacheEntry>();
+    const inFlight = new Map<string, { promise: Promise<string[][] | null>; generation: number }>();
+    // Ranges written since they were cached: the next read waits for the network instead of serving stale data.
+    const invalidated = new Set<string>();
+    // Bumped by every invalidation; a fetch that started before the latest one may hold pre-write values.
+    const generations = new Map<string, number>();
+    const generationOf = (range: string) => generations.get(range) || 0;
+    const listeners = new Set<RefreshListener>();
+    let queue: { range: string; resolve: (values: string[][] | null) => void }[] = [];
+    let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+    // Persisted entries are scoped to the spreadsheet and API origin, so switching either (e.g. between the dev
+    // stand-in and the real Sheets API) never paints the other source's rows.
+    const persistKey = (range: string) => {
+        const { sheetId = '', apiBase = DEFAULT_API_BASE } = getConfig();
+        return `${PERSIST_PREFIX}${apiBase}|${sheetId}|${range}`;
+    };
+
+    const batchGet = async (ranges: string[]): Promise<(string[][] | null)[] | null> => {
+        const { sheetId, apiKey, apiBase = DEFAULT_API_BASE } = getConfig();
+        const params = ranges.map((r) => `ranges=${encodeURIComponent(r)}`).join('&');
+        const url = `${apiBase}/v4/spreadsheets/${sheetId}/values:batchGet?${params}&key=${apiKey}`;
+        try {
+            const res = await fetch(url);
+            if (!res.ok) {
+                console.error('Sheets API error (batchGet)', res.status, ranges.join(', '));
+                return null;
+            }
+            const data = await res.json();
+            const valueRanges = (data.valueRanges || []) as { values?: string[][] }[];
+            return ranges.map((_, i) => valueRanges[i]?.values || []);
+        } catch (err) {
+            console.error('Failed to reach the Sheets API', err);
+            return null;
+        }
+    };
+
+    const flush = async () => {
+        flushTimer = null;
+        const batch = queue;
+        queue = [];
+        const ranges = Array.from(new Set(batch.map((b) => b.range)));
+
+        let results = await batchGet(ranges);
+        if (!results && ranges.length > 1) {
+            // One unknown range fails the whole batch; retry individually so the others still load.
+            results = await Promise.all(ranges.map(async (r) => (await batchGet([r]))?.[0] ?? null));
+        }
+        const byRange = new Map(ranges.map((r, i) => [r, results?.[i] ?? null]));
+        batch.forEach(({ range, resolve }) => resolve(byRange.get(range) ?? null));
+    };
+
+    const fetchRange = (range: string): Promise<string[][] | null> => {
+        const generation = generationOf(range);
+        const existing = inFlight.get(range);
+        if (existing && existing.generation === generation) return existing.promise;
+
+        const promise = new Promise<string[][] | null>((resolve) => {
+            queue.push({ range, resolve });
+            if (!flushTimer) flushTimer = setTimeout(flush, BATCH_WINDOW_MS);
+        }).then((values) => {
+            if (inFlight.get(range)?.promise === promise) inFlight.delete(range);
+            // Started before a write was invalidated: hand the values to this caller, but cache nothing.
+            if (values && generation === generationOf(range)) {
+                invalidated.delete(range);
+                const previous = cache.get(range);
+                const entry: CacheEntry = { values, fetchedAt: Date.now() };
+                cache.set(range, entry);
+                idbSet(persistKey(range), entry).catch((err) => console.warn('Could not persist sheet cache', err));
+                if (previous && JSON.stringify(previous.values) !== JSON.stringify(values)) {
+                    listeners.forEach((listener) => listener(range));
+                }
+            }
+            return values;
+        });
+        inFlight.set(range, { promise, generation });
+        return promise;
+    };
+
+    const cachedEntry = async (range: string): Promise<CacheEntry | undefined> => {
+        const inMemory = cache.get(range);
+        if (inMemory) return inMemory;
+        try {
+            const persisted = await idbGet<CacheEntry>(persistKey(range));
+            // Another read may have populated memory while IndexedDB was answering.
+            if (persisted && !cache.has(range)) cache.set(range, persisted);
+        } catch (err) {
+            console.warn('Could not read sheet cache', err);
+        }
+        return cache.get(range);
+    };
+
+    const read = async (range: string, options: ReadOptions = {}): Promise<string[][] | null> => {
+        const ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+        const entry = await cachedEntry(range);
+
+        if (entry && !invalidated.has(range)) {
+            if (Date.now() - entry.fetchedAt > ttlMs) void fetchRange(range);
+            return entry.values;
+        }
+
+        const values = await fetchRange(range);
+        // Offline or API failure: fall back to whatever we last saw, even if it was invalidated.
+        return values ?? entry?.values ?? null;
+    };
+
+    const invalidate = (ranges: string[]) => {
+        ranges.forEach((range) => {
+            invalidated.add(range);
+            generations.set(range, generationOf(range) + 1);
+        });
+    };
+
+    const clear = async () => {
+        // In-flight reads belong to the previous user too; their results must not repopulate the cache.
+        invalidate([...Array.from(cache.keys()), ...Array.from(inFlight.keys())]);
+        cache.clear();
+        await idbDeletePrefix(PERSIST_PREFIX);
+    };
+
+    const subscribe = (listener: RefreshListener) => {
+        listeners.add(listener);
+        return () => {
+            listeners.delete(listener);
+        };
+    };
+
+    return { read, invalidate, subscribe, clear };
+};
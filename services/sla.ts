@@ -0,0 +1,96 @@
+import { EmployeeRecord, LogSheetRecord } from '../types';
+import { currentStepIndex } from './approvalChain';
+import { addDays, daysBetween, todayIso } from './dateUtils';
+
+// Service levels for requests awaiting a decision. Once a request has waited `remindAfterHours` on its current
+// approver they are reminded; after `escalateAfterHours` it is escalated to the approver's own manager (or the
+// admins). Leave starting within `startsSoonDays` gets its reminder straight away. The hourly job in code.gs
+// (`sendSlaReminders`) and the local workbook act on these stages; Manage Leave shows them.
+
+export type SlaSettings = {
+    remindAfterHours: number;
+    escalateAfterHours: number;
+    startsSoonDays: number;
+};
+
+export type SlaStage = 'on_time' | 'reminder' | 'overdue';
+
+export type SlaStatus = {
+    hoursWaiting: number;
+    stage: SlaStage;
+    startsSoon: boolean; // the leave starts within startsSoonDays, or has already started
+};
+
+type SlaRecord = Pick<LogSheetRecord, 'timestamp' | 'startDate' | 'approvalSteps' | 'awaitingSince'>;
+
+const positive = (value: string | undefined, fallback: number) => {
+    const n = Number(value);
+    return Number.isFinite(n) && n > 0 ? n : fallback;
+};
+
+export const getSlaSettings = (): SlaSettings => ({
+    remindAfterHours: positive(process.env.SLA_REMIND_AFTER_HOURS, 24),
+    escalateAfterHours: positive(process.env.SLA_ESCALATE_AFTER_HOURS, 72),
+    startsSoonDays: Math.round(positive(process.env.SLA_STARTS_SOON_DAYS, 3)),
+});
+
+/**
+ * When the request started waiting on its current approver. Rows written before the Awaiting Since column
+ * existed fall back to the previous step's decision, then to the submission time.
+ */
+export const awaitingSince = (record: SlaRecord) => {
+    if (record.awaitingSince) return record.awaitingSince;
+    const idx = currentStepIndex(record.approvalSteps);
+    return (idx > 0 && record.approvalSteps[idx - 1].decidedAt) || record.timestamp;
+};
+
+export const slaStatus = (
+    record: SlaRecord,
+    settings: SlaSettings = getSlaSettings(),
+    now: Date = new Date(),
+    today: string = todayIso()
+): SlaStatus => {
+    const since = Date.parse(awaitingSince(record));
+    const hoursWaiting = Number.isNaN(since) ? 0 : Math.max(0, (now.getTime() - since) / 3_600_000);
+    const stage: SlaStage =
+        hoursWaiting >= settings.escalateAfterHours ? 'overdue' : hoursWaiting >= settings.remindAfterHours ? 'reminder' : 'on_time';
+    const startsSoon = !!record.startDate && record.startDate <= addDays(today, settings.startsSoonDays);
+    return { hoursWaiting, stage, startsSoon };
+};
+
+/** What the reminder job owes a waiting request: one reminder per wait, then one escalation once it is overdue. */
+export const dueSlaAction = (
+    record: Pick<LogSheetRecord, 'remindedAt' | 'escalatedAt'>,
+    status: SlaStatus
+): 'remind' | 'escalate' | null => {
+    if (!record.remindedAt) return status.stage !== 'on_time' || status.startsSoon ? 'remind' : null;
+    if (!record.escalatedAt && status.stage === 'overdue') return 'escalate';
+    return null;
+};
+
+/** Who an overdue request goes to: the approvers' own reporting managers, or the admins when none has one. */
+export const escalationTargets = (approvers: string[], directory: EmployeeRecord[]): string[] => {
+    const managers = approvers
+        .map((a) => (directory.find((emp) => emp.email === a)?.reportingManagerEmail || '').trim().toLowerCase())
+        .filter((m) => m && !approvers.includes(m));
+    if (managers.length) return Array.from(new Set(managers));
+    return directory.filter((emp) => emp.role === 'admin' && !approvers.includes(emp.email)).map((emp) => emp.email);
+};
+
+/** "45m", "5h" or "2d 3h". */
+export const formatWaiting = (hours: number) => {
+    if (hours < 1) return `${Math.floor(hours * 60)}m`;
+    if (hours < 24) return `${Math.floor(hours)}h`;
+    const days = Math.floor(hours / 24);
+    const rest = Math.floor(hours - days * 24);
+    return rest ? `${days}d ${rest}h` : `${days}d`;
+};
+
+/** "Starts in 2 days", "Starts tomorrow", "Starts today" or "Started 3 days ago". */
+export const startsInLabel = (startDate: string, today: string = todayIso()) => {
+    const days = daysBetween(today, startDate);
+    if (days > 1) return `Starts in ${days} days`;
+    if (days === 1) return 'Starts tomorrow';
+    if (days === 0) return 'Starts today';
+    return days === -1 ? 'Started yesterday' : `Started ${-days} days ago`;
+};
@@ -0,0 +1,35 @@
+import { Holiday } from '../types';
+import { addDays, weekday } from './dateUtils';
+
+// Leave duration in working days: weekends and entries of the Holidays sheet do not count.
+// Every duration shown in the app, and every balance debit, goes through countWorkingDays.
+
+export type HolidayCalendar = ReadonlyMap<string, string>; // ISO date -> holiday name
+
+const WEEKEND_DAYS = [0, 6]; // Sunday, Saturday
+// Longest calendar span a request may cover; leavePolicy refuses longer ones (typos such as a 2062 end date).
+export const MAX_SPAN_DAYS = 366;
+
+export const toHolidayCalendar = (holidays: Holiday[]): HolidayCalendar =>
+    new Map(holidays.filter((h) => h.date).map((h) => [h.date, h.name]));
+
+export const isWeekend = (iso: string) => WEEKEND_DAYS.includes(weekday(iso));
+
+const eachDay = (startDate: string, endDate: string): string[] => {
+    const end = endDate || startDate;
+    if (!startDate || end < startDate) return [];
+    const days: string[] = [];
+    for (let day = startDate; day <= end; day = addDays(day, 1)) days.push(day);
+    return days;
+};
+
+export const countWorkingDays = (startDate: string, endDate: string, calendar: HolidayCalendar = new Map()) =>
+    eachDay(startDate, endDate).filter((day) => !isWeekend(day) && !calendar.has(day)).length;
+
+/** Holidays falling on weekdays inside the range, i.e. the ones that actually shortened it. */
+export const holidaysBetween = (startDate: string, endDate: string, calendar: HolidayCalendar): Holiday[] =>
+    eachDay(startDate, endDate)
+        .filter((day) => !isWeekend(day) && calendar.has(day))
+        .map((day) => ({ date: day, name: calendar.get(day) || '' }));
+
+export const formatWorkingDays = (days: number) => `${days} working day${days === 1 ? '' : 's'}`;
@@ -1,7 +1,12 @@
+// Allowed moves between these are listed in services/leaveStatus.ts.
 export enum LeaveStatus {
   PENDING = 'PENDING',
+  NEEDS_INFO = 'NEEDS_INFO', // the approver sent the request back; the employee edits or withdraws it
   APPROVED = 'APPROVED',
   REJECTED = 'REJECTED',
+  WITHDRAWN = 'WITHDRAWN', // withdrawn by the employee before a decision (older rows say DELETED)
+  CANCEL_REQUESTED = 'CANCEL_REQUESTED', // approved leave the employee asked to cancel; still counts as taken
+  CANCELLED = 'CANCELLED', // cancellation approved; the days go back to the balance
 }
 
 export interface LeaveRequest {
@@ -36,6 +41,8 @@ export interface EmployeeRecord {
   name: string;
   employeeId: string;
   role: UserRoleType;
+  permissionHoursPerMonth?: number; // overrides PERMISSION_HOURS_PER_MONTH when the column is filled in
+  reportingManagerEmail?: string; // approves this employee's requests; admins do when empty
 }
 
 export interface LogEntry {
@@ -55,6 +62,8 @@ export interface LogEntry {
   reason?: string;
   managerComment?: string;
   alternateStaff?: string;
+  alternateEmail?: string; // the nominated alternate's directory email; resolved from the name when missing
+  attachmentUrl?: string;
   requestId?: string;
 }
 
@@ -93,3 +102,217 @@ export interface TaskEntry {
   claimedQuantity: number;
   timestamp: string;
 }
+
+// Data backend record shapes (shared by the Sheets and local backends)
+export type LookupOptions = {
+  permissionTypes: string[];
+  leaveTypes: string[];
+};
+
+export type LogSheetRecord = {
+  timestamp: string;
+  requestId: string;
+  type: string;
+  status: string;
+  employeeName: string;
+  employeeEmail: string;
+  employeeId: string;
+  startDate: string; // ISO yyyy-mm-dd
+  endDate: string; // ISO yyyy-mm-dd; equals startDate for single-day requests
+  reason: string;
+  managerComment: string;
+  managerAction: string;
+  permissionType: string;
+  leaveType: string;
+
+  requestedInTime: string;
+  requestedOutTime: string;
+  alternateStaff: string;
+  approvalSteps: ApprovalStep[]; // empty for rows written before approval chains existed
+  decidedBy: string; // who made the latest decision
+  onBehalfOf: string; // set when that decision was made by a delegate: the approver they stood in for
+  cancellationReason: string; // the employee's reason when asking to cancel approved leave
+  alternateEmail: string; // directory email of the alternate staff member
+  coverageStatus: CoverageStatus | ''; // the alternate's answer; empty when no alternate was nominated
+  coverageNote: string; // the alternate's note, usually why they declined
+  awaitingSince: string; // ISO timestamp the request started waiting on its current approver
+  remindedAt: string; // reminder sent for the current wait; cleared when the request moves on
+  escalatedAt: string; // escalation sent for the current wait; cleared likewise
+  attachmentUrl: string; // link to a supporting document, required by some leave policies
+};
+
+export type CoverageStatus = 'PENDING' | 'ACCEPTED' | 'DECLINED';
+
+export type CoverageResponseParams = {
+  requestId: string;
+  responderEmail: string; // must be the request's alternate
+  response: 'ACCEPTED' | 'DECLINED';
+  note?: string;
+};
+
+/**
+ * One step of a request's approval chain, stored as JSON in the Logs "Approval Steps" column.
+ * `approver` is an email address, or `admin` when any admin may decide the step.
+ * WAITING steps become PENDING once every step before them is approved.
+ */
+export type ApprovalStepStatus = 'WAITING' | 'PENDING' | 'APPROVED' | 'REJECTED';
+
+export type ApprovalStep = {
+  approver: string;
+  status: ApprovalStepStatus;
+  decidedBy?: string;
+  decidedAt?: string; // ISO timestamp
+  comment?: string;
+  onBehalfOf?: string; // the approver a delegate decided for
+};
+
+/** A row of the ApprovalChains sheet: the approvers a leave type needs, in order. */
+export type ApprovalChainRecord = {
+  leaveType: string;
+  approvers: string[]; // `manager` (the reporting manager), `admin`, or an email address
+};
+
+/**
+ * One row of the Entitlements ledger. OPENING starts a new balance period for the employee and leave
+ * type; ACCRUAL and ADJUSTMENT (which may be negative) add to it. Debits come from approved requests.
+ */
+export type EntitlementEntryType = 'OPENING' | 'ACCRUAL' | 'ADJUSTMENT';
+
+export type EntitlementRecord = {
+  employeeEmail: string;
+  leaveType: string;
+  entryType: EntitlementEntryType;
+  days: number;
+  effectiveDate: string; // ISO yyyy-mm-dd; '' means "always"
+  note: string;
+};
+
+export type LeaveBalance = {
+  leaveType: string;
+  opening: number;
+  accrued: number; // accruals plus adjustments
+  used: number; // approved requests
+  pending: number; // requests still awaiting a decision
+  remaining: number; // opening + accrued - used
+};
+
+export type Holiday = {
+  date: string; // ISO yyyy-mm-dd
+  name: string;
+};
+
+export type DateRange = {
+  startDate: string; // ISO yyyy-mm-dd
+  endDate: string; // ISO yyyy-mm-dd; equals startDate for a single day
+};
+
+/**
+ * A row of the Policies sheet. `null` (a blank cell) leaves the rule to the broader rows: the `*` row, then the
+ * built-in defaults in services/leavePolicy.ts.
+ */
+export type LeavePolicyRecord = {
+  leaveType: string; // `*` applies to every leave type
+  minNoticeDays: number | null;
+  maxConsecutiveDays: number | null; // calendar days, start to end inclusive
+  maxBackdateDays: number | null; // how far in the past the start date may be
+  blackoutDates: DateRange[];
+  requiresAttachment: boolean | null;
+  permissionOnly: boolean | null; // may only be requested with Permission Type "Permission"
+};
+
+/** Acknowledgement returned by the webhook (and the local backend) for every write. */
+export type WriteResult = {
+  ok: boolean;
+  code?: string; // machine-readable failure code, e.g. NOT_FOUND, NETWORK_ERROR
+  message?: string;
+  requestId?: string; // server-generated for new requests
+  row?: number; // 1-based sheet row that was written
+  queued?: boolean; // accepted into the offline outbox, not yet acknowledged by the server
+  conflictRequestId?: string; // OVERLAP failures: the existing request the dates collide with
+  delegationId?: string; // delegation writes: the delegation created or revoked
+  templateId?: string; // comment template writes: the template saved or deleted
+  results?: WriteResult[]; // batched decisions: one acknowledgement per request, in the order sent; check each
+};
+
+/**
+ * A row of the Delegations sheet: between the two dates (inclusive), `delegateEmail` may decide the
+ * approvals waiting on `delegatorEmail`.
+ */
+export type DelegationStatus = 'ACTIVE' | 'REVOKED';
+
+export type DelegationRecord = {
+  delegationId: string;
+  delegatorEmail: string;
+  delegateEmail: string;
+  startDate: string; // ISO yyyy-mm-dd
+  endDate: string; // ISO yyyy-mm-dd
+  status: DelegationStatus;
+  createdAt: string;
+};
+
+/** One changed field of an edit to a leave request; an edit with several changes writes several rows. */
+export type RevisionRecord = {
+  timestamp: string;
+  requestId: string;
+  revision: number; // 1 for the request's first edit
+  editedBy: string;
+  field: string; // Logs column key, e.g. startDate
+  before: string;
+  after: string;
+};
+
+/** A manager's saved decision comment; `decision` limits it to one kind of decision, blank offers it for all. */
+export type CommentTemplateRecord = {
+  templateId: string;
+  ownerEmail: string;
+  label: string;
+  decision: DecisionParams['status'] | '';
+  text: string;
+  createdAt: string;
+};
+
+export type CommentTemplateParams = Pick<CommentTemplateRecord, 'ownerEmail' | 'label' | 'decision' | 'text'>;
+
+export type DelegationParams = Pick<DelegationRecord, 'delegatorEmail' | 'delegateEmail' | 'startDate' | 'endDate'> & {
+  requestedBy: string; // the signed-in user; only the delegator may create or revoke their delegation
+};
+
+export type DecisionParams = {
+  requestId: string;
+  status: 'APPROVED' | 'REJECTED' | 'NEEDS_INFO'; // NEEDS_INFO sends the request back to the employee
+  managerComment?: string;
+  approverEmail?: string; // who is deciding; checked against the request's current approval step
+  alternateNote?: string; // approvals only: mailed to the alternate staff once the request is fully approved
+};
+
+/** One approve/reject decision and comment applied to several requests in a single webhook call. */
+export type BulkDecisionParams = {
+  requestIds: string[];
+  status: 'APPROVED' | 'REJECTED';
+  managerComment?: string;
+  approverEmail?: string;
+};
+
+export type TaskLogEntry = {
+  employeeEmail: string;
+  employeeName: string;
+  company: string;
+  platform: string;
+  fulfillment: string;
+  task: string;
+  quantity: number;
+  claimedQuantity: number;
+  timestamp: number;
+};
+
+export type TaskLogRecord = {
+  timestamp: string;
+  employeeName: string;
+  employeeEmail: string;
+  company: string;
+  platform: string;
+  fulfillment: string;
+  task: string;
+  quantity: number;
+  claimedQuantity: number;
+};
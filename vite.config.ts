@@ -1,24 +1,46 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { STANDIN_ENV, sheetsStandIn } from './scripts/dev-server/sheetsStandIn';
 
-export default defineConfig(({ mode }) => {
-  const env = loadEnv(mode, '.', '');
+export default defineConfig(({ command, mode }) => {
+  const loaded = loadEnv(mode, '.', '');
+  // `npm run dev` without a spreadsheet configured talks to the local Sheets stand-in.
+  // SHEETS_STANDIN=on forces it, SHEETS_STANDIN=off disables it.
+  const standIn =
+    command === 'serve' && (loaded.SHEETS_STANDIN ? loaded.SHEETS_STANDIN !== 'off' : !loaded.SHEET_ID);
+  const env = standIn ? { ...loaded, ...STANDIN_ENV } : loaded;
   return {
     server: {
       port: 3000,
       host: '0.0.0.0',
     },
-    plugins: [react()],
+    plugins: [react(), ...(standIn ? [sheetsStandIn({ file: env.SHEETS_STANDIN_FILE })] : [])],
     define: {
       'process.env.SHEET_ID': JSON.stringify(env.SHEET_ID),
       'process.env.SHEETS_API_KEY': JSON.stringify(env.SHEETS_API_KEY),
+      'process.env.SHEETS_API_BASE': JSON.stringify(env.SHEETS_API_BASE),
+      'process.env.SHEETS_STANDIN': JSON.stringify(standIn ? 'true' : ''),
       'process.env.SHEET_RANGE': JSON.stringify(env.SHEET_RANGE),
       'process.env.SHEET_EMPLOYEE_RANGE': JSON.stringify(env.SHEET_EMPLOYEE_RANGE),
       'process.env.SHEET_LOG_RANGE': JSON.stringify(env.SHEET_LOG_RANGE),
       'process.env.SHEET_LOG_WEBHOOK': JSON.stringify(env.SHEET_LOG_WEBHOOK),
       'process.env.SHEET_LOOKUP_RANGE': JSON.stringify(env.SHEET_LOOKUP_RANGE),
-      'process.env.GOOGLE_CLIENT_ID': JSON.stringify(env.GOOGLE_CLIENT_ID)
+      'process.env.SHEET_ENTITLEMENT_RANGE': JSON.stringify(env.SHEET_ENTITLEMENT_RANGE),
+      'process.env.SHEET_HOLIDAY_RANGE': JSON.stringify(env.SHEET_HOLIDAY_RANGE),
+      'process.env.SHEET_DELEGATION_RANGE': JSON.stringify(env.SHEET_DELEGATION_RANGE),
+      'process.env.SHEET_REVISION_RANGE': JSON.stringify(env.SHEET_REVISION_RANGE),
+      'process.env.SHEET_TEMPLATE_RANGE': JSON.stringify(env.SHEET_TEMPLATE_RANGE),
+      'process.env.SHEET_POLICY_RANGE': JSON.stringify(env.SHEET_POLICY_RANGE),
+      'process.env.OFFICE_START_TIME': JSON.stringify(env.OFFICE_START_TIME),
+      'process.env.OFFICE_END_TIME': JSON.stringify(env.OFFICE_END_TIME),
+      'process.env.PERMISSION_HOURS_PER_MONTH': JSON.stringify(env.PERMISSION_HOURS_PER_MONTH),
+      'process.env.PERMISSION_QUOTA_MODE': JSON.stringify(env.PERMISSION_QUOTA_MODE),
+      'process.env.SLA_REMIND_AFTER_HOURS': JSON.stringify(env.SLA_REMIND_AFTER_HOURS),
+      'process.env.SLA_ESCALATE_AFTER_HOURS': JSON.stringify(env.SLA_ESCALATE_AFTER_HOURS),
+      'process.env.SLA_STARTS_SOON_DAYS': JSON.stringify(env.SLA_STARTS_SOON_DAYS),
+      'process.env.GOOGLE_CLIENT_ID': JSON.stringify(env.GOOGLE_CLIENT_ID),
+      'process.env.DATA_BACKEND': JSON.stringify(env.DATA_BACKEND)
     },
     resolve: {
       alias: {